@@ -10,6 +10,14 @@ import Home from "@/pages/home";
 import ProwlerIntegration from "@/pages/prowler-integration";
 import Dashboard from "@/pages/dashboard";
 import Settings from "@/pages/settings";
+import Organization from "@/pages/organization";
+import AssetDetail from "@/pages/asset-detail";
+import Reports from "@/pages/reports";
+import Compliance from "@/pages/compliance";
+import MuteRules from "@/pages/mute-rules";
+import Notifications from "@/pages/notifications";
+import Alerts from "@/pages/alerts";
+import Profile from "@/pages/profile";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -24,7 +32,15 @@ function Router() {
           <Route path="/" component={Home} />
           <Route path="/prowler-integration" component={ProwlerIntegration} />
           <Route path="/dashboard" component={Dashboard} />
+          <Route path="/assets/:id" component={AssetDetail} />
+          <Route path="/reports" component={Reports} />
+          <Route path="/compliance" component={Compliance} />
+          <Route path="/mute-rules" component={MuteRules} />
+          <Route path="/alerts" component={Alerts} />
+          <Route path="/notifications" component={Notifications} />
           <Route path="/settings" component={Settings} />
+          <Route path="/organization" component={Organization} />
+          <Route path="/profile" component={Profile} />
         </>
       )}
       <Route component={NotFound} />
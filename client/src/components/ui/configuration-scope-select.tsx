@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_CONFIGURATIONS, useConfigurationScope } from "@/hooks/useConfigurationScope";
+import type { SafeProwlerConfiguration } from "@shared/schema";
+
+export default function ConfigurationScopeSelect() {
+  const { scope, setScope } = useConfigurationScope();
+
+  const { data: configurations } = useQuery<SafeProwlerConfiguration[]>({
+    queryKey: ["/api/prowler/configurations"],
+    retry: false,
+  });
+
+  // Fall back to all configurations when the selected one has been deleted
+  useEffect(() => {
+    if (configurations && scope !== ALL_CONFIGURATIONS && !configurations.some((config) => config.id === scope)) {
+      setScope(ALL_CONFIGURATIONS);
+    }
+  }, [configurations, scope, setScope]);
+
+  if (!configurations || configurations.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select value={scope} onValueChange={setScope}>
+      <SelectTrigger className="w-48" data-testid="select-configuration-scope">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_CONFIGURATIONS}>All configurations</SelectItem>
+        {configurations.map((config) => (
+          <SelectItem key={config.id} value={config.id}>
+            {config.name}{config.isActive ? "" : " (disabled)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,280 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { parse, stringify } from "yaml";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, Edit, FileCog, Plus, Trash2, Upload } from "lucide-react";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toControlFrameworkDocument } from "@shared/controls";
+import { controlFrameworkFormats, type ControlFrameworkWithControls } from "@shared/schema";
+
+const FRAMEWORK_TEMPLATE = `name: Internal Security Baseline
+description: Controls every production account must meet
+controls:
+  - id: BASE-01
+    description: S3 buckets are encrypted at rest
+    checks:
+      - s3_bucket_default_encryption
+  - id: BASE-02
+    description: Production resources in the EU pass every IAM check
+    checks:
+      - iam_*
+    assets: accountId = 123456789012 AND region in (eu-west-1, eu-central-1)
+`;
+
+export default function ControlFrameworksCard() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("organization:manage");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<ControlFrameworkWithControls | "new" | null>(null);
+  const [content, setContent] = useState("");
+
+  const { data: frameworks = [], isLoading } = useQuery<ControlFrameworkWithControls[]>({
+    queryKey: ["/api/compliance/custom-frameworks"],
+  });
+
+  // Scores on the Compliance page include these frameworks
+  const invalidateComplianceData = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/compliance") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, document }: { id?: string; document: unknown }) =>
+      id
+        ? apiRequest("PUT", `/api/compliance/custom-frameworks/${id}`, document)
+        : apiRequest("POST", "/api/compliance/custom-frameworks", document),
+    onSuccess: (_, { id }) => {
+      invalidateComplianceData();
+      setEditing(null);
+      toast({
+        title: id ? "Framework updated" : "Framework created",
+        description: "Its controls are scored against the current findings",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving framework",
+        description: error.message || "Failed to save control framework",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiRequest("POST", "/api/compliance/custom-frameworks/import", { content: await file.text() });
+      return response.json();
+    },
+    onSuccess: (framework: ControlFrameworkWithControls) => {
+      invalidateComplianceData();
+      toast({
+        title: "Framework imported",
+        description: `${framework.name} has ${framework.controls.length} control${framework.controls.length === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error importing framework",
+        description: error.message || "Failed to import control framework",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/compliance/custom-frameworks/${id}`),
+    onSuccess: () => {
+      invalidateComplianceData();
+      toast({
+        title: "Framework deleted",
+        description: "It no longer appears on the Compliance page",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting framework",
+        description: error.message || "Failed to delete control framework",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (framework: ControlFrameworkWithControls | "new") => {
+    setContent(framework === "new" ? FRAMEWORK_TEMPLATE : stringify(toControlFrameworkDocument(framework)));
+    setEditing(framework);
+  };
+
+  const handleSave = () => {
+    let document: unknown;
+    try {
+      document = parse(content);
+    } catch (error: any) {
+      toast({
+        title: "Invalid YAML or JSON",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: editing && editing !== "new" ? editing.id : undefined, document });
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allows importing the same file again after editing it
+    event.target.value = "";
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
+
+  const handleDelete = (framework: ControlFrameworkWithControls) => {
+    if (confirm(`Are you sure you want to delete "${framework.name}"?`)) {
+      deleteMutation.mutate(framework.id);
+    }
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div className="flex items-center space-x-3">
+          <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+            <FileCog className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-xl">Custom Frameworks</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Internal controls mapped to Prowler checks and resource filters, kept as YAML or JSON
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <input ref={fileInput} type="file" accept=".yaml,.yml,.json" className="hidden" onChange={handleImport} />
+            <Button
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-framework"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+            <Button onClick={() => openEditor("new")} data-testid="button-new-framework">
+              <Plus className="mr-2 h-4 w-4" />
+              New Framework
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Framework</TableHead>
+              <TableHead>Controls</TableHead>
+              <TableHead>Updated</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4}><Skeleton className="h-6 w-full" /></TableCell>
+              </TableRow>
+            ) : frameworks.length > 0 ? (
+              frameworks.map((framework) => (
+                <TableRow key={framework.id} data-testid={`row-control-framework-${framework.id}`}>
+                  <TableCell className="max-w-md">
+                    <div className="text-sm font-medium text-foreground">{framework.name}</div>
+                    {framework.description && (
+                      <div className="text-sm text-muted-foreground">{framework.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{framework.controls.length}</TableCell>
+                  <TableCell className="text-muted-foreground whitespace-nowrap">
+                    {framework.updatedAt ? new Date(framework.updatedAt).toLocaleString() : "—"}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" data-testid={`button-export-framework-${framework.id}`}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {controlFrameworkFormats.map((format) => (
+                          <DropdownMenuItem key={format} asChild>
+                            <a href={`/api/compliance/custom-frameworks/${framework.id}/export?format=${format}`} download>
+                              {format.toUpperCase()}
+                            </a>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {canManage && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(framework)} data-testid={`button-edit-framework-${framework.id}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(framework)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-framework-${framework.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                  No custom frameworks yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Framework" : "Edit Framework"}</DialogTitle>
+            <DialogDescription>
+              Each control lists Prowler check ids (<code>*</code> wildcards) and/or an asset filter such as{" "}
+              <code>resourceType = AwsS3Bucket AND region in (eu-west-1, eu-*)</code> over resourceType, service,
+              region, accountId, provider and resourceId. YAML and JSON are both accepted.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+            className="font-mono text-sm min-h-[24rem]"
+            spellCheck={false}
+            data-testid="textarea-framework-document"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-framework">
+              {saveMutation.isPending ? "Saving..." : "Save Framework"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
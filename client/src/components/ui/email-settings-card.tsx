@@ -0,0 +1,267 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Mail, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SafeEmailSettings } from "@shared/schema";
+
+const emailSettingsFormSchema = z.object({
+  host: z.string().trim().min(1, "Host is required"),
+  port: z.coerce.number().int().min(1).max(65535),
+  secure: z.boolean(),
+  username: z.string().trim(),
+  // Blank keeps the stored password
+  password: z.string(),
+  removePassword: z.boolean(),
+  fromAddress: z.string().trim().email("Must be a valid email"),
+  isEnabled: z.boolean(),
+});
+
+type EmailSettingsFormData = z.infer<typeof emailSettingsFormSchema>;
+
+const emptyForm: EmailSettingsFormData = {
+  host: "",
+  port: 587,
+  secure: false,
+  username: "",
+  password: "",
+  removePassword: false,
+  fromAddress: "",
+  isEnabled: true,
+};
+
+export default function EmailSettingsCard() {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<SafeEmailSettings | null>({
+    queryKey: ["/api/admin/email-settings"],
+  });
+
+  const form = useForm<EmailSettingsFormData>({
+    resolver: zodResolver(emailSettingsFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        host: settings.host,
+        port: settings.port,
+        secure: settings.secure,
+        username: settings.username || "",
+        password: "",
+        removePassword: false,
+        fromAddress: settings.fromAddress,
+        isEnabled: settings.isEnabled,
+      });
+    }
+  }, [settings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ password, removePassword, ...data }: EmailSettingsFormData) =>
+      apiRequest("PUT", "/api/admin/email-settings", { ...data, password: removePassword ? null : password || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-settings"] });
+      toast({
+        title: "Email settings saved",
+        description: "The SMTP server is used for all email notifications",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving email settings",
+        description: error.message || "Failed to save email settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/email-settings/test");
+      return response.json();
+    },
+    onSuccess: (result: { success: boolean; error?: string }) => {
+      if (result.success) {
+        toast({
+          title: "Test email sent",
+          description: "Check your inbox",
+        });
+      } else {
+        toast({
+          title: "Test email failed",
+          description: result.error || "The SMTP server did not accept the message",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error sending test email",
+        description: error.message || "Failed to send test email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div className="flex items-center space-x-3">
+          <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+            <Mail className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-xl">Email</CardTitle>
+            <p className="text-sm text-muted-foreground">SMTP server used to send digests to members</p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => testMutation.mutate()}
+          disabled={!settings || testMutation.isPending}
+          data-testid="button-test-email"
+        >
+          <Send className="mr-2 h-4 w-4" />
+          {testMutation.isPending ? "Sending..." : "Send Test Email"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="host"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>SMTP Host</FormLabel>
+                    <FormControl>
+                      <Input placeholder="smtp.example.com" {...field} data-testid="input-smtp-host" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="port"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Port</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} data-testid="input-smtp-port" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" placeholder="Leave blank for no authentication" {...field} data-testid="input-smtp-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={settings?.hasPassword ? "Leave blank to keep the current password" : ""}
+                        disabled={form.watch("removePassword")}
+                        {...field}
+                        data-testid="input-smtp-password"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {settings?.hasPassword && (
+              <FormField
+                control={form.control}
+                name="removePassword"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-remove-smtp-password" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Remove the stored password</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="fromAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>From Address</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="prowler@example.com" {...field} data-testid="input-smtp-from" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex items-center space-x-8">
+              <FormField
+                control={form.control}
+                name="secure"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-smtp-secure" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Implicit TLS (port 465)</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-smtp-enabled" />
+                    </FormControl>
+                    <FormLabel className="font-normal">Send email</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-email-settings">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { Check, PlusCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+
+interface FacetFilterProps {
+  title: string;
+  options: Array<{ value: string; count: number }>;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  testId: string;
+}
+
+export default function FacetFilter({ title, options, selected, onChange, testId }: FacetFilterProps) {
+  // Selected values stay listed even when the other filters leave them without matches
+  const missing = selected
+    .filter((value) => !options.some((option) => option.value === value))
+    .map((value) => ({ value, count: 0 }));
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((candidate) => candidate !== value) : [...selected, value]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="border-dashed" data-testid={`button-facet-${testId}`}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          {title}
+          {selected.length > 0 && (
+            <>
+              <Separator orientation="vertical" className="mx-2 h-4" />
+              <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                {selected.length > 2 ? `${selected.length} selected` : selected.join(", ")}
+              </Badge>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder={title} />
+          <CommandList>
+            <CommandEmpty>No values found.</CommandEmpty>
+            <CommandGroup>
+              {[...missing, ...options].map((option) => {
+                const isSelected = selected.includes(option.value);
+                return (
+                  <CommandItem
+                    key={option.value}
+                    value={option.value}
+                    onSelect={() => toggle(option.value)}
+                    data-testid={`option-facet-${testId}-${option.value}`}
+                  >
+                    <div
+                      className={cn(
+                        "mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary",
+                        isSelected ? "bg-primary text-primary-foreground" : "opacity-50 [&_svg]:invisible",
+                      )}
+                    >
+                      <Check className="h-4 w-4" />
+                    </div>
+                    <span className="truncate">{option.value}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">{option.count}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+            {selected.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem onSelect={() => onChange([])} className="justify-center text-center">
+                    Clear filter
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
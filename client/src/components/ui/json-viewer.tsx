@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface JsonViewerProps {
+  data: unknown;
+  // Nodes nested deeper than this start collapsed
+  defaultExpandDepth?: number;
+  className?: string;
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === "string") return <span className="text-accent break-all">"{value}"</span>;
+  if (typeof value === "number") return <span className="text-primary">{value}</span>;
+  if (typeof value === "boolean") return <span className="text-orange-600 dark:text-orange-400">{String(value)}</span>;
+  return <span className="text-muted-foreground">{String(value)}</span>;
+}
+
+function JsonNode({ name, value, depth, defaultExpandDepth }: {
+  name?: string;
+  value: unknown;
+  depth: number;
+  defaultExpandDepth: number;
+}) {
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+  const label = name !== undefined && <span className="text-foreground">{name}: </span>;
+
+  if (value === null || typeof value !== "object") {
+    return (
+      <div className="pl-5">
+        {label}
+        <JsonValue value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const [open, close] = isArray ? ["[", "]"] : ["{", "}"];
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex items-center hover:bg-muted/50 rounded text-left"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4 mr-1 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 mr-1 flex-shrink-0" />}
+        {label}
+        <span className="text-muted-foreground">
+          {open}
+          {!expanded && `${entries.length} ${isArray ? "items" : "keys"}${close}`}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="pl-4 border-l border-border ml-2">
+            {entries.map(([key, child]) => (
+              <JsonNode key={key} name={key} value={child} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+            ))}
+          </div>
+          <div className="pl-5 text-muted-foreground">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function JsonViewer({ data, defaultExpandDepth = 1, className }: JsonViewerProps) {
+  return (
+    <div className={cn("font-mono text-xs overflow-x-auto", className)} data-testid="json-viewer">
+      <JsonNode value={data} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+}
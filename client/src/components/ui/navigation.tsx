@@ -1,22 +1,32 @@
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Shield, Home, Plug, Database, Settings, LogOut } from "lucide-react";
-import { useAuth } from "@/hooks/useAuth";
+import { Shield, Home, Plug, Database, Settings, LogOut, Building2, FileText, BellOff, Bell, Siren, UserCircle, ListChecks } from "lucide-react";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import OrganizationSwitcher from "@/components/ui/organization-switcher";
+import type { Permission } from "@shared/permissions";
 
-const getNavigationItems = (userRole?: string) => [
+// Items are only shown to users holding the listed permission in the active organization
+const navigationItems: Array<{ path: string; icon: typeof Home; label: string; permission?: Permission }> = [
   { path: "/", icon: Home, label: "Home" },
-  { path: "/dashboard", icon: Database, label: "Dashboard" },
-  { path: "/prowler-integration", icon: Plug, label: "Prowler Integration" },
-  ...(userRole === "admin" ? [{ path: "/settings", icon: Settings, label: "Settings" }] : []),
+  { path: "/dashboard", icon: Database, label: "Dashboard", permission: "inventory:read" },
+  { path: "/reports", icon: FileText, label: "Reports", permission: "inventory:read" },
+  { path: "/compliance", icon: ListChecks, label: "Compliance", permission: "inventory:read" },
+  { path: "/mute-rules", icon: BellOff, label: "Mute Rules", permission: "inventory:read" },
+  { path: "/alerts", icon: Siren, label: "Alerts", permission: "inventory:read" },
+  { path: "/notifications", icon: Bell, label: "Notifications", permission: "organization:manage" },
+  { path: "/prowler-integration", icon: Plug, label: "Prowler Integration", permission: "configurations:read" },
+  { path: "/organization", icon: Building2, label: "Organization" },
+  { path: "/profile", icon: UserCircle, label: "Profile" },
+  { path: "/settings", icon: Settings, label: "Settings", permission: "users:manage" },
 ];
 
 export default function Navigation() {
-  const { user } = useAuth();
+  const { can } = usePermissions();
   const [location, navigate] = useLocation();
 
   const { toast } = useToast();
@@ -60,10 +70,13 @@ export default function Navigation() {
           </div>
           <ThemeToggle />
         </div>
+        <div className="mt-4">
+          <OrganizationSwitcher />
+        </div>
       </div>
       
       <nav className="flex-1 p-4 space-y-2">
-        {getNavigationItems(user?.role || undefined).map((item) => {
+        {navigationItems.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const Icon = item.icon;
           const isActive = location === item.path;
           
@@ -0,0 +1,55 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OrganizationWithRole } from "@shared/schema";
+
+export default function OrganizationSwitcher() {
+  const { toast } = useToast();
+
+  const { data: organizations } = useQuery<OrganizationWithRole[]>({
+    queryKey: ["/api/organizations"],
+    retry: false,
+  });
+
+  const { data: current } = useQuery<OrganizationWithRole>({
+    queryKey: ["/api/organizations/current"],
+    retry: false,
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: (organizationId: string) => apiRequest("POST", `/api/organizations/${organizationId}/switch`),
+    onSuccess: () => {
+      // Every cached query belongs to the previous organization
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Switch failed",
+        description: error.message || "Failed to switch organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!organizations || !current) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={current.id}
+      onValueChange={(value) => switchMutation.mutate(value)}
+      disabled={switchMutation.isPending}
+    >
+      <SelectTrigger className="w-full" data-testid="select-organization">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {organizations.map((organization) => (
+          <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { TrendingUp } from "lucide-react";
+import { useConfigurationScope } from "@/hooks/useConfigurationScope";
+import type { PostureHistoryPoint } from "@shared/schema";
+
+const chartConfig = {
+  totalResources: { label: "Total", color: "var(--chart-1)" },
+  compliantResources: { label: "Compliant", color: "var(--chart-2)" },
+  criticalIssues: { label: "Critical", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+const rangeOptions = [
+  { value: "30", label: "Last 30 days", granularity: "day" },
+  { value: "90", label: "Last 90 days", granularity: "week" },
+  { value: "365", label: "Last 12 months", granularity: "month" },
+];
+
+export default function PostureTrendChart() {
+  const { scoped } = useConfigurationScope();
+  const [range, setRange] = useState("30");
+  const option = rangeOptions.find((candidate) => candidate.value === range)!;
+  const from = new Date(Date.now() - parseInt(range, 10) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data: history, isLoading } = useQuery<PostureHistoryPoint[]>({
+    queryKey: [scoped(`/api/assets/stats/history?from=${from}&granularity=${option.granularity}`)],
+    retry: false,
+  });
+
+  const chartData = (history || []).map((snapshot) => ({
+    date: snapshot.snapshotDate,
+    totalResources: snapshot.totalResources,
+    compliantResources: snapshot.compliantResources,
+    criticalIssues: snapshot.criticalIssues,
+  }));
+
+  return (
+    <Card className="border-border">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Compliance Trend</h2>
+            <p className="text-sm text-muted-foreground">Daily posture snapshots recorded after each sync</p>
+          </div>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-40" data-testid="select-trend-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangeOptions.map((candidate) => (
+                <SelectItem key={candidate.value} value={candidate.value}>{candidate.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : chartData.length > 0 ? (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+              />
+              <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="totalResources" type="monotone" stroke="var(--color-totalResources)" strokeWidth={2} dot={false} />
+              <Line dataKey="compliantResources" type="monotone" stroke="var(--color-compliantResources)" strokeWidth={2} dot={false} />
+              <Line dataKey="criticalIssues" type="monotone" stroke="var(--color-criticalIssues)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <div className="h-64 flex flex-col items-center justify-center space-y-2" data-testid="text-trend-empty">
+            <TrendingUp className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground">No posture history yet</p>
+            <p className="text-sm text-muted-foreground">A snapshot is recorded after every successful sync</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface TablePaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one; gaps are rendered as ellipses
+function getPageWindow(page: number, totalPages: number): Array<number | null> {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const visible = Array.from(pages).filter((candidate) => candidate >= 1 && candidate <= totalPages).sort((a, b) => a - b);
+
+  return visible.flatMap((candidate, index) =>
+    index > 0 && candidate - visible[index - 1] > 1 ? [null, candidate] : [candidate],
+  );
+}
+
+export default function TablePagination({ page, totalPages, onPageChange }: TablePaginationProps) {
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page <= 1}
+            className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+            data-testid="button-page-previous"
+          />
+        </PaginationItem>
+        {getPageWindow(page, totalPages).map((candidate, index) => (
+          <PaginationItem key={candidate ?? `gap-${index}`}>
+            {candidate === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={candidate === page} onClick={goTo(candidate)} data-testid={`button-page-${candidate}`}>
+                {candidate}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page >= totalPages}
+            className={page >= totalPages ? "pointer-events-none opacity-50" : undefined}
+            data-testid="button-page-next"
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
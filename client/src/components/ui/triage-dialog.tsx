@@ -0,0 +1,219 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { triageConfig } from "@/lib/assetStyles";
+import { endOfDayISOString, toDateInputValue } from "@/lib/utils";
+import { triageStates, type OrganizationMemberWithUser, type TriageFields, type TriageState } from "@shared/schema";
+
+const UNASSIGNED = "unassigned";
+
+const triageFormSchema = z
+  .object({
+    state: z.enum(triageStates),
+    justification: z.string().trim().min(1, "Justification is required").max(2000),
+    // yyyy-mm-dd from the date input
+    expiresAt: z.string(),
+    assigneeId: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.state === "accepted_risk" && !data.expiresAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "Accepted risks need an expiry date" });
+    }
+  });
+
+type TriageFormData = z.infer<typeof triageFormSchema>;
+
+export type TriageTarget = Partial<TriageFields> & {
+  type: "asset" | "finding";
+  id: string;
+  name: string;
+};
+
+interface TriageDialogProps {
+  target: TriageTarget | null;
+  // Preselects a state, e.g. when opened from a menu item
+  initialState?: TriageState;
+  onClose: () => void;
+}
+
+export default function TriageDialog({ target, initialState, onClose }: TriageDialogProps) {
+  const { toast } = useToast();
+
+  const { data: members = [] } = useQuery<OrganizationMemberWithUser[]>({
+    queryKey: ["/api/organizations/current/members"],
+    enabled: !!target,
+  });
+
+  const form = useForm<TriageFormData>({
+    resolver: zodResolver(triageFormSchema),
+    defaultValues: { state: "acknowledged", justification: "", expiresAt: "", assigneeId: UNASSIGNED },
+  });
+
+  useEffect(() => {
+    if (target) {
+      form.reset({
+        state: initialState ?? target.triageState ?? "acknowledged",
+        justification: "",
+        expiresAt: toDateInputValue(target.triageExpiresAt),
+        assigneeId: target.triageAssigneeId || UNASSIGNED,
+      });
+    }
+  }, [target, initialState, form]);
+
+  const triageMutation = useMutation({
+    mutationFn: (data: TriageFormData) =>
+      apiRequest("PUT", `/api/${target!.type === "asset" ? "assets" : "findings"}/${target!.id}/triage`, {
+        state: data.state,
+        justification: data.justification,
+        expiresAt: data.state !== "open" && data.expiresAt ? endOfDayISOString(data.expiresAt) : null,
+        assigneeId: data.assigneeId === UNASSIGNED ? null : data.assigneeId,
+      }),
+    onSuccess: (_, data) => {
+      // Query keys embed the configuration scope, so match on the path prefix
+      queryClient.invalidateQueries({
+        predicate: (query) => ["/api/assets", "/api/findings"].some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+      });
+      toast({
+        title: "Triage saved",
+        description: `${target?.name} is now ${triageConfig[data.state].label.toLowerCase()}`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error saving triage",
+        description: error.message || "Failed to save triage decision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const state = form.watch("state");
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Triage {target?.type === "finding" ? "Finding" : "Asset"}</DialogTitle>
+          <DialogDescription className="break-all">{target?.name}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => triageMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="state"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>State</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-triage-state">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {triageStates.map((triageState) => (
+                        <SelectItem key={triageState} value={triageState}>{triageConfig[triageState].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="justification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Justification
+                    <span className="text-destructive ml-1">*</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Why is this decision being made?" {...field} data-testid="input-triage-justification" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {state !== "open" && (
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Expires
+                      {state === "accepted_risk" && <span className="text-destructive ml-1">*</span>}
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="date" min={toDateInputValue(new Date())} {...field} data-testid="input-triage-expires-at" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      The item counts as open again after this date
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="assigneeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Assignee</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-triage-assignee">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.userId} value={member.userId}>{member.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={triageMutation.isPending} data-testid="button-submit-triage">
+                {triageMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
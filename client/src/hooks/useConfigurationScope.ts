@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "prowler-dashboard.configuration-scope";
+export const ALL_CONFIGURATIONS = "all";
+
+// Shared across pages so the dashboard and overview show the same scope
+let currentScope = localStorage.getItem(STORAGE_KEY) || ALL_CONFIGURATIONS;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setScope(scope: string) {
+  currentScope = scope;
+  localStorage.setItem(STORAGE_KEY, scope);
+  listeners.forEach((listener) => listener());
+}
+
+// Appends the configurationId query parameter when a single configuration is selected
+export function withConfigurationScope(url: string, scope: string) {
+  if (scope === ALL_CONFIGURATIONS) {
+    return url;
+  }
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}configurationId=${encodeURIComponent(scope)}`;
+}
+
+export function useConfigurationScope() {
+  const scope = useSyncExternalStore(subscribe, () => currentScope);
+
+  return {
+    scope,
+    setScope,
+    scoped: (url: string) => withConfigurationScope(url, scope),
+  };
+}
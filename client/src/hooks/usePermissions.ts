@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CurrentOrganization, Permission } from "@shared/permissions";
+
+// Permissions in the active organization, combining the global role with the organization role
+export function usePermissions() {
+  const { data: organization, isLoading } = useQuery<CurrentOrganization>({
+    queryKey: ["/api/organizations/current"],
+    retry: false,
+  });
+
+  const permissions = organization?.permissions ?? [];
+
+  return {
+    organization,
+    isLoading,
+    can: (permission: Permission) => permissions.includes(permission),
+  };
+}
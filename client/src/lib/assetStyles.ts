@@ -0,0 +1,97 @@
+import {
+  Database,
+  Server,
+  HardDrive,
+  Code,
+  Users,
+  TriangleAlert,
+  CheckCircle,
+  AlertCircle,
+  Cloud,
+} from "lucide-react";
+import { SiAmazonwebservices, SiGooglecloud, SiKubernetes } from "react-icons/si";
+import { VscAzure } from "react-icons/vsc";
+import { FaMicrosoft } from "react-icons/fa";
+import type { Asset, CloudProvider, TriageFields, TriageState } from "@shared/schema";
+
+const resourceTypeIcons: Record<string, React.ComponentType<any>> = {
+  'ec2': Server,
+  's3': HardDrive,
+  'lambda': Code,
+  'iam': Users,
+  'rds': Database,
+};
+
+export const getResourceIcon = (type: string) => resourceTypeIcons[type.toLowerCase()] || Database;
+
+export const providerConfig: Record<CloudProvider, { icon: React.ComponentType<any>; label: string }> = {
+  'aws': { icon: SiAmazonwebservices, label: 'AWS' },
+  'azure': { icon: VscAzure, label: 'Azure' },
+  'gcp': { icon: SiGooglecloud, label: 'GCP' },
+  'kubernetes': { icon: SiKubernetes, label: 'Kubernetes' },
+  'm365': { icon: FaMicrosoft, label: 'Microsoft 365' },
+};
+
+export const getProviderIcon = (provider: string | null) =>
+  (provider && providerConfig[provider as CloudProvider]?.icon) || Cloud;
+
+export const getProviderLabel = (provider: string | null) =>
+  (provider && providerConfig[provider as CloudProvider]?.label) || provider || 'Unknown';
+
+export const statusConfig: Record<Asset["status"], { color: string; icon: React.ComponentType<any>; label: string }> = {
+  'compliant': { 
+    color: 'bg-accent/10 text-accent', 
+    icon: CheckCircle,
+    label: 'Compliant'
+  },
+  'non-compliant': { 
+    color: 'bg-destructive/10 text-destructive', 
+    icon: TriangleAlert,
+    label: 'Non-Compliant'
+  },
+  'warning': { 
+    color: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400', 
+    icon: AlertCircle,
+    label: 'Warning'
+  },
+  'unknown': { 
+    color: 'bg-muted text-muted-foreground', 
+    icon: AlertCircle,
+    label: 'Unknown'
+  },
+};
+
+export const severityConfig: Record<string, string> = {
+  'critical': 'bg-destructive/10 text-destructive',
+  'high': 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  'medium': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  'low': 'bg-muted text-muted-foreground',
+  'informational': 'bg-muted text-muted-foreground',
+};
+
+export const triageConfig: Record<TriageState, { color: string; label: string; action: string }> = {
+  'open': { color: 'bg-muted text-muted-foreground', label: 'Open', action: 'Reopen' },
+  'acknowledged': { color: 'bg-primary/10 text-primary', label: 'Acknowledged', action: 'Acknowledge' },
+  'muted': { color: 'bg-muted text-muted-foreground', label: 'Muted', action: 'Mute' },
+  'accepted_risk': { color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400', label: 'Accepted Risk', action: 'Accept risk' },
+  'false_positive': { color: 'bg-accent/10 text-accent', label: 'False Positive', action: 'Mark false positive' },
+};
+
+// A decision past its expiry no longer applies, matching how the server counts it
+export const getTriageState = (item: Pick<TriageFields, 'triageState' | 'triageExpiresAt'>): TriageState =>
+  item.triageExpiresAt && new Date(item.triageExpiresAt) <= new Date() ? 'open' : item.triageState;
+
+export const formatRelativeTime = (date: string | Date) => {
+  const now = new Date();
+  const target = new Date(date);
+  const diffMs = now.getTime() - target.getTime();
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  
+  if (diffHours < 1) return 'Less than 1 hour ago';
+  if (diffHours === 1) return '1 hour ago';
+  if (diffHours < 24) return `${diffHours} hours ago`;
+  
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays === 1) return '1 day ago';
+  return `${diffDays} days ago`;
+};
@@ -4,3 +4,17 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Local yyyy-mm-dd, as <input type="date"> expects
+export function toDateInputValue(value: Date | string | null | undefined) {
+  if (!value) {
+    return ""
+  }
+  const date = new Date(value)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+// Expiry dates picked in the UI hold until the end of that local day
+export function endOfDayISOString(dateInputValue: string) {
+  return new Date(`${dateInputValue}T23:59:59`).toISOString()
+}
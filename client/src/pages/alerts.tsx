@@ -0,0 +1,736 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Edit, Eye, Plus, Siren, Trash2, X } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { alertMetricLabels, describeAlertRule } from "@shared/alerts";
+import {
+  alertConditionFields,
+  alertMetrics,
+  alertRuleKinds,
+  type Alert,
+  type AlertConditionField,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertRulePreview,
+  type SafeNotificationChannel,
+  type SafeProwlerConfiguration,
+} from "@shared/schema";
+
+const ALL_CONFIGURATIONS = "all";
+
+const kindLabels: Record<AlertRuleKind, string> = {
+  findings: "Findings match conditions",
+  metric: "Posture metric crosses a threshold",
+};
+
+const fieldLabels: Record<AlertConditionField, string> = {
+  severity: "Severity",
+  checkId: "Check ID",
+  resourceType: "Resource type",
+  service: "Service",
+  region: "Region",
+  accountId: "Account",
+  provider: "Provider",
+  resourceId: "Resource UID",
+};
+
+// Comma-separated lists are split when the form is submitted
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+const ruleFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    configurationId: z.string(),
+    kind: z.enum(alertRuleKinds),
+    conditions: z.array(z.object({
+      field: z.enum(alertConditionFields),
+      operator: z.enum(["in", "not_in"]),
+      values: z.string().refine((value) => splitList(value).length > 0, "Enter at least one value"),
+    })),
+    metric: z.enum(alertMetrics),
+    metricOperator: z.enum(["below", "above"]),
+    threshold: z.coerce.number().min(0),
+    cooldownMinutes: z.coerce.number().int().min(0).max(7 * 24 * 60),
+    channelIds: z.array(z.string()),
+    emailRecipients: z.string().refine(
+      (value) => splitList(value).every((email) => z.string().email().safeParse(email).success),
+      "Enter email addresses separated by commas",
+    ),
+    isActive: z.boolean(),
+  })
+  .refine((rule) => rule.kind === "metric" || rule.conditions.length > 0, { message: "Add at least one condition", path: ["conditions"] })
+  .refine((rule) => rule.channelIds.length > 0 || splitList(rule.emailRecipients).length > 0, {
+    message: "Route the alert to at least one channel or email address",
+    path: ["channelIds"],
+  });
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+const emptyForm: RuleFormData = {
+  name: "",
+  configurationId: ALL_CONFIGURATIONS,
+  kind: "findings",
+  conditions: [{ field: "severity", operator: "in", values: "critical, high" }],
+  metric: "compliance_ratio",
+  metricOperator: "below",
+  threshold: 85,
+  cooldownMinutes: 60,
+  channelIds: [],
+  emailRecipients: "",
+  isActive: true,
+};
+
+function toFormData(rule: AlertRule): RuleFormData {
+  return {
+    name: rule.name,
+    configurationId: rule.configurationId ?? ALL_CONFIGURATIONS,
+    kind: rule.kind,
+    conditions: rule.conditions.map((condition) => ({ ...condition, values: condition.values.join(", ") })),
+    metric: rule.metric?.metric ?? emptyForm.metric,
+    metricOperator: rule.metric?.operator ?? emptyForm.metricOperator,
+    threshold: rule.metric?.threshold ?? emptyForm.threshold,
+    cooldownMinutes: rule.cooldownMinutes,
+    channelIds: rule.channelIds,
+    emailRecipients: rule.emailRecipients.join(", "),
+    isActive: rule.isActive,
+  };
+}
+
+function toRuleInput(data: RuleFormData) {
+  return {
+    name: data.name,
+    configurationId: data.configurationId === ALL_CONFIGURATIONS ? null : data.configurationId,
+    kind: data.kind,
+    conditions: data.kind === "findings"
+      ? data.conditions.map((condition) => ({ ...condition, values: splitList(condition.values) }))
+      : [],
+    metric: data.kind === "metric" ? { metric: data.metric, operator: data.metricOperator, threshold: data.threshold } : null,
+    cooldownMinutes: data.cooldownMinutes,
+    channelIds: data.channelIds,
+    emailRecipients: splitList(data.emailRecipients),
+    isActive: data.isActive,
+  };
+}
+
+function formatAlert(alert: Alert): string {
+  const { payload } = alert;
+  if (payload.metric) {
+    const unit = payload.metric.metric === "compliance_ratio" ? "%" : "";
+    return `${alertMetricLabels[payload.metric.metric]} at ${payload.metric.value}${unit}`;
+  }
+  const checks = Array.from(new Set((payload.findings ?? []).map((finding) => finding.checkTitle || finding.checkId)));
+  return `${payload.total} new matching finding${payload.total === 1 ? "" : "s"}${checks.length > 0 ? `: ${checks.slice(0, 3).join(", ")}${checks.length > 3 ? "…" : ""}` : ""}`;
+}
+
+export default function Alerts() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("organization:manage");
+  const [editing, setEditing] = useState<AlertRule | "new" | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules"],
+  });
+
+  const { data: alerts = [], isLoading: alertsLoading } = useQuery<Alert[]>({
+    queryKey: ["/api/alerts"],
+    // Rules are evaluated by background syncs
+    refetchInterval: 30000,
+  });
+
+  const { data: channels = [] } = useQuery<SafeNotificationChannel[]>({
+    queryKey: ["/api/notifications/channels"],
+    enabled: canManage,
+  });
+
+  const { data: configurations = [] } = useQuery<SafeProwlerConfiguration[]>({
+    queryKey: ["/api/prowler/configurations"],
+    retry: false,
+  });
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyForm,
+  });
+  const conditions = useFieldArray({ control: form.control, name: "conditions" });
+  const kind = form.watch("kind");
+
+  const invalidateAlertData = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/alerts") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, rule }: { id?: string; rule: ReturnType<typeof toRuleInput> }) =>
+      id ? apiRequest("PUT", `/api/alerts/rules/${id}`, rule) : apiRequest("POST", "/api/alerts/rules", rule),
+    onSuccess: (_, { id }) => {
+      invalidateAlertData();
+      setEditing(null);
+      toast({
+        title: id ? "Alert rule updated" : "Alert rule created",
+        description: "The rule is evaluated after every sync",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving alert rule",
+        description: error.message || "Failed to save alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/alerts/rules/${id}`),
+    onSuccess: () => {
+      invalidateAlertData();
+      toast({
+        title: "Alert rule deleted",
+        description: "Alerts it sent stay in the history",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting alert rule",
+        description: error.message || "Failed to delete alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("GET", `/api/alerts/rules/${id}/preview`);
+      return response.json();
+    },
+    onSuccess: (preview: AlertRulePreview, id) => {
+      const rule = rules.find((candidate) => candidate.id === id);
+      const description = rule?.kind === "metric"
+        ? preview.value === null
+          ? "There is no data to measure yet"
+          : `The metric is at ${preview.value} and ${preview.triggered ? "crosses" : "does not cross"} the threshold`
+        : `${preview.total} failing finding${preview.total === 1 ? "" : "s"} match right now`;
+      toast({ title: rule?.name ?? "Alert rule", description });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error checking alert rule",
+        description: error.message || "Failed to preview alert rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (rule: AlertRule | "new") => {
+    form.reset(rule === "new" ? emptyForm : toFormData(rule));
+    setEditing(rule);
+  };
+
+  const handleSubmit = (data: RuleFormData) => {
+    saveMutation.mutate({ id: editing && editing !== "new" ? editing.id : undefined, rule: toRuleInput(data) });
+  };
+
+  const handleToggle = (rule: AlertRule, isActive: boolean) => {
+    saveMutation.mutate({ id: rule.id, rule: toRuleInput({ ...toFormData(rule), isActive }) });
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    if (confirm(`Are you sure you want to delete "${rule.name}"?`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]));
+  const configurationNames = new Map(configurations.map((config) => [config.id, config.name]));
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Alerts</h1>
+              <p className="text-sm text-muted-foreground">Rules evaluated after every sync, routed to notification channels and email</p>
+            </div>
+            {canManage && (
+              <Button onClick={() => openEditor("new")} data-testid="button-new-alert-rule">
+                <Plus className="mr-2 h-4 w-4" />
+                New Rule
+              </Button>
+            )}
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Routing</TableHead>
+                      <TableHead>Last Triggered</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      Array.from({ length: 2 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={5}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : rules.length > 0 ? (
+                      rules.map((rule) => (
+                        <TableRow key={rule.id} data-testid={`row-alert-rule-${rule.id}`}>
+                          <TableCell className="max-w-md">
+                            <div className="text-sm font-medium text-foreground">
+                              {rule.name}
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                {rule.configurationId ? configurationNames.get(rule.configurationId) ?? "One configuration" : "All configurations"}
+                              </span>
+                            </div>
+                            <div className="text-sm text-muted-foreground font-mono break-words">{describeAlertRule(rule)}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1 max-w-xs">
+                              {rule.channelIds.map((channelId) => (
+                                <Badge key={channelId} variant="secondary" className="font-normal">
+                                  {channelNames.get(channelId) ?? "Channel"}
+                                </Badge>
+                              ))}
+                              {rule.emailRecipients.map((email) => (
+                                <Badge key={email} variant="outline" className="font-normal">{email}</Badge>
+                              ))}
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {rule.cooldownMinutes > 0 ? `At most once every ${rule.cooldownMinutes} min` : "No cooldown"}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">
+                            {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : "Never"}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={rule.isActive}
+                              onCheckedChange={(isActive) => handleToggle(rule, isActive)}
+                              disabled={!canManage || saveMutation.isPending}
+                              data-testid={`switch-alert-rule-active-${rule.id}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => previewMutation.mutate(rule.id)}
+                                disabled={previewMutation.isPending}
+                                data-testid={`button-preview-alert-rule-${rule.id}`}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              {canManage && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openEditor(rule)}
+                                    data-testid={`button-edit-alert-rule-${rule.id}`}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDelete(rule)}
+                                    disabled={deleteMutation.isPending}
+                                    data-testid={`button-delete-alert-rule-${rule.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8">
+                          <div className="flex flex-col items-center space-y-2">
+                            <Siren className="h-8 w-8 text-muted-foreground" />
+                            <p className="text-muted-foreground">No alert rules yet</p>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <div className="px-6 py-4 border-b border-border">
+                  <h2 className="text-lg font-semibold text-foreground">Alert History</h2>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Triggered</TableHead>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Configuration</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {alertsLoading ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={4}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : alerts.length > 0 ? (
+                      alerts.map((alert) => (
+                        <TableRow key={alert.id} data-testid={`row-alert-${alert.id}`}>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">
+                            {new Date(alert.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{alert.ruleName}</TableCell>
+                          <TableCell className="text-muted-foreground">{alert.payload.configuration?.name ?? "All"}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground max-w-md">
+                            <div className="truncate" title={alert.payload.rule.expression}>{formatAlert(alert)}</div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                          No alerts have been triggered yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {/* Rule editor */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Alert Rule" : "Edit Alert Rule"}</DialogTitle>
+            <DialogDescription>
+              A rule alerts once per matching finding, or once each time a metric crosses its threshold. Values accept "*" wildcards.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-alert-rule-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="configurationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Configurations</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-alert-rule-configuration">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ALL_CONFIGURATIONS}>All enabled configurations</SelectItem>
+                          {configurations.map((config) => (
+                            <SelectItem key={config.id} value={config.id}>{config.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trigger</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-alert-rule-kind">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {alertRuleKinds.map((ruleKind) => (
+                          <SelectItem key={ruleKind} value={ruleKind}>{kindLabels[ruleKind]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {kind === "findings" ? (
+                <div className="space-y-2">
+                  <FormLabel>Conditions</FormLabel>
+                  {conditions.fields.map((condition, index) => (
+                    <div key={condition.id} className="flex items-start space-x-2">
+                      <FormField
+                        control={form.control}
+                        name={`conditions.${index}.field`}
+                        render={({ field }) => (
+                          <FormItem className="w-40">
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid={`select-condition-field-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {alertConditionFields.map((conditionField) => (
+                                  <SelectItem key={conditionField} value={conditionField}>{fieldLabels[conditionField]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`conditions.${index}.operator`}
+                        render={({ field }) => (
+                          <FormItem className="w-28">
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid={`select-condition-operator-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="in">is one of</SelectItem>
+                                <SelectItem value="not_in">is not</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`conditions.${index}.values`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input placeholder="critical, high" {...field} data-testid={`input-condition-values-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => conditions.remove(index)}
+                        data-testid={`button-remove-condition-${index}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => conditions.append({ field: "resourceType", operator: "in", values: "" })}
+                    data-testid="button-add-condition"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Condition
+                  </Button>
+                  {form.formState.errors.conditions?.message && (
+                    <p className="text-sm font-medium text-destructive">{form.formState.errors.conditions.message}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="metric"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Metric</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-alert-metric">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {alertMetrics.map((metric) => (
+                              <SelectItem key={metric} value={metric}>{alertMetricLabels[metric]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="metricOperator"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>When it</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-alert-metric-operator">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="below">drops below</SelectItem>
+                            <SelectItem value="above">rises above</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{form.watch("metric") === "compliance_ratio" ? "Threshold (%)" : "Threshold"}</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" {...field} data-testid="input-alert-threshold" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="channelIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notification Channels</FormLabel>
+                    {channels.length > 0 ? (
+                      <div className="space-y-2">
+                        {channels.map((channel) => (
+                          <label key={channel.id} className="flex items-center space-x-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(channel.id)}
+                              onCheckedChange={(checked) => field.onChange(checked
+                                ? [...field.value, channel.id]
+                                : field.value.filter((channelId) => channelId !== channel.id))}
+                              data-testid={`checkbox-alert-channel-${channel.id}`}
+                            />
+                            <span>{channel.name}</span>
+                            {!channel.isActive && <span className="text-xs text-muted-foreground">(disabled)</span>}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No notification channels yet; add them on the Notifications page.</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="emailRecipients"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email Recipients</FormLabel>
+                    <FormControl>
+                      <Input placeholder="secops@example.com, oncall@example.com" {...field} data-testid="input-alert-email-recipients" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <FormField
+                  control={form.control}
+                  name="cooldownMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cooldown (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} data-testid="input-alert-cooldown" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pb-2">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-alert-rule-active" />
+                      </FormControl>
+                      <FormLabel className="font-normal">Active</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-alert-rule">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ArrowLeft, ChevronDown, ClipboardCheck, Database, History, Tag } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import JsonViewer from "@/components/ui/json-viewer";
+import TriageDialog, { type TriageTarget } from "@/components/ui/triage-dialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { formatRelativeTime, getProviderIcon, getProviderLabel, getResourceIcon, getTriageState, severityConfig, statusConfig, triageConfig } from "@/lib/assetStyles";
+import type { Asset, AssetChange, AssetDetail as AssetDetailResponse, OrganizationMemberWithUser } from "@shared/schema";
+
+const findingStatusConfig: Record<string, string> = {
+  fail: 'bg-destructive/10 text-destructive',
+  pass: 'bg-accent/10 text-accent',
+  manual: 'bg-muted text-muted-foreground',
+};
+
+const changeLabels: Record<AssetChange["changeType"], string> = {
+  created: 'First seen',
+  updated: 'Changed',
+  removed: 'No longer reported',
+  restored: 'Reported again',
+};
+
+function statusLabel(status: string | null) {
+  return status ? statusConfig[status as Asset["status"]]?.label ?? status : '';
+}
+
+export default function AssetDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { can } = usePermissions();
+  const canTriage = can("findings:triage");
+  const [triageTarget, setTriageTarget] = useState<TriageTarget | null>(null);
+
+  const { data: members = [] } = useQuery<OrganizationMemberWithUser[]>({
+    queryKey: ["/api/organizations/current/members"],
+  });
+  const memberName = (userId: string | null) =>
+    userId ? members.find(member => member.userId === userId)?.username ?? 'Former member' : 'Unassigned';
+
+  const { data, isLoading, error } = useQuery<AssetDetailResponse>({
+    queryKey: ["/api/assets", id],
+    retry: false,
+  });
+
+  const asset = data?.asset;
+  const IconComponent = getResourceIcon(asset?.resourceType || "");
+  const ProviderIcon = getProviderIcon(asset?.provider || null);
+  const statusInfo = asset ? statusConfig[asset.status] : null;
+  const StatusIcon = statusInfo?.icon;
+  const triageState = asset ? getTriageState(asset) : 'open';
+  // Failing findings first so the actionable ones are on top
+  const findings = [...(data?.findings || [])].sort((a, b) => (a.status === 'fail' ? 0 : 1) - (b.status === 'fail' ? 0 : 1));
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4 min-w-0">
+              <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} data-testid="button-back">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="flex-shrink-0 h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                <IconComponent className="h-5 w-5 text-primary" />
+              </div>
+              <div className="min-w-0">
+                {isLoading ? (
+                  <Skeleton className="h-7 w-64" />
+                ) : (
+                  <h1 className="text-2xl font-semibold text-foreground truncate" data-testid="text-asset-name">
+                    {asset?.resourceName || 'Asset not found'}
+                  </h1>
+                )}
+                <p className="text-sm text-muted-foreground truncate">{asset?.resourceId}</p>
+              </div>
+            </div>
+            {statusInfo && StatusIcon && (
+              <div className="flex items-center space-x-2">
+                {asset?.removedAt && <Badge variant="outline">Removed</Badge>}
+                {triageState !== 'open' && (
+                  <Badge variant="outline" className={triageConfig[triageState].color} data-testid="badge-asset-triage">
+                    {triageConfig[triageState].label}
+                  </Badge>
+                )}
+                <Badge className={statusInfo.color} data-testid="badge-asset-status">
+                  <StatusIcon className="mr-1 h-3 w-3" />
+                  {statusInfo.label}
+                </Badge>
+                {canTriage && asset && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTriageTarget({ ...asset, type: 'asset', name: asset.resourceName })}
+                    data-testid="button-triage-asset"
+                  >
+                    <ClipboardCheck className="mr-2 h-4 w-4" />
+                    Triage
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          {error ? (
+            <div className="flex flex-col items-center justify-center py-16 space-y-2" data-testid="text-asset-error">
+              <Database className="h-8 w-8 text-muted-foreground" />
+              <p className="text-muted-foreground">This asset could not be found</p>
+            </div>
+          ) : isLoading || !data || !asset ? (
+            <div className="space-y-6">
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : (
+            <div className="max-w-6xl mx-auto space-y-6">
+              {/* Overview */}
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <h2 className="text-lg font-semibold text-foreground mb-4">Overview</h2>
+                  <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <dt className="text-muted-foreground">Resource Type</dt>
+                      <dd className="text-foreground capitalize">{asset.resourceType}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Region</dt>
+                      <dd className="text-foreground">{asset.region || 'N/A'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Provider</dt>
+                      <dd className="flex items-center text-foreground" data-testid="text-asset-provider">
+                        {asset.provider ? (
+                          <>
+                            <ProviderIcon className="mr-1.5 h-4 w-4" />
+                            {getProviderLabel(asset.provider)}
+                          </>
+                        ) : 'N/A'}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Account</dt>
+                      <dd className="text-foreground break-all">{asset.accountId || 'N/A'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Service</dt>
+                      <dd className="text-foreground">{asset.service || 'N/A'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Severity</dt>
+                      <dd>
+                        {asset.severity ? (
+                          <Badge className={`capitalize ${severityConfig[asset.severity]}`}>{asset.severity}</Badge>
+                        ) : 'N/A'}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Configuration</dt>
+                      <dd className="text-foreground">{asset.configurationName}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">First Seen</dt>
+                      <dd className="text-foreground">{asset.firstSeenAt ? new Date(asset.firstSeenAt).toLocaleString() : 'N/A'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Last Checked</dt>
+                      <dd className="text-foreground">{asset.lastCheckedAt ? formatRelativeTime(asset.lastCheckedAt) : 'Never'}</dd>
+                    </div>
+                  </dl>
+                </CardContent>
+              </Card>
+
+              {/* Triage */}
+              {asset.triagedAt && (
+                <Card className="border-border">
+                  <CardContent className="p-6">
+                    <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center">
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      Triage
+                    </h2>
+                    <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <dt className="text-muted-foreground">State</dt>
+                        <dd>
+                          <Badge variant="outline" className={triageConfig[triageState].color}>{triageConfig[triageState].label}</Badge>
+                          {triageState !== asset.triageState && (
+                            <span className="ml-2 text-muted-foreground">({triageConfig[asset.triageState].label} expired)</span>
+                          )}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-muted-foreground">Assignee</dt>
+                        <dd className="text-foreground">{memberName(asset.triageAssigneeId)}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-muted-foreground">Expires</dt>
+                        <dd className="text-foreground">{asset.triageExpiresAt ? new Date(asset.triageExpiresAt).toLocaleDateString() : 'Never'}</dd>
+                      </div>
+                      <div className="md:col-span-3">
+                        <dt className="text-muted-foreground">Justification</dt>
+                        <dd className="text-foreground whitespace-pre-wrap" data-testid="text-asset-triage-justification">{asset.triageJustification}</dd>
+                      </div>
+                    </dl>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Tags */}
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center">
+                    <Tag className="h-4 w-4 mr-2" />
+                    Tags
+                  </h2>
+                  {Object.keys(data.tags).length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(data.tags).map(([key, value]) => (
+                        <Badge key={key} variant="secondary" data-testid={`badge-tag-${key}`}>
+                          {key}{value ? `: ${value}` : ''}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No tags reported for this resource.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Findings */}
+              <Card className="border-border">
+                <CardContent className="p-0">
+                  <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-foreground">Findings</h2>
+                    <span className="text-sm text-muted-foreground">
+                      <span className="font-medium text-foreground">{findings.filter(f => f.status === 'fail').length}</span> failing of {findings.length}
+                    </span>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Check</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Severity</TableHead>
+                          <TableHead>Triage</TableHead>
+                          <TableHead>Details</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {findings.length > 0 ? (
+                          findings.map((finding) => (
+                            <TableRow key={finding.id} data-testid={`row-finding-${finding.id}`}>
+                              <TableCell>
+                                <div className="text-sm font-medium text-foreground">{finding.checkTitle || finding.checkId}</div>
+                                <div className="text-sm text-muted-foreground">{finding.checkId}</div>
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={`uppercase ${findingStatusConfig[finding.status]}`}>{finding.status}</Badge>
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={`capitalize ${severityConfig[finding.severity]}`}>{finding.severity}</Badge>
+                              </TableCell>
+                              <TableCell>
+                                {canTriage ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="px-0"
+                                    onClick={() => setTriageTarget({ ...finding, type: 'finding', name: finding.checkTitle || finding.checkId })}
+                                    data-testid={`button-triage-finding-${finding.id}`}
+                                  >
+                                    <Badge variant="outline" className={triageConfig[getTriageState(finding)].color}>
+                                      {triageConfig[getTriageState(finding)].label}
+                                    </Badge>
+                                  </Button>
+                                ) : (
+                                  <Badge variant="outline" className={triageConfig[getTriageState(finding)].color}>
+                                    {triageConfig[getTriageState(finding)].label}
+                                  </Badge>
+                                )}
+                                {finding.triageAssigneeId && (
+                                  <div className="text-xs text-muted-foreground mt-1">{memberName(finding.triageAssigneeId)}</div>
+                                )}
+                                {finding.mutedByRuleId && (
+                                  <div className="text-xs text-muted-foreground mt-1" data-testid={`text-finding-muted-${finding.id}`}>Muted by rule</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground max-w-md">
+                                {finding.statusExtended}
+                                {(finding.remediation as any)?.recommendation?.text && (
+                                  <div className="mt-1">
+                                    <span className="font-medium text-foreground">Remediation: </span>
+                                    {(finding.remediation as any).recommendation.text}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                              No findings reported for this resource
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Status History */}
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center">
+                    <History className="h-4 w-4 mr-2" />
+                    Status History
+                  </h2>
+                  {data.statusHistory.length > 0 ? (
+                    <div className="space-y-3">
+                      {data.statusHistory.map((change) => (
+                        <div
+                          key={change.id}
+                          className="flex items-start justify-between text-sm border-b border-border pb-3 last:border-0 last:pb-0"
+                          data-testid={`row-change-${change.id}`}
+                        >
+                          <div>
+                            <div className="text-foreground">{changeLabels[change.changeType]}</div>
+                            <div className="text-muted-foreground">
+                              {change.previousStatus && change.newStatus && change.previousStatus !== change.newStatus
+                                ? `${statusLabel(change.previousStatus)} → ${statusLabel(change.newStatus)}`
+                                : statusLabel(change.newStatus || change.previousStatus)}
+                              {change.previousSeverity !== change.newSeverity && change.previousSeverity && change.newSeverity
+                                ? ` · severity ${change.previousSeverity} → ${change.newSeverity}`
+                                : ''}
+                            </div>
+                          </div>
+                          <span className="text-muted-foreground">{new Date(change.changedAt).toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Triage History */}
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center">
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    Triage History
+                  </h2>
+                  {data.triageHistory.length > 0 ? (
+                    <div className="space-y-3">
+                      {data.triageHistory.map((event) => (
+                        <div
+                          key={event.id}
+                          className="flex items-start justify-between text-sm border-b border-border pb-3 last:border-0 last:pb-0"
+                          data-testid={`row-triage-event-${event.id}`}
+                        >
+                          <div className="min-w-0">
+                            <div className="text-foreground">
+                              {event.checkId ? `${event.checkId}: ` : ''}
+                              {triageConfig[event.previousState].label} → {triageConfig[event.newState].label}
+                            </div>
+                            <div className="text-muted-foreground whitespace-pre-wrap">{event.justification}</div>
+                            <div className="text-xs text-muted-foreground">
+                              by {event.username || 'Former member'}
+                              {event.assigneeUsername ? ` · assigned to ${event.assigneeUsername}` : ''}
+                              {event.expiresAt ? ` · expires ${new Date(event.expiresAt).toLocaleDateString()}` : ''}
+                            </div>
+                          </div>
+                          <span className="text-muted-foreground flex-shrink-0 ml-4">{new Date(event.createdAt).toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No triage decisions recorded yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Raw Prowler payload */}
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <Collapsible defaultOpen>
+                    <CollapsibleTrigger asChild>
+                      <button type="button" className="w-full flex items-center justify-between" data-testid="button-toggle-raw-data">
+                        <h2 className="text-lg font-semibold text-foreground">Raw Prowler Payload</h2>
+                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="mt-4">
+                      <div className="bg-muted rounded-lg p-4 max-h-[32rem] overflow-auto">
+                        <JsonViewer data={asset.rawData ?? null} />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <TriageDialog target={triageTarget} onClose={() => setTriageTarget(null)} />
+    </div>
+  );
+}
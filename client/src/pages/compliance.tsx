@@ -0,0 +1,267 @@
+import { Fragment, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, ListChecks } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import ConfigurationScopeSelect from "@/components/ui/configuration-scope-select";
+import ControlFrameworksCard from "@/components/ui/control-frameworks-card";
+import { useConfigurationScope } from "@/hooks/useConfigurationScope";
+import { severityConfig } from "@/lib/assetStyles";
+import { cn } from "@/lib/utils";
+import type {
+  ComplianceFinding,
+  ComplianceFrameworkDetail,
+  ComplianceFrameworkScore,
+  ComplianceRequirementStatus,
+} from "@shared/schema";
+
+const requirementStatusConfig: Record<ComplianceRequirementStatus, { color: string; label: string }> = {
+  pass: { color: 'bg-accent/10 text-accent', label: 'Pass' },
+  fail: { color: 'bg-destructive/10 text-destructive', label: 'Fail' },
+  manual: { color: 'bg-muted text-muted-foreground', label: 'Manual' },
+};
+
+// The organization's own frameworks are addressed by id, Prowler's by name
+function frameworkKey(score: ComplianceFrameworkScore) {
+  return score.customFrameworkId ?? score.framework;
+}
+
+function scorePath(score: ComplianceFrameworkScore) {
+  return score.customFrameworkId
+    ? `/api/compliance/custom-frameworks/${score.customFrameworkId}/score`
+    : `/api/compliance/frameworks/${encodeURIComponent(score.framework)}`;
+}
+
+function findingsPath(score: ComplianceFrameworkScore, requirementId: string) {
+  return score.customFrameworkId
+    ? `/api/compliance/custom-frameworks/${score.customFrameworkId}/controls/${encodeURIComponent(requirementId)}/findings`
+    : `/api/compliance/frameworks/${encodeURIComponent(score.framework)}/requirements/${encodeURIComponent(requirementId)}/findings`;
+}
+
+function RequirementFindings({ score, requirementId }: { score: ComplianceFrameworkScore; requirementId: string }) {
+  const [, navigate] = useLocation();
+  const { scoped } = useConfigurationScope();
+
+  const { data: findings = [], isLoading } = useQuery<ComplianceFinding[]>({
+    queryKey: [scoped(findingsPath(score, requirementId))],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-6 w-full" />;
+  }
+  if (findings.length === 0) {
+    return <p className="text-sm text-muted-foreground">No open failing findings map to this requirement.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {findings.map((finding) => (
+        <div
+          key={finding.id}
+          className={cn(
+            "flex items-start justify-between rounded-md border border-border bg-card p-3",
+            finding.assetId && "cursor-pointer hover:bg-muted/50",
+          )}
+          onClick={() => finding.assetId && navigate(`/assets/${finding.assetId}`)}
+          data-testid={`row-compliance-finding-${finding.id}`}
+        >
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-foreground truncate">
+              {finding.resourceName || finding.resourceId || "Unknown resource"}
+              {finding.resourceType && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">{finding.resourceType}</span>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground font-mono">{finding.checkId}</div>
+            {(finding.statusExtended || finding.checkTitle) && (
+              <div className="text-sm text-muted-foreground mt-1">{finding.statusExtended || finding.checkTitle}</div>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 ml-4 shrink-0">
+            {finding.region && <span className="text-xs text-muted-foreground">{finding.region}</span>}
+            <Badge className={`capitalize ${severityConfig[finding.severity]}`}>{finding.severity}</Badge>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Compliance() {
+  const { scoped } = useConfigurationScope();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: frameworks = [], isLoading } = useQuery<ComplianceFrameworkScore[]>({
+    queryKey: [scoped("/api/compliance")],
+  });
+  // Keep the drill-down on a framework that exists in the current scope
+  const framework = frameworks.find((score) => frameworkKey(score) === selected) ?? frameworks[0] ?? null;
+
+  const { data: detail, isLoading: detailLoading } = useQuery<ComplianceFrameworkDetail>({
+    queryKey: [scoped(framework ? scorePath(framework) : "/api/compliance/frameworks")],
+    enabled: !!framework,
+  });
+
+  const selectFramework = (key: string) => {
+    setSelected(key);
+    setExpanded(null);
+  };
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Compliance</h1>
+              <p className="text-sm text-muted-foreground">Requirement scores per framework, from the latest Prowler findings</p>
+            </div>
+            <ConfigurationScopeSelect />
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            {isLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-32 w-full" />)}
+              </div>
+            ) : frameworks.length === 0 ? (
+              <Card className="border-border">
+                <CardContent className="p-8 text-center">
+                  <div className="h-16 w-16 bg-primary/10 rounded-lg flex items-center justify-center mx-auto mb-6">
+                    <ListChecks className="h-8 w-8 text-primary" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">No compliance data yet</h2>
+                  <p className="text-muted-foreground max-w-md mx-auto">
+                    Frameworks appear after a sync from a Prowler API, an import of findings that include compliance mappings,
+                    or once a custom framework is defined below.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {frameworks.map((score) => (
+                    <Card
+                      key={frameworkKey(score)}
+                      className={cn(
+                        "border-border cursor-pointer transition-colors hover:bg-muted/50",
+                        score === framework && "ring-2 ring-primary",
+                      )}
+                      onClick={() => selectFramework(frameworkKey(score))}
+                      data-testid={`card-framework-${frameworkKey(score)}`}
+                    >
+                      <CardContent className="p-6 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2 min-w-0">
+                            <p className="text-sm font-medium text-foreground truncate">{score.framework}</p>
+                            {score.customFrameworkId && <Badge variant="secondary" className="font-normal">Custom</Badge>}
+                          </div>
+                          <p className="text-2xl font-bold text-foreground">
+                            {score.score === null ? "—" : `${score.score}%`}
+                          </p>
+                        </div>
+                        <Progress value={score.score ?? 0} />
+                        <div className="flex space-x-4 text-xs text-muted-foreground">
+                          <span className="text-accent">{score.passed} passed</span>
+                          <span className="text-destructive">{score.failed} failed</span>
+                          {score.manual > 0 && <span>{score.manual} manual</span>}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                <Card className="border-border">
+                  <CardHeader className="pb-4">
+                    <CardTitle className="text-xl" data-testid="text-framework-title">{framework?.framework}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Select a failing {framework?.customFrameworkId ? "control" : "requirement"} to see the resources that fail it
+                    </p>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-8" />
+                          <TableHead>{framework?.customFrameworkId ? "Control" : "Requirement"}</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Failing Resources</TableHead>
+                          <TableHead className="text-right">Findings</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {detailLoading || !detail ? (
+                          Array.from({ length: 4 }).map((_, i) => (
+                            <TableRow key={i}>
+                              <TableCell colSpan={5}><Skeleton className="h-6 w-full" /></TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          detail.requirements.map((requirement) => {
+                            const isExpanded = expanded === requirement.requirementId;
+                            const canExpand = requirement.status === "fail";
+                            return (
+                              <Fragment key={requirement.requirementId}>
+                                <TableRow
+                                  className={cn(canExpand && "cursor-pointer")}
+                                  onClick={() => canExpand && setExpanded(isExpanded ? null : requirement.requirementId)}
+                                  data-testid={`row-requirement-${requirement.requirementId}`}
+                                >
+                                  <TableCell>
+                                    {canExpand && (isExpanded
+                                      ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                                      : <ChevronRight className="h-4 w-4 text-muted-foreground" />)}
+                                  </TableCell>
+                                  <TableCell className="max-w-xl">
+                                    <div className="text-sm font-medium text-foreground font-mono">{requirement.requirementId}</div>
+                                    {requirement.description && (
+                                      <div className="text-sm text-muted-foreground">{requirement.description}</div>
+                                    )}
+                                  </TableCell>
+                                  <TableCell>
+                                    <Badge className={requirementStatusConfig[requirement.status].color}>
+                                      {requirementStatusConfig[requirement.status].label}
+                                    </Badge>
+                                  </TableCell>
+                                  <TableCell className="text-right">{requirement.failingResources}</TableCell>
+                                  <TableCell className="text-right text-muted-foreground whitespace-nowrap">
+                                    {requirement.passingFindings} pass · {requirement.failingFindings} fail
+                                    {requirement.suppressedFindings > 0 && ` · ${requirement.suppressedFindings} suppressed`}
+                                  </TableCell>
+                                </TableRow>
+                                {isExpanded && framework && (
+                                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                    <TableCell />
+                                    <TableCell colSpan={4}>
+                                      <RequirementFindings score={framework} requirementId={requirement.requirementId} />
+                                    </TableCell>
+                                  </TableRow>
+                                )}
+                              </Fragment>
+                            );
+                          })
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+
+            <ControlFrameworksCard />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useConfigurationScope } from "@/hooks/useConfigurationScope";
+import { usePermissions } from "@/hooks/usePermissions";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,80 +14,87 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { 
   Database, 
   Shield, 
   Clock, 
   Search, 
   RefreshCw, 
+  Download,
   Eye, 
   MoreVertical,
-  Server,
-  HardDrive,
-  Code,
-  Users,
   ChevronUp,
   ChevronDown,
   TriangleAlert,
-  CheckCircle,
-  AlertCircle
+  CheckCircle
 } from "lucide-react";
 import Navigation from "@/components/ui/navigation";
-import type { Asset } from "@shared/schema";
-
-const resourceTypeIcons: Record<string, React.ComponentType<any>> = {
-  'ec2': Server,
-  's3': HardDrive,
-  'lambda': Code,
-  'iam': Users,
-  'rds': Database,
-};
+import PostureTrendChart from "@/components/ui/posture-trend-chart";
+import ConfigurationScopeSelect from "@/components/ui/configuration-scope-select";
+import TablePagination from "@/components/ui/table-pagination";
+import FacetFilter from "@/components/ui/facet-filter";
+import TriageDialog, { type TriageTarget } from "@/components/ui/triage-dialog";
+import { formatRelativeTime, getProviderIcon, getProviderLabel, getResourceIcon, getTriageState, severityConfig, statusConfig, triageConfig } from "@/lib/assetStyles";
+import { triageStates, type TriageState, type AssetExportFormat, AssetFacetField, AssetFacets, AssetPage, AssetSortField, AssetStats, CheckSummary, FindingPage, StartedSyncs, SyncJob } from "@shared/schema";
 
-const statusConfig = {
-  'compliant': { 
-    color: 'bg-accent/10 text-accent', 
-    icon: CheckCircle,
-    label: 'Compliant'
-  },
-  'non-compliant': { 
-    color: 'bg-destructive/10 text-destructive', 
-    icon: TriangleAlert,
-    label: 'Non-Compliant'
-  },
-  'warning': { 
-    color: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400', 
-    icon: AlertCircle,
-    label: 'Warning'
-  },
-  'unknown': { 
-    color: 'bg-muted text-muted-foreground', 
-    icon: AlertCircle,
-    label: 'Unknown'
-  },
-};
+const ASSET_PAGE_SIZE = 25;
+const CHECK_FINDINGS_PAGE_SIZE = 20;
+
+const facetOptions: Array<{ field: AssetFacetField; title: string }> = [
+  { field: 'resourceType', title: 'Resource Type' },
+  { field: 'region', title: 'Region' },
+  { field: 'provider', title: 'Provider' },
+  { field: 'account', title: 'Account' },
+  { field: 'service', title: 'Service' },
+];
+
+const exportFormats: Array<{ format: AssetExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+];
 
-const severityConfig = {
-  'critical': 'bg-destructive/10 text-destructive',
-  'high': 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
-  'medium': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
-  'low': 'bg-muted text-muted-foreground',
+const emptyFacetFilters: Record<AssetFacetField, string[]> = {
+  resourceType: [],
+  region: [],
+  account: [],
+  provider: [],
+  service: [],
 };
 
 export default function Dashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
+  const { scope, scoped } = useConfigurationScope();
+  const [, navigate] = useLocation();
+  const { can } = usePermissions();
   
   const [filters, setFilters] = useState({
     search: '',
-    resourceType: '',
     status: '',
     severity: '',
   });
+  const [facetFilters, setFacetFilters] = useState<Record<AssetFacetField, string[]>>(emptyFacetFilters);
   const [sortConfig, setSortConfig] = useState<{
-    key: string;
+    key: AssetSortField;
     direction: 'asc' | 'desc';
   } | null>(null);
+  const [page, setPage] = useState(1);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  // Wait for typing to pause before searching the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  // Any change to the result set starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, facetFilters, filters.status, filters.severity, sortConfig, scope]);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -101,33 +111,110 @@ export default function Dashboard() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: stats, isLoading: statsLoading } = useQuery<{
-    totalResources: number;
-    criticalIssues: number;
-    compliantResources: number;
-    lastScan: Date | null;
-  } | null>({
-    queryKey: ["/api/assets/stats"],
+  const { data: stats, isLoading: statsLoading } = useQuery<AssetStats | null>({
+    queryKey: [scoped("/api/assets/stats")],
+    retry: false,
+  });
+
+  const suppressedAssets = stats ? stats.suppressed.assets.muted + stats.suppressed.assets.accepted_risk : 0;
+
+  const filterParams = new URLSearchParams(
+    Object.entries({ ...filters, search: debouncedSearch }).filter(([, value]) => value),
+  );
+  Object.entries(facetFilters).forEach(([field, values]) => values.forEach((value) => filterParams.append(field, value)));
+
+  const { data: facets } = useQuery<AssetFacets | null>({
+    queryKey: [scoped(`/api/assets/facets?${filterParams.toString()}`)],
+    retry: false,
+    placeholderData: keepPreviousData,
+  });
+
+  const assetParams = new URLSearchParams(filterParams);
+  const exportParams = (format: AssetExportFormat) => {
+    const params = new URLSearchParams(filterParams);
+    params.set('format', format);
+    if (sortConfig) {
+      params.set('sort', sortConfig.key);
+      params.set('order', sortConfig.direction);
+    }
+    return params.toString();
+  };
+  assetParams.set('page', String(page));
+  assetParams.set('pageSize', String(ASSET_PAGE_SIZE));
+  if (sortConfig) {
+    assetParams.set('sort', sortConfig.key);
+    assetParams.set('order', sortConfig.direction);
+  }
+  const { data: assetPage, isLoading: assetsLoading, refetch: refetchAssets } = useQuery<AssetPage | null>({
+    queryKey: [scoped(`/api/assets?${assetParams.toString()}`)],
     retry: false,
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
   });
+  const assets = assetPage?.items;
+
+  const [selectedCheck, setSelectedCheck] = useState<CheckSummary | null>(null);
+  const [checkFindingsPage, setCheckFindingsPage] = useState(1);
+  const [triage, setTriage] = useState<{ target: TriageTarget; state: TriageState } | null>(null);
 
-  const { data: assets, isLoading: assetsLoading, refetch: refetchAssets } = useQuery<Asset[] | null>({
-    queryKey: ["/api/assets", filters],
+  const { data: checks, isLoading: checksLoading } = useQuery<CheckSummary[] | null>({
+    queryKey: [scoped("/api/findings/checks")],
     retry: false,
   });
 
+  const { data: checkFindingPage, isLoading: checkFindingsLoading } = useQuery<FindingPage>({
+    queryKey: [scoped(`/api/findings?status=fail&checkId=${encodeURIComponent(selectedCheck?.checkId || '')}&page=${checkFindingsPage}&pageSize=${CHECK_FINDINGS_PAGE_SIZE}`)],
+    retry: false,
+    enabled: !!selectedCheck,
+    placeholderData: keepPreviousData,
+  });
+  const checkFindings = checkFindingPage?.items;
+
+  const failingChecks = (checks || []).filter(check => check.failCount > 0);
+  // Every finding of a check shares the same remediation metadata
+  const checkRemediation: string | undefined = (checkFindings?.[0]?.remediation as any)?.recommendation?.text;
+
+  // Syncs run in the background on the server; their jobs are polled until every one has finished
+  const [runningSync, setRunningSync] = useState<StartedSyncs["jobs"] | null>(null);
+  const syncJobQueries = useQueries({
+    queries: (runningSync ?? []).map(({ configurationId }) => ({
+      queryKey: ["/api/prowler/configurations", configurationId, "sync-jobs"],
+      refetchInterval: 3000,
+    })),
+  });
+
+  useEffect(() => {
+    if (!runningSync) {
+      return;
+    }
+    const jobs = runningSync.map(({ jobId }, index) => (syncJobQueries[index]?.data as SyncJob[] | undefined)?.find((job) => job.id === jobId));
+    if (jobs.some((job) => !job || job.status === "running")) {
+      return;
+    }
+
+    const failed = runningSync.filter((_, index) => jobs[index]?.status === "failed");
+    const succeeded = jobs.filter((job) => job?.status === "succeeded");
+    toast({
+      title: failed.length > 0 ? `Sync completed with errors for ${failed.map((sync) => sync.configurationName).join(", ")}` : "Sync Complete",
+      description: failed.length === runningSync.length
+        ? jobs[0]?.error || "Failed to sync asset data from Prowler"
+        : `${succeeded.reduce((sum, job) => sum + (job?.resourceCount ?? 0), 0)} resources and ${succeeded.reduce((sum, job) => sum + (job?.findingCount ?? 0), 0)} findings synced from Prowler`,
+      variant: failed.length > 0 ? "destructive" : "default",
+    });
+    // Query keys embed the configuration scope, so match on the path prefix
+    queryClient.invalidateQueries({
+      predicate: (query) => ["/api/assets", "/api/findings", "/api/prowler/configurations"].some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+    });
+    setRunningSync(null);
+  }, [runningSync, syncJobQueries]);
+
   const syncAssetsMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/assets/sync", {});
+      const response = await apiRequest("POST", scoped("/api/assets/sync"), {});
       return response.json();
     },
-    onSuccess: () => {
-      toast({
-        title: "Sync Initiated",
-        description: "Asset data is being synced from Prowler",
-      });
-      refetchAssets();
-      queryClient.invalidateQueries({ queryKey: ["/api/assets/stats"] });
+    onSuccess: (data: StartedSyncs) => {
+      setRunningSync(data.jobs);
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -143,13 +230,15 @@ export default function Dashboard() {
       }
       toast({
         title: "Sync Failed",
-        description: "Failed to sync asset data from Prowler",
+        description: error.message.startsWith("409")
+          ? "A sync is already running for these configurations"
+          : "Failed to sync asset data from Prowler",
         variant: "destructive",
       });
     },
   });
 
-  const handleSort = (key: string) => {
+  const handleSort = (key: AssetSortField) => {
     setSortConfig(prev => ({
       key,
       direction: prev?.key === key && prev.direction === 'asc' ? 'desc' : 'asc'
@@ -159,52 +248,10 @@ export default function Dashboard() {
   const clearFilters = () => {
     setFilters({
       search: '',
-      resourceType: '',
       status: '',
       severity: '',
     });
-  };
-
-  const formatRelativeTime = (date: string | Date) => {
-    const now = new Date();
-    const target = new Date(date);
-    const diffMs = now.getTime() - target.getTime();
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    
-    if (diffHours < 1) return 'Less than 1 hour ago';
-    if (diffHours === 1) return '1 hour ago';
-    if (diffHours < 24) return `${diffHours} hours ago`;
-    
-    const diffDays = Math.floor(diffHours / 24);
-    if (diffDays === 1) return '1 day ago';
-    return `${diffDays} days ago`;
-  };
-
-  const getResourceIcon = (type: string) => {
-    const IconComponent = resourceTypeIcons[type.toLowerCase()] || Database;
-    return IconComponent;
-  };
-
-  const getSortedAssets = (assets: Asset[]) => {
-    if (!sortConfig) return assets;
-    
-    return [...assets].sort((a, b) => {
-      let aValue = a[sortConfig.key as keyof Asset] as string | number | Date | null;
-      let bValue = b[sortConfig.key as keyof Asset] as string | number | Date | null;
-      
-      // Handle null values
-      if (aValue === null && bValue === null) return 0;
-      if (aValue === null) return 1;
-      if (bValue === null) return -1;
-      
-      // Convert to comparable format
-      if (aValue instanceof Date) aValue = aValue.getTime();
-      if (bValue instanceof Date) bValue = bValue.getTime();
-      
-      if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
-    });
+    setFacetFilters(emptyFacetFilters);
   };
 
   if (isLoading) {
@@ -227,6 +274,25 @@ export default function Dashboard() {
               <p className="text-sm text-muted-foreground">Monitor and manage your cloud security resources</p>
             </div>
             <div className="flex items-center space-x-3">
+              <ConfigurationScopeSelect />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid="button-export">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {/* Exports honor the active filters and sort; the session cookie authorizes the download */}
+                  {exportFormats.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={scoped(`/api/assets/export?${exportParams(format)}`)} download data-testid={`link-export-${format}`}>
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 variant="outline"
                 size="sm"
@@ -237,6 +303,17 @@ export default function Dashboard() {
                 <RefreshCw className={`h-4 w-4 mr-2 ${assetsLoading ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
+              {can("inventory:sync") && (
+                <Button
+                  size="sm"
+                  onClick={() => syncAssetsMutation.mutate()}
+                  disabled={syncAssetsMutation.isPending || !!runningSync}
+                  data-testid="button-sync"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${syncAssetsMutation.isPending || runningSync ? 'animate-spin' : ''}`} />
+                  {syncAssetsMutation.isPending || runningSync ? 'Syncing...' : 'Sync from Prowler'}
+                </Button>
+              )}
             </div>
           </div>
         </header>
@@ -256,6 +333,11 @@ export default function Dashboard() {
                         {stats?.totalResources || 0}
                       </p>
                     )}
+                    {stats && suppressedAssets > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid="text-suppressed-resources">
+                        Excludes {stats.suppressed.assets.muted} muted, {stats.suppressed.assets.accepted_risk} accepted
+                      </p>
+                    )}
                   </div>
                   <div className="h-12 w-12 bg-primary/10 rounded-lg flex items-center justify-center">
                     <Database className="h-6 w-6 text-primary" />
@@ -325,6 +407,10 @@ export default function Dashboard() {
             </Card>
           </div>
           
+          <div className="mb-8">
+            <PostureTrendChart />
+          </div>
+
           {/* Filters and Search */}
           <Card className="border-border mb-6">
             <CardContent className="p-6">
@@ -343,23 +429,18 @@ export default function Dashboard() {
                 </div>
                 
                 <div className="flex flex-wrap gap-4">
-                  <Select 
-                    value={filters.resourceType || "all"} 
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, resourceType: value === "all" ? "" : value }))}
-                  >
-                    <SelectTrigger className="w-48" data-testid="select-resource-type">
-                      <SelectValue placeholder="All Resource Types" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Resource Types</SelectItem>
-                      <SelectItem value="ec2">EC2 Instances</SelectItem>
-                      <SelectItem value="s3">S3 Buckets</SelectItem>
-                      <SelectItem value="rds">RDS Databases</SelectItem>
-                      <SelectItem value="lambda">Lambda Functions</SelectItem>
-                      <SelectItem value="iam">IAM Roles</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  
+                  {/* Facets without any values in this inventory are hidden */}
+                  {facetOptions.filter(({ field }) => facets?.[field]?.length || facetFilters[field].length > 0).map(({ field, title }) => (
+                    <FacetFilter
+                      key={field}
+                      title={title}
+                      options={facets?.[field] || []}
+                      selected={facetFilters[field]}
+                      onChange={(selected) => setFacetFilters(prev => ({ ...prev, [field]: selected }))}
+                      testId={field}
+                    />
+                  ))}
+
                   <Select 
                     value={filters.status || "all"} 
                     onValueChange={(value) => setFilters(prev => ({ ...prev, status: value === "all" ? "" : value }))}
@@ -412,9 +493,13 @@ export default function Dashboard() {
                   <h2 className="text-lg font-semibold text-foreground">Resources</h2>
                   <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                     <span>Showing</span>
-                    <span className="font-medium text-foreground">
+                    <span className="font-medium text-foreground" data-testid="text-showing-count">
                       {assets?.length || 0}
                     </span>
+                    <span>of</span>
+                    <span className="font-medium text-foreground" data-testid="text-total-count">
+                      {assetPage?.total || 0}
+                    </span>
                     <span>resources</span>
                   </div>
                 </div>
@@ -540,10 +625,12 @@ export default function Dashboard() {
                         </TableRow>
                       ))
                     ) : assets && assets.length > 0 ? (
-                      getSortedAssets(assets).map((asset) => {
+                      assets.map((asset) => {
                         const IconComponent = getResourceIcon(asset.resourceType);
+                        const ProviderIcon = getProviderIcon(asset.provider);
                         const statusInfo = statusConfig[asset.status];
                         const StatusIcon = statusInfo.icon;
+                        const triageState = getTriageState(asset);
                         
                         return (
                           <TableRow 
@@ -563,6 +650,16 @@ export default function Dashboard() {
                                   <div className="text-sm text-muted-foreground">
                                     {asset.resourceId}
                                   </div>
+                                  {(asset.provider || asset.accountId) && (
+                                    <div
+                                      className="flex items-center text-xs text-muted-foreground"
+                                      data-testid={`text-asset-provider-${asset.id}`}
+                                    >
+                                      <ProviderIcon className="mr-1 h-3 w-3" />
+                                      {getProviderLabel(asset.provider)}
+                                      {asset.accountId && ` · ${asset.accountId}`}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                             </TableCell>
@@ -575,10 +672,17 @@ export default function Dashboard() {
                               {asset.region || 'N/A'}
                             </TableCell>
                             <TableCell>
-                              <Badge className={statusInfo.color}>
-                                <StatusIcon className="mr-1 h-3 w-3" />
-                                {statusInfo.label}
-                              </Badge>
+                              <div className="flex flex-wrap items-center gap-1">
+                                <Badge className={statusInfo.color}>
+                                  <StatusIcon className="mr-1 h-3 w-3" />
+                                  {statusInfo.label}
+                                </Badge>
+                                {triageState !== 'open' && (
+                                  <Badge variant="outline" className={triageConfig[triageState].color} data-testid={`badge-asset-triage-${asset.id}`}>
+                                    {triageConfig[triageState].label}
+                                  </Badge>
+                                )}
+                              </div>
                             </TableCell>
                             <TableCell>
                               {asset.severity && (
@@ -595,17 +699,41 @@ export default function Dashboard() {
                                 <Button 
                                   variant="ghost" 
                                   size="sm"
+                                  onClick={() => navigate(`/assets/${asset.id}`)}
                                   data-testid={`button-view-asset-${asset.id}`}
                                 >
                                   <Eye className="h-4 w-4" />
                                 </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  data-testid={`button-menu-asset-${asset.id}`}
-                                >
-                                  <MoreVertical className="h-4 w-4" />
-                                </Button>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm"
+                                      data-testid={`button-menu-asset-${asset.id}`}
+                                    >
+                                      <MoreVertical className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onClick={() => navigate(`/assets/${asset.id}`)}>
+                                      View details
+                                    </DropdownMenuItem>
+                                    {can("findings:triage") && (
+                                      <>
+                                        <DropdownMenuSeparator />
+                                        {triageStates.filter(state => state !== triageState).map(state => (
+                                          <DropdownMenuItem
+                                            key={state}
+                                            onClick={() => setTriage({ target: { ...asset, type: 'asset', name: asset.resourceName }, state })}
+                                            data-testid={`menu-triage-${state}-${asset.id}`}
+                                          >
+                                            {triageConfig[state].action}
+                                          </DropdownMenuItem>
+                                        ))}
+                                      </>
+                                    )}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
                               </div>
                             </TableCell>
                           </TableRow>
@@ -627,8 +755,137 @@ export default function Dashboard() {
                   </TableBody>
                 </Table>
               </div>
+
+              {assetPage && assetPage.totalPages > 1 && (
+                <div className="px-6 py-4 border-t border-border">
+                  <TablePagination page={assetPage.page} totalPages={assetPage.totalPages} onPageChange={setPage} />
+                </div>
+              )}
             </CardContent>
           </Card>
+
+          {/* Failing Checks */}
+          <Card className="border-border mt-6">
+            <CardContent className="p-0">
+              <div className="px-6 py-4 border-b border-border">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-foreground">Failing Checks</h2>
+                  <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{failingChecks.length}</span>
+                    <span>checks with failures</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Check</TableHead>
+                      <TableHead>Service</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead className="text-right">Failing</TableHead>
+                      <TableHead className="text-right">Passing</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {checksLoading ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell><Skeleton className="h-4 w-64" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                          <TableCell><Skeleton className="h-6 w-16" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-8 ml-auto" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-8 ml-auto" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : failingChecks.length > 0 ? (
+                      failingChecks.map((check) => (
+                        <TableRow
+                          key={check.checkId}
+                          className="hover:bg-muted/25 transition-colors cursor-pointer"
+                          onClick={() => {
+                            setSelectedCheck(check);
+                            setCheckFindingsPage(1);
+                          }}
+                          data-testid={`row-check-${check.checkId}`}
+                        >
+                          <TableCell>
+                            <div className="text-sm font-medium text-foreground">{check.checkTitle || check.checkId}</div>
+                            <div className="text-sm text-muted-foreground">{check.checkId}</div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{check.service || 'N/A'}</TableCell>
+                          <TableCell>
+                            <Badge className={`capitalize ${severityConfig[check.severity]}`}>{check.severity}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right text-sm font-medium text-destructive">
+                            {check.failCount}
+                            {check.mutedCount > 0 && (
+                              <div className="text-xs font-normal text-muted-foreground" data-testid={`text-check-muted-${check.checkId}`}>
+                                {check.mutedCount} muted
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">{check.passCount}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8">
+                          <div className="flex flex-col items-center space-y-2">
+                            <CheckCircle className="h-8 w-8 text-muted-foreground" />
+                            <p className="text-muted-foreground">No failing checks</p>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Dialog open={!!selectedCheck} onOpenChange={(open) => !open && setSelectedCheck(null)}>
+            <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{selectedCheck?.checkTitle || selectedCheck?.checkId}</DialogTitle>
+                <DialogDescription>
+                  {selectedCheck?.checkId} · {selectedCheck?.failCount} failing resources
+                </DialogDescription>
+              </DialogHeader>
+              {checkRemediation && (
+                <div className="bg-muted rounded-lg p-3 text-sm">
+                  <span className="font-medium text-foreground">Remediation: </span>
+                  <span className="text-muted-foreground">{checkRemediation}</span>
+                </div>
+              )}
+              <div className="space-y-3">
+                {checkFindingsLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+                ) : (
+                  checkFindings?.map((finding) => (
+                    <div
+                      key={finding.id}
+                      className="border border-border rounded-lg p-3"
+                      data-testid={`finding-${finding.id}`}
+                    >
+                      <div className="text-sm font-medium text-foreground">
+                        {finding.resourceName || finding.resourceId || 'Unknown resource'}
+                      </div>
+                      {finding.statusExtended && (
+                        <p className="text-sm text-muted-foreground mt-1">{finding.statusExtended}</p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+              {checkFindingPage && checkFindingPage.totalPages > 1 && (
+                <TablePagination page={checkFindingPage.page} totalPages={checkFindingPage.totalPages} onPageChange={setCheckFindingsPage} />
+              )}
+            </DialogContent>
+          </Dialog>
+
+          <TriageDialog target={triage?.target ?? null} initialState={triage?.state} onClose={() => setTriage(null)} />
         </main>
       </div>
     </div>
@@ -1,31 +1,31 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useConfigurationScope } from "@/hooks/useConfigurationScope";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Shield, Settings, Database, ArrowRight } from "lucide-react";
 import Navigation from "@/components/ui/navigation";
-import type { ProwlerConfiguration } from "@shared/schema";
+import PostureTrendChart from "@/components/ui/posture-trend-chart";
+import ConfigurationScopeSelect from "@/components/ui/configuration-scope-select";
+import type { AssetStats, SafeProwlerConfiguration } from "@shared/schema";
 
 export default function Home() {
   const [, navigate] = useLocation();
   const { user } = useAuth();
+  const { scoped } = useConfigurationScope();
 
-  const { data: prowlerConfig } = useQuery<ProwlerConfiguration | null>({
-    queryKey: ["/api/prowler/configuration"],
+  const { data: configurations } = useQuery<SafeProwlerConfiguration[]>({
+    queryKey: ["/api/prowler/configurations"],
     retry: false,
   });
+  const hasConfiguration = !!configurations && configurations.length > 0;
 
-  const { data: stats } = useQuery<{
-    totalResources: number;
-    criticalIssues: number;
-    compliantResources: number;
-    lastScan: Date | null;
-  } | null>({
-    queryKey: ["/api/assets/stats"],
+  const { data: stats } = useQuery<AssetStats | null>({
+    queryKey: [scoped("/api/assets/stats")],
     retry: false,
-    enabled: !!prowlerConfig,
+    enabled: hasConfiguration,
   });
 
   return (
@@ -42,6 +42,7 @@ export default function Home() {
               </p>
             </div>
             <div className="flex items-center space-x-3">
+              <ConfigurationScopeSelect />
               <div className="h-8 w-8 bg-muted rounded-full flex items-center justify-center">
                 <span className="text-sm font-medium text-muted-foreground">
                   {user?.firstName ? user.firstName.charAt(0) : user?.email?.charAt(0) || 'U'}
@@ -53,7 +54,7 @@ export default function Home() {
 
         <main className="flex-1 overflow-auto p-6">
           <div className="max-w-4xl mx-auto space-y-8">
-            {!prowlerConfig ? (
+            {!hasConfiguration ? (
               <Card className="border-border">
                 <CardContent className="p-8 text-center">
                   <div className="h-16 w-16 bg-primary/10 rounded-lg flex items-center justify-center mx-auto mb-6">
@@ -144,11 +145,13 @@ export default function Home() {
                   </Card>
                 </div>
 
+                <PostureTrendChart />
+
                 {/* Quick Actions */}
                 <Card className="border-border">
                   <CardContent className="p-8">
                     <h2 className="text-xl font-semibold text-foreground mb-6">Quick Actions</h2>
-                    <div className="grid md:grid-cols-2 gap-4">
+                    <div className="grid md:grid-cols-3 gap-4">
                       <Button
                         variant="outline"
                         className="justify-between h-auto p-4"
@@ -162,6 +165,19 @@ export default function Home() {
                         <ArrowRight className="h-5 w-5" />
                       </Button>
 
+                      <Button
+                        variant="outline"
+                        className="justify-between h-auto p-4"
+                        onClick={() => navigate("/compliance")}
+                        data-testid="button-view-compliance"
+                      >
+                        <div className="text-left">
+                          <div className="font-medium">Compliance Scorecards</div>
+                          <div className="text-sm text-muted-foreground">Requirement scores per framework</div>
+                        </div>
+                        <ArrowRight className="h-5 w-5" />
+                      </Button>
+
                       <Button
                         variant="outline"
                         className="justify-between h-auto p-4"
@@ -0,0 +1,441 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { BellOff, Edit, History, Plus, Trash2 } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { endOfDayISOString, toDateInputValue } from "@/lib/utils";
+import type { MuteRule, MuteRuleInput, MuteRuleVersionWithUser, MuteRuleWithCount } from "@shared/schema";
+
+// Lists are edited as comma-separated text; tags as key=value pairs where a bare key accepts any value
+const muteRuleFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    reason: z.string().trim().min(1, "Reason is required").max(2000),
+    checks: z.string(),
+    accounts: z.string(),
+    regions: z.string(),
+    resources: z.string(),
+    tags: z.string(),
+    expiresAt: z.string(),
+    isActive: z.boolean(),
+  })
+  .refine(
+    (data) => [data.checks, data.accounts, data.regions, data.resources, data.tags].some((value) => splitList(value).length > 0),
+    { message: "Add at least one condition", path: ["checks"] },
+  );
+
+type MuteRuleFormData = z.infer<typeof muteRuleFormSchema>;
+
+const conditionFields: Array<{ name: "checks" | "accounts" | "regions" | "resources" | "tags"; label: string; placeholder: string }> = [
+  { name: "checks", label: "Checks", placeholder: "s3_bucket_public_access, iam_*" },
+  { name: "accounts", label: "Accounts", placeholder: "123456789012" },
+  { name: "regions", label: "Regions", placeholder: "us-east-1, eu-*" },
+  { name: "resources", label: "Resources", placeholder: "arn:aws:s3:::public-*" },
+  { name: "tags", label: "Tags", placeholder: "public-website=true, team" },
+];
+
+const emptyForm: MuteRuleFormData = {
+  name: "",
+  reason: "",
+  checks: "",
+  accounts: "",
+  regions: "",
+  resources: "",
+  tags: "",
+  expiresAt: "",
+  isActive: true,
+};
+
+function splitList(value: string) {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function toFormData(rule: MuteRule): MuteRuleFormData {
+  return {
+    name: rule.name,
+    reason: rule.reason,
+    checks: rule.checks.join(", "),
+    accounts: rule.accounts.join(", "),
+    regions: rule.regions.join(", "),
+    resources: rule.resources.join(", "),
+    tags: Object.entries(rule.tags).map(([key, value]) => (value === "*" ? key : `${key}=${value}`)).join(", "),
+    expiresAt: toDateInputValue(rule.expiresAt),
+    isActive: rule.isActive,
+  };
+}
+
+function toPayload(data: MuteRuleFormData): MuteRuleInput {
+  return {
+    name: data.name,
+    reason: data.reason,
+    checks: splitList(data.checks),
+    accounts: splitList(data.accounts),
+    regions: splitList(data.regions),
+    resources: splitList(data.resources),
+    tags: Object.fromEntries(splitList(data.tags).map((pair) => {
+      const index = pair.indexOf("=");
+      return index === -1 ? [pair, "*"] : [pair.slice(0, index).trim(), pair.slice(index + 1).trim() || "*"];
+    })),
+    expiresAt: data.expiresAt ? endOfDayISOString(data.expiresAt) : null,
+    isActive: data.isActive,
+  };
+}
+
+function describeConditions(rule: Pick<MuteRule, "checks" | "accounts" | "regions" | "resources" | "tags">) {
+  return [
+    ...rule.checks.map((check) => `check ${check}`),
+    ...rule.accounts.map((account) => `account ${account}`),
+    ...rule.regions.map((region) => `region ${region}`),
+    ...rule.resources.map((resource) => `resource ${resource}`),
+    ...Object.entries(rule.tags).map(([key, value]) => (value === "*" ? `tag ${key}` : `tag ${key}=${value}`)),
+  ];
+}
+
+export default function MuteRules() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("findings:triage");
+  const [editing, setEditing] = useState<MuteRule | "new" | null>(null);
+  const [historyRule, setHistoryRule] = useState<MuteRule | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<MuteRuleWithCount[]>({
+    queryKey: ["/api/mute-rules"],
+  });
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery<MuteRuleVersionWithUser[]>({
+    queryKey: [`/api/mute-rules/${historyRule?.id}/versions`],
+    enabled: !!historyRule,
+  });
+
+  const form = useForm<MuteRuleFormData>({
+    resolver: zodResolver(muteRuleFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Muting changes the failing counts on the dashboard as well
+  const invalidateMuteRuleData = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => ["/api/mute-rules", "/api/assets", "/api/findings"].some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, rule }: { id?: string; rule: MuteRuleInput }) =>
+      id ? apiRequest("PUT", `/api/mute-rules/${id}`, rule) : apiRequest("POST", "/api/mute-rules", rule),
+    onSuccess: (_, { id }) => {
+      invalidateMuteRuleData();
+      setEditing(null);
+      toast({
+        title: id ? "Mute rule updated" : "Mute rule created",
+        description: "Matching findings have been updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving mute rule",
+        description: error.message || "Failed to save mute rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/mute-rules/${id}`),
+    onSuccess: () => {
+      invalidateMuteRuleData();
+      toast({
+        title: "Mute rule deleted",
+        description: "Findings it muted are counted again",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting mute rule",
+        description: error.message || "Failed to delete mute rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (rule: MuteRule | "new") => {
+    form.reset(rule === "new" ? emptyForm : toFormData(rule));
+    setEditing(rule);
+  };
+
+  const handleDelete = (rule: MuteRule) => {
+    if (confirm(`Are you sure you want to delete "${rule.name}"?`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Mute Rules</h1>
+              <p className="text-sm text-muted-foreground">Suppress expected findings by check, account, region, resource or tag</p>
+            </div>
+            {canManage && (
+              <Button onClick={() => openEditor("new")} data-testid="button-new-mute-rule">
+                <Plus className="mr-2 h-4 w-4" />
+                New Rule
+              </Button>
+            )}
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto">
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Conditions</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead className="text-right">Muted Findings</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={6}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : rules.length > 0 ? (
+                      rules.map((rule) => {
+                        const expired = !!rule.expiresAt && new Date(rule.expiresAt) <= new Date();
+
+                        return (
+                          <TableRow key={rule.id} data-testid={`row-mute-rule-${rule.id}`}>
+                            <TableCell className="max-w-xs">
+                              <div className="text-sm font-medium text-foreground">
+                                {rule.name}
+                                <span className="ml-2 text-xs font-normal text-muted-foreground">v{rule.version}</span>
+                              </div>
+                              <div className="text-sm text-muted-foreground truncate">{rule.reason}</div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1 max-w-sm">
+                                {describeConditions(rule).map((condition) => (
+                                  <Badge key={condition} variant="secondary" className="font-normal">{condition}</Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {rule.expiresAt ? new Date(rule.expiresAt).toLocaleDateString() : "Never"}
+                              {expired && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right text-sm font-medium" data-testid={`text-muted-findings-${rule.id}`}>
+                              {rule.mutedFindings}
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rule.isActive}
+                                onCheckedChange={(isActive) => saveMutation.mutate({ id: rule.id, rule: { ...toPayload(toFormData(rule)), isActive } })}
+                                disabled={!canManage || saveMutation.isPending}
+                                data-testid={`switch-mute-rule-active-${rule.id}`}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex items-center justify-end space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setHistoryRule(rule)}
+                                  data-testid={`button-mute-rule-history-${rule.id}`}
+                                >
+                                  <History className="h-4 w-4" />
+                                </Button>
+                                {canManage && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => openEditor(rule)}
+                                      data-testid={`button-edit-mute-rule-${rule.id}`}
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleDelete(rule)}
+                                      disabled={deleteMutation.isPending}
+                                      data-testid={`button-delete-mute-rule-${rule.id}`}
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <div className="flex flex-col items-center space-y-2">
+                            <BellOff className="h-8 w-8 text-muted-foreground" />
+                            <p className="text-muted-foreground">No mute rules yet</p>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {/* Rule editor */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Mute Rule" : "Edit Mute Rule"}</DialogTitle>
+            <DialogDescription>
+              Findings matching every filled-in condition are muted. Separate values with commas; * is a wildcard.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) =>
+                saveMutation.mutate({ id: editing && editing !== "new" ? editing.id : undefined, rule: toPayload(data) }),
+              )}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-mute-rule-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} data-testid="input-mute-rule-reason" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {conditionFields.map((condition) => (
+                <FormField
+                  key={condition.name}
+                  control={form.control}
+                  name={condition.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{condition.label}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={condition.placeholder} {...field} data-testid={`input-mute-rule-${condition.name}`} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-mute-rule-expires-at" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">Leave blank to keep the rule until it is removed</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-mute-rule">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version history */}
+      <Dialog open={!!historyRule} onOpenChange={(open) => !open && setHistoryRule(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{historyRule?.name}</DialogTitle>
+            <DialogDescription>Every saved version of this rule</DialogDescription>
+          </DialogHeader>
+          <div className="overflow-y-auto space-y-3">
+            {versionsLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : (
+              versions.map((version) => (
+                <div key={version.id} className="border border-border rounded-lg p-3 text-sm" data-testid={`row-mute-rule-version-${version.version}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium text-foreground">
+                      v{version.version} · <span className="capitalize">{version.changeType}</span>
+                    </div>
+                    <span className="text-muted-foreground">
+                      {version.username || "Former member"} · {new Date(version.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground mt-1">{version.rule.reason}</div>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {describeConditions(version.rule).map((condition) => (
+                      <Badge key={condition} variant="secondary" className="font-normal">{condition}</Badge>
+                    ))}
+                    {!version.rule.isActive && <Badge variant="outline">Disabled</Badge>}
+                    {version.rule.expiresAt && (
+                      <Badge variant="outline">Expires {new Date(version.rule.expiresAt).toLocaleDateString()}</Badge>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, Edit, Plus, Send, Trash2 } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  notificationChannelTypes,
+  notificationEventTypes,
+  type NotificationChannelType,
+  type NotificationDelivery,
+  type NotificationDeliveryWithChannel,
+  type NotificationEventType,
+  type SafeNotificationChannel,
+} from "@shared/schema";
+
+const channelTypeLabels: Record<NotificationChannelType, string> = {
+  webhook: "Generic JSON webhook",
+  slack: "Slack",
+  teams: "Microsoft Teams",
+};
+
+const eventLabels: Record<NotificationDelivery["event"], string> = {
+  "findings.new": "New critical/high findings",
+  "assets.regressed": "Resources turned non-compliant",
+  "sync.failed": "Sync failures",
+  "alert.triggered": "Alert rule",
+  test: "Test",
+};
+
+const deliveryStatusVariants: Record<NotificationDelivery["status"], "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+const channelFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  type: z.enum(notificationChannelTypes),
+  url: z.string().trim().url("Please enter a valid URL"),
+  // Blank keeps the stored secret when editing
+  secret: z.string().max(256),
+  removeSecret: z.boolean(),
+  events: z.array(z.enum(notificationEventTypes)).min(1, "Pick at least one event"),
+});
+
+type ChannelFormData = z.infer<typeof channelFormSchema>;
+
+const emptyForm: ChannelFormData = {
+  name: "",
+  type: "webhook",
+  url: "",
+  secret: "",
+  removeSecret: false,
+  events: [...notificationEventTypes],
+};
+
+export default function Notifications() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<SafeNotificationChannel | "new" | null>(null);
+
+  const { data: channels = [], isLoading } = useQuery<SafeNotificationChannel[]>({
+    queryKey: ["/api/notifications/channels"],
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery<NotificationDeliveryWithChannel[]>({
+    queryKey: ["/api/notifications/deliveries"],
+    // Retries land in the log in the background
+    refetchInterval: 30000,
+  });
+
+  const form = useForm<ChannelFormData>({
+    resolver: zodResolver(channelFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const invalidateNotificationData = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/notifications") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, channel }: { id?: string; channel: Record<string, unknown> }) =>
+      id ? apiRequest("PUT", `/api/notifications/channels/${id}`, channel) : apiRequest("POST", "/api/notifications/channels", channel),
+    onSuccess: (_, { id }) => {
+      invalidateNotificationData();
+      setEditing(null);
+      toast({
+        title: id ? "Channel updated" : "Channel created",
+        description: "Notification settings have been saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving channel",
+        description: error.message || "Failed to save notification channel",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/notifications/channels/${id}`),
+    onSuccess: () => {
+      invalidateNotificationData();
+      toast({
+        title: "Channel deleted",
+        description: "The channel and its delivery log have been removed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting channel",
+        description: error.message || "Failed to delete notification channel",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/notifications/channels/${id}/test`);
+      return response.json();
+    },
+    onSuccess: (delivery: NotificationDelivery) => {
+      invalidateNotificationData();
+      if (delivery.status === "succeeded") {
+        toast({
+          title: "Test delivered",
+          description: `The receiver answered with HTTP ${delivery.responseStatus}`,
+        });
+      } else {
+        toast({
+          title: "Test failed",
+          description: delivery.error || "The receiver did not accept the notification",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error sending test",
+        description: error.message || "Failed to send test notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (channel: SafeNotificationChannel | "new") => {
+    form.reset(channel === "new"
+      ? emptyForm
+      : { name: channel.name, type: channel.type, url: channel.url, secret: "", removeSecret: false, events: channel.events });
+    setEditing(channel);
+  };
+
+  const handleSubmit = (data: ChannelFormData) => {
+    const { secret, removeSecret, ...channel } = data;
+    if (editing === "new") {
+      saveMutation.mutate({ channel: { ...channel, secret: secret || undefined } });
+    } else if (editing) {
+      saveMutation.mutate({ id: editing.id, channel: { ...channel, secret: removeSecret ? null : secret || undefined } });
+    }
+  };
+
+  const handleDelete = (channel: SafeNotificationChannel) => {
+    if (confirm(`Are you sure you want to delete "${channel.name}"?`)) {
+      deleteMutation.mutate(channel.id);
+    }
+  };
+
+  const hasStoredSecret = editing !== null && editing !== "new" && editing.hasSecret;
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Notifications</h1>
+              <p className="text-sm text-muted-foreground">Webhooks for new findings, compliance regressions and failed syncs</p>
+            </div>
+            <Button onClick={() => openEditor("new")} data-testid="button-new-channel">
+              <Plus className="mr-2 h-4 w-4" />
+              New Channel
+            </Button>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Events</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      Array.from({ length: 2 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={4}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : channels.length > 0 ? (
+                      channels.map((channel) => (
+                        <TableRow key={channel.id} data-testid={`row-channel-${channel.id}`}>
+                          <TableCell className="max-w-sm">
+                            <div className="text-sm font-medium text-foreground">
+                              {channel.name}
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">{channelTypeLabels[channel.type]}</span>
+                            </div>
+                            <div className="text-sm text-muted-foreground truncate">{channel.url}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1 max-w-sm">
+                              {channel.events.map((event) => (
+                                <Badge key={event} variant="secondary" className="font-normal">{eventLabels[event]}</Badge>
+                              ))}
+                              {channel.hasSecret && <Badge variant="outline">Signed</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={channel.isActive}
+                              onCheckedChange={(isActive) => saveMutation.mutate({ id: channel.id, channel: { isActive } })}
+                              disabled={saveMutation.isPending}
+                              data-testid={`switch-channel-active-${channel.id}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => testMutation.mutate(channel.id)}
+                                disabled={testMutation.isPending}
+                                data-testid={`button-test-channel-${channel.id}`}
+                              >
+                                <Send className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openEditor(channel)}
+                                data-testid={`button-edit-channel-${channel.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(channel)}
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-channel-${channel.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8">
+                          <div className="flex flex-col items-center space-y-2">
+                            <Bell className="h-8 w-8 text-muted-foreground" />
+                            <p className="text-muted-foreground">No notification channels yet</p>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <div className="px-6 py-4 border-b border-border">
+                  <h2 className="text-lg font-semibold text-foreground">Delivery Log</h2>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Attempts</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveriesLoading ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={6}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : deliveries.length > 0 ? (
+                      deliveries.map((delivery) => (
+                        <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{delivery.channelName}</TableCell>
+                          <TableCell>{eventLabels[delivery.event]}</TableCell>
+                          <TableCell>
+                            <Badge variant={deliveryStatusVariants[delivery.status]} className="capitalize">{delivery.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{delivery.attempts}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground max-w-xs">
+                            <div className="truncate" title={delivery.error || undefined}>
+                              {delivery.status === "succeeded"
+                                ? `HTTP ${delivery.responseStatus}`
+                                : delivery.error || "Waiting for the first attempt"}
+                            </div>
+                            {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                              <div className="text-xs">Next retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          Nothing has been sent yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {/* Channel editor */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Channel" : "Edit Channel"}</DialogTitle>
+            <DialogDescription>
+              Events are POSTed as JSON. With a secret, bodies are signed with HMAC-SHA256 in the X-Prowler-Dashboard-Signature header.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-channel-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Format</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-channel-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {notificationChannelTypes.map((type) => (
+                          <SelectItem key={type} value={type}>{channelTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Webhook URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://hooks.example.com/prowler" {...field} data-testid="input-channel-url" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="secret"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Signing Secret</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={hasStoredSecret ? "Leave blank to keep the current secret" : "Optional"}
+                        disabled={form.watch("removeSecret")}
+                        {...field}
+                        data-testid="input-channel-secret"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {hasStoredSecret && (
+                <FormField
+                  control={form.control}
+                  name="removeSecret"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-remove-secret" />
+                      </FormControl>
+                      <FormLabel className="font-normal">Stop signing requests</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-2">
+                      {notificationEventTypes.map((event) => (
+                        <label key={event} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, event] : field.value.filter((value: NotificationEventType) => value !== event),
+                            )}
+                            data-testid={`checkbox-channel-event-${event}`}
+                          />
+                          <span>{eventLabels[event]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-channel">
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2, Users, Building2, LogOut, Save } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { z } from "zod";
+import {
+  organizationRoles,
+  type OrganizationMemberWithUser,
+  type OrganizationRole,
+} from "@shared/schema";
+
+const organizationFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+const memberFormSchema = z.object({
+  user: z.string().trim().min(1, "Username or email is required"),
+  role: z.enum(organizationRoles),
+});
+
+type OrganizationFormData = z.infer<typeof organizationFormSchema>;
+type MemberFormData = z.infer<typeof memberFormSchema>;
+
+const roleLabels: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+export default function Organization() {
+  const [isAddMemberDialogOpen, setIsAddMemberDialogOpen] = useState(false);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { organization, can } = usePermissions();
+
+  const { data: members = [], isLoading } = useQuery<OrganizationMemberWithUser[]>({
+    queryKey: ["/api/organizations/current/members"],
+  });
+
+  const canManage = can("organization:manage");
+  const isOwner = canManage && organization?.role === "owner";
+
+  const renameForm = useForm<OrganizationFormData>({
+    resolver: zodResolver(organizationFormSchema),
+    defaultValues: { name: "" },
+  });
+
+  const createForm = useForm<OrganizationFormData>({
+    resolver: zodResolver(organizationFormSchema),
+    defaultValues: { name: "" },
+  });
+
+  const memberForm = useForm<MemberFormData>({
+    resolver: zodResolver(memberFormSchema),
+    defaultValues: { user: "", role: "member" },
+  });
+
+  useEffect(() => {
+    if (organization) {
+      renameForm.reset({ name: organization.name });
+    }
+  }, [organization, renameForm]);
+
+  // Switching or leaving changes which organization every other query is answered for
+  const invalidateOrganizationData = () => {
+    queryClient.invalidateQueries();
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: (data: OrganizationFormData) => apiRequest('PUT', '/api/organizations/current', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+      toast({
+        title: "Organization updated",
+        description: "Organization name has been updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating organization",
+        description: error.message || "Failed to update organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: OrganizationFormData) => apiRequest('POST', '/api/organizations', data),
+    onSuccess: () => {
+      invalidateOrganizationData();
+      setIsCreateDialogOpen(false);
+      createForm.reset();
+      toast({
+        title: "Organization created",
+        description: "You are now working in the new organization",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error creating organization",
+        description: error.message || "Failed to create organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/organizations/current'),
+    onSuccess: () => {
+      invalidateOrganizationData();
+      toast({
+        title: "Organization deleted",
+        description: "The organization and its Prowler data have been deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting organization",
+        description: error.message || "Failed to delete organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: (data: MemberFormData) => apiRequest('POST', '/api/organizations/current/members', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/members"] });
+      setIsAddMemberDialogOpen(false);
+      memberForm.reset();
+      toast({
+        title: "Member added",
+        description: "The user can now see this organization's inventory",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error adding member",
+        description: error.message || "Failed to add member",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: OrganizationRole }) =>
+      apiRequest('PUT', `/api/organizations/current/members/${userId}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/members"] });
+      toast({
+        title: "Member updated",
+        description: "Member role has been updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating member",
+        description: error.message || "Failed to update member",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest('DELETE', `/api/organizations/current/members/${userId}`),
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        invalidateOrganizationData();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/members"] });
+      }
+      toast({
+        title: userId === user?.id ? "Left organization" : "Member removed",
+        description: userId === user?.id ? "You are no longer a member of this organization" : "Member has been removed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error removing member",
+        description: error.message || "Failed to remove member",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemoveMember = (member: OrganizationMemberWithUser) => {
+    const message = member.userId === user?.id
+      ? "Are you sure you want to leave this organization?"
+      : `Are you sure you want to remove ${member.username} from this organization?`;
+    if (confirm(message)) {
+      removeMemberMutation.mutate(member.userId);
+    }
+  };
+
+  const handleDeleteOrganization = () => {
+    if (confirm("Are you sure you want to delete this organization? All of its Prowler configurations and synced data will be deleted. This action cannot be undone.")) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Organization</h1>
+              <p className="text-sm text-muted-foreground">Share Prowler configurations and inventory with your team</p>
+            </div>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" data-testid="button-create-organization">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Organization
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Create Organization</DialogTitle>
+                </DialogHeader>
+                <Form {...createForm}>
+                  <form onSubmit={createForm.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+                    <FormField
+                      control={createForm.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input {...field} data-testid="input-create-organization-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit-create-organization">
+                        {createMutation.isPending ? "Creating..." : "Create Organization"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <Building2 className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl">{organization?.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Your role: {organization ? roleLabels[organization.role] : ""}
+                    </p>
+                  </div>
+                </div>
+                {isOwner && (
+                  <Button
+                    variant="outline"
+                    onClick={handleDeleteOrganization}
+                    disabled={deleteMutation.isPending}
+                    data-testid="button-delete-organization"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Organization
+                  </Button>
+                )}
+              </CardHeader>
+              {canManage && (
+                <CardContent>
+                  <Form {...renameForm}>
+                    <form onSubmit={renameForm.handleSubmit((data) => renameMutation.mutate(data))} className="flex items-end space-x-4">
+                      <FormField
+                        control={renameForm.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input {...field} data-testid="input-organization-name" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="submit" disabled={renameMutation.isPending} data-testid="button-save-organization">
+                        <Save className="mr-2 h-4 w-4" />
+                        Save
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+              )}
+            </Card>
+
+            <Card className="border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <Users className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl">Members</CardTitle>
+                    <p className="text-sm text-muted-foreground">Members see the same configurations, assets and findings</p>
+                  </div>
+                </div>
+
+                {canManage && (
+                  <Dialog open={isAddMemberDialogOpen} onOpenChange={setIsAddMemberDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button data-testid="button-add-member">
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Member
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-md">
+                      <DialogHeader>
+                        <DialogTitle>Add Member</DialogTitle>
+                      </DialogHeader>
+                      <Form {...memberForm}>
+                        <form onSubmit={memberForm.handleSubmit((data) => addMemberMutation.mutate(data))} className="space-y-4">
+                          <FormField
+                            control={memberForm.control}
+                            name="user"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Username or Email</FormLabel>
+                                <FormControl>
+                                  <Input {...field} data-testid="input-member-user" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={memberForm.control}
+                            name="role"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Role</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-member-role">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {organizationRoles
+                                      .filter((role) => isOwner || role !== "owner")
+                                      .map((role) => (
+                                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                      ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button type="button" variant="outline" onClick={() => setIsAddMemberDialogOpen(false)}>
+                              Cancel
+                            </Button>
+                            <Button type="submit" disabled={addMemberMutation.isPending} data-testid="button-submit-add-member">
+                              {addMemberMutation.isPending ? "Adding..." : "Add Member"}
+                            </Button>
+                          </div>
+                        </form>
+                      </Form>
+                    </DialogContent>
+                  </Dialog>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Username</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {members.map((member) => (
+                        <TableRow key={member.id} data-testid={`row-member-${member.userId}`}>
+                          <TableCell className="font-medium">{member.username}</TableCell>
+                          <TableCell>{member.email}</TableCell>
+                          <TableCell>{member.firstName} {member.lastName}</TableCell>
+                          <TableCell>
+                            {canManage && (isOwner || member.role !== "owner") ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(role) => updateMemberMutation.mutate({ userId: member.userId, role: role as OrganizationRole })}
+                              >
+                                <SelectTrigger className="w-32" data-testid={`select-role-${member.userId}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {organizationRoles
+                                    .filter((role) => isOwner || role !== "owner")
+                                    .map((role) => (
+                                      <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span data-testid={`text-role-${member.userId}`}>{roleLabels[member.role]}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {member.userId === user?.id ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRemoveMember(member)}
+                                data-testid="button-leave-organization"
+                              >
+                                <LogOut className="h-4 w-4" />
+                              </Button>
+                            ) : canManage && (isOwner || member.role !== "owner") ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRemoveMember(member)}
+                                data-testid={`button-remove-member-${member.userId}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            ) : null}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
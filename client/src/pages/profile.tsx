@@ -0,0 +1,174 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Mail, Send, UserCircle } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { emailEventTypes, type EmailEventType } from "@shared/schema";
+
+const eventTypeDetails: Record<EmailEventType, { label: string; description: string }> = {
+  weekly_summary: {
+    label: "Weekly summary",
+    description: "Resource counts, compliance and critical issues compared with the week before",
+  },
+  new_critical: {
+    label: "New critical issues",
+    description: "Critical findings that first appeared during the week",
+  },
+  expiring_risks: {
+    label: "Expiring risk acceptances",
+    description: "Accepted risks that expire within the next two weeks",
+  },
+};
+
+export default function Profile() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { organization } = usePermissions();
+
+  const { data: subscriptions, isLoading } = useQuery<{ eventTypes: EmailEventType[] }>({
+    queryKey: ["/api/profile/email-subscriptions"],
+  });
+  const eventTypes = subscriptions?.eventTypes ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: (eventTypes: EmailEventType[]) =>
+      apiRequest("PUT", "/api/profile/email-subscriptions", { eventTypes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/email-subscriptions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving subscriptions",
+        description: error.message || "Failed to save email subscriptions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const digestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/profile/digest");
+      return response.json();
+    },
+    onSuccess: (result: { success: boolean; error?: string }) => {
+      if (result.success) {
+        toast({
+          title: "Digest sent",
+          description: `Check ${user?.email ?? "your inbox"}`,
+        });
+      } else {
+        toast({
+          title: "Digest not sent",
+          description: result.error || "The email could not be delivered",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error sending digest",
+        description: error.message || "Failed to send digest",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (eventType: EmailEventType, enabled: boolean) => {
+    saveMutation.mutate(enabled
+      ? emailEventTypes.filter((type) => type === eventType || eventTypes.includes(type))
+      : eventTypes.filter((type) => type !== eventType));
+  };
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Profile</h1>
+            <p className="text-sm text-muted-foreground">Your account and email notifications</p>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-3xl mx-auto space-y-8">
+            <Card className="border-border">
+              <CardHeader className="pb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <UserCircle className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl" data-testid="text-profile-username">{user?.username}</CardTitle>
+                    <p className="text-sm text-muted-foreground" data-testid="text-profile-email">{user?.email}</p>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="flex items-center space-x-2 text-sm text-muted-foreground">
+                {user && <Badge variant="secondary" className="font-normal">{user.role}</Badge>}
+                {organization && (
+                  <span data-testid="text-profile-organization">
+                    {organization.role} of {organization.name}
+                  </span>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <Mail className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl">Email Notifications</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Weekly digest for {organization?.name ?? "this organization"}, sent on Monday mornings
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => digestMutation.mutate()}
+                  disabled={eventTypes.length === 0 || digestMutation.isPending}
+                  data-testid="button-send-digest"
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {digestMutation.isPending ? "Sending..." : "Send Me a Digest Now"}
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isLoading ? (
+                  Array.from({ length: emailEventTypes.length }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+                ) : (
+                  emailEventTypes.map((eventType) => (
+                    <div key={eventType} className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-foreground">{eventTypeDetails[eventType].label}</div>
+                        <div className="text-sm text-muted-foreground">{eventTypeDetails[eventType].description}</div>
+                      </div>
+                      <Switch
+                        checked={eventTypes.includes(eventType)}
+                        onCheckedChange={(enabled) => toggle(eventType, enabled)}
+                        disabled={saveMutation.isPending}
+                        data-testid={`switch-email-${eventType}`}
+                      />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,135 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Loader2, Plug, Eye, EyeOff, CheckCircle, XCircle, Info } from "lucide-react";
+import { Loader2, Plug, Eye, EyeOff, CheckCircle, XCircle, Info, Clock, Plus, Edit, Trash2, Upload } from "lucide-react";
 import Navigation from "@/components/ui/navigation";
-import type { ProwlerConfiguration } from "@shared/schema";
+import type { ConfigurationSourceType, SafeProwlerConfiguration, SyncJob } from "@shared/schema";
 
+// The password and secret access key are only required for new configurations; existing ones keep theirs when left blank.
+// Only the fields of the selected source are validated; upload configurations have no connection settings at all.
 const prowlerConfigSchema = z.object({
-  prowlerUrl: z.string().url("Please enter a valid URL"),
-  prowlerEmail: z.string().email("Please enter a valid email address"),
-  prowlerPassword: z.string().min(1, "Password is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  sourceType: z.enum(["api", "upload", "directory", "s3"]),
+  prowlerUrl: z.string(),
+  prowlerEmail: z.string(),
+  prowlerPassword: z.string(),
+  directoryPath: z.string(),
+  s3Endpoint: z.string(),
+  s3Bucket: z.string(),
+  s3Prefix: z.string(),
+  s3Region: z.string(),
+  s3AccessKeyId: z.string(),
+  s3SecretAccessKey: z.string(),
+  s3ForcePathStyle: z.boolean(),
+}).superRefine((data, ctx) => {
+  const require = (valid: boolean, path: keyof typeof data, message: string) => {
+    if (!valid) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  };
+
+  if (data.sourceType === "api") {
+    require(z.string().url().safeParse(data.prowlerUrl).success, "prowlerUrl", "Please enter a valid URL");
+    require(z.string().email().safeParse(data.prowlerEmail).success, "prowlerEmail", "Please enter a valid email address");
+  } else if (data.sourceType === "directory") {
+    require(!!data.directoryPath.trim(), "directoryPath", "Directory is required");
+  } else if (data.sourceType === "s3") {
+    require(!data.s3Endpoint || z.string().url().safeParse(data.s3Endpoint).success, "s3Endpoint", "Please enter a valid URL");
+    require(!!data.s3Bucket.trim(), "s3Bucket", "Bucket is required");
+    require(!!data.s3Region.trim(), "s3Region", "Region is required");
+    require(!!data.s3AccessKeyId.trim(), "s3AccessKeyId", "Access key ID is required");
+  }
 });
 
+const NEW_CONFIGURATION = "new";
+
 type ProwlerConfigForm = z.infer<typeof prowlerConfigSchema>;
 
+const sourceTypeOptions: Array<{ value: ConfigurationSourceType; label: string }> = [
+  { value: "api", label: "Prowler App API" },
+  { value: "upload", label: "Prowler CLI output upload" },
+  { value: "directory", label: "Watched directory" },
+  { value: "s3", label: "S3-compatible bucket" },
+];
+
+// Only the selected source's settings are sent; blank secrets are left out so the stored ones are kept
+function toPayload(data: ProwlerConfigForm) {
+  const { name, sourceType } = data;
+  switch (sourceType) {
+    case "upload":
+      return { name, sourceType };
+    case "directory":
+      return { name, sourceType, directoryPath: data.directoryPath };
+    case "s3":
+      return {
+        name,
+        sourceType,
+        s3Endpoint: data.s3Endpoint,
+        s3Bucket: data.s3Bucket,
+        s3Prefix: data.s3Prefix,
+        s3Region: data.s3Region,
+        s3AccessKeyId: data.s3AccessKeyId,
+        s3ForcePathStyle: data.s3ForcePathStyle,
+        ...(data.s3SecretAccessKey ? { s3SecretAccessKey: data.s3SecretAccessKey } : {}),
+      };
+    default:
+      return {
+        name,
+        prowlerUrl: data.prowlerUrl,
+        prowlerEmail: data.prowlerEmail,
+        ...(data.prowlerPassword ? { prowlerPassword: data.prowlerPassword } : {}),
+      };
+  }
+}
+
+function describeSource(config: SafeProwlerConfiguration) {
+  switch (config.sourceType) {
+    case "upload":
+      return "Prowler CLI output upload";
+    case "directory":
+      return `Directory: ${config.directoryPath}`;
+    case "s3":
+      return `s3://${config.s3Bucket}/${config.s3Prefix || ""}`;
+    default:
+      return config.prowlerUrl;
+  }
+}
+
+const syncIntervalOptions = [
+  { value: "off", label: "Disabled" },
+  { value: "15", label: "Every 15 minutes" },
+  { value: "60", label: "Every hour" },
+  { value: "360", label: "Every 6 hours" },
+  { value: "720", label: "Every 12 hours" },
+  { value: "1440", label: "Daily" },
+  { value: "10080", label: "Weekly" },
+];
+
+const syncJobStatusConfig: Record<SyncJob["status"], string> = {
+  running: 'bg-primary/10 text-primary',
+  succeeded: 'bg-accent/10 text-accent',
+  failed: 'bg-destructive/10 text-destructive',
+};
+
 export default function ProwlerIntegration() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
   const [showPassword, setShowPassword] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -45,38 +146,96 @@ export default function ProwlerIntegration() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: configuration, isLoading: configLoading } = useQuery<ProwlerConfiguration | null>({
-    queryKey: ["/api/prowler/configuration"],
+  const { data: configurations, isLoading: configLoading } = useQuery<SafeProwlerConfiguration[]>({
+    queryKey: ["/api/prowler/configurations"],
+    retry: false,
+  });
+
+  // Select the first configuration once loaded, or start a new one when there are none
+  useEffect(() => {
+    if (!configurations) return;
+    if (selectedId === null || (selectedId !== NEW_CONFIGURATION && !configurations.some((config) => config.id === selectedId))) {
+      setSelectedId(configurations[0]?.id ?? NEW_CONFIGURATION);
+    }
+  }, [configurations, selectedId]);
+
+  const configuration = configurations?.find((config) => config.id === selectedId);
+
+  // Configurations are shared by the organization; hide changes from users who cannot make them
+  const { can } = usePermissions();
+  const canManage = can("configurations:manage");
+  const canSync = can("inventory:sync");
+
+  const { data: syncJobs } = useQuery<SyncJob[]>({
+    queryKey: ["/api/prowler/configurations", configuration?.id, "sync-jobs"],
     retry: false,
+    enabled: !!configuration,
+    // Poll while a sync is running so its progress stays current
+    refetchInterval: (query) => query.state.data?.some((job) => job.status === "running") ? 3000 : false,
   });
 
+  const [syncInterval, setSyncInterval] = useState("1440");
+  const [syncJitter, setSyncJitter] = useState("15");
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   const form = useForm<ProwlerConfigForm>({
     resolver: zodResolver(prowlerConfigSchema),
     defaultValues: {
+      name: "",
+      sourceType: "api",
       prowlerUrl: "",
       prowlerEmail: "",
       prowlerPassword: "",
+      directoryPath: "",
+      s3Endpoint: "",
+      s3Bucket: "",
+      s3Prefix: "",
+      s3Region: "us-east-1",
+      s3AccessKeyId: "",
+      s3SecretAccessKey: "",
+      s3ForcePathStyle: true,
     },
   });
 
-  // Update form when configuration loads
+  // Reset the form when a different configuration is selected
   useEffect(() => {
+    form.reset({
+      name: configuration?.name || "",
+      sourceType: configuration?.sourceType || "api",
+      prowlerUrl: configuration?.prowlerUrl || "",
+      prowlerEmail: configuration?.prowlerEmail || "",
+      prowlerPassword: "",
+      directoryPath: configuration?.directoryPath || "",
+      s3Endpoint: configuration?.s3Endpoint || "",
+      s3Bucket: configuration?.s3Bucket || "",
+      s3Prefix: configuration?.s3Prefix || "",
+      s3Region: configuration?.s3Region || "us-east-1",
+      s3AccessKeyId: configuration?.s3AccessKeyId || "",
+      s3SecretAccessKey: "",
+      s3ForcePathStyle: configuration?.s3ForcePathStyle ?? true,
+    });
     if (configuration) {
-      form.setValue("prowlerUrl", configuration.prowlerUrl || "");
-      form.setValue("prowlerEmail", configuration.prowlerEmail || "");
+      setSyncInterval(configuration.syncIntervalMinutes ? String(configuration.syncIntervalMinutes) : "off");
+      setSyncJitter(String(configuration.syncJitterMinutes ?? 15));
     }
-  }, [configuration, form]);
+    // Refetches of the list must not discard unsaved edits, so only react to real changes
+  }, [configuration?.id, configuration?.updatedAt, form]);
 
   const testConnectionMutation = useMutation({
     mutationFn: async (data: ProwlerConfigForm) => {
-      const response = await apiRequest("POST", "/api/prowler/test-connection", data);
+      const response = data.sourceType === "api"
+        ? await apiRequest("POST", "/api/prowler/test-connection", toPayload(data))
+        : await apiRequest("POST", "/api/prowler/test-source", toPayload(data));
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: { success: boolean; fileCount?: number; error?: string }) => {
       if (data.success) {
         toast({
           title: "Connection Successful",
-          description: "Successfully connected to your Prowler instance",
+          description: data.fileCount !== undefined
+            ? `Found ${data.fileCount} Prowler output file${data.fileCount === 1 ? "" : "s"}`
+            : "Successfully connected to your Prowler instance",
         });
       } else {
         toast({
@@ -108,15 +267,19 @@ export default function ProwlerIntegration() {
 
   const saveConfigMutation = useMutation({
     mutationFn: async (data: ProwlerConfigForm) => {
-      const response = await apiRequest("POST", "/api/prowler/configuration", data);
+      const payload = toPayload(data);
+      const response = configuration
+        ? await apiRequest("PUT", `/api/prowler/configurations/${configuration.id}`, payload)
+        : await apiRequest("POST", "/api/prowler/configurations", payload);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (saved: SafeProwlerConfiguration) => {
       toast({
         title: "Configuration Saved",
-        description: "Prowler configuration has been saved successfully",
+        description: `Prowler configuration "${saved.name}" has been saved successfully`,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configuration"] });
+      setSelectedId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -138,15 +301,174 @@ export default function ProwlerIntegration() {
     },
   });
 
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/prowler/configurations/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: (saved: SafeProwlerConfiguration) => {
+      toast({
+        title: saved.isActive ? "Configuration Enabled" : "Configuration Disabled",
+        description: saved.isActive
+          ? `"${saved.name}" is included in scheduled syncs and the dashboard`
+          : `"${saved.name}" is skipped by scheduled syncs and the dashboard`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations"] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/assets") });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Update Failed",
+        description: "Failed to update Prowler configuration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteConfigMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/prowler/configurations/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Configuration Deleted",
+        description: "Prowler configuration and its synced data have been deleted",
+      });
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations"] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/assets") });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete Prowler configuration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/prowler/configurations/${configuration!.id}/schedule`, {
+        syncIntervalMinutes: syncInterval === "off" ? null : parseInt(syncInterval, 10),
+        syncJitterMinutes: parseInt(syncJitter, 10) || 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Schedule Saved",
+        description: syncInterval === "off" ? "Scheduled sync is disabled" : "Scheduled sync has been updated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Save Failed",
+        description: "Failed to save sync schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload(`/api/prowler/configurations/${configuration!.id}/upload`, file);
+      return response.json();
+    },
+    onSuccess: (data: { resourceCount: number; findingCount: number }) => {
+      toast({
+        title: "Import Completed",
+        description: `Imported ${data.resourceCount} resources and ${data.findingCount} findings`,
+      });
+      setUploadFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations"] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/assets") });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // Parse errors come back in the message, e.g. an unrecognized file format
+      queryClient.invalidateQueries({ queryKey: ["/api/prowler/configurations", configuration?.id, "sync-jobs"] });
+      toast({
+        title: "Import Failed",
+        description: error.message || "Failed to import Prowler output",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onTestConnection = () => {
     const values = form.getValues();
     testConnectionMutation.mutate(values);
   };
 
   const onSubmit = (data: ProwlerConfigForm) => {
+    if (!configuration && data.sourceType === "api" && !data.prowlerPassword) {
+      form.setError("prowlerPassword", { message: "Password is required" });
+      return;
+    }
+    if (!configuration && data.sourceType === "s3" && !data.s3SecretAccessKey) {
+      form.setError("s3SecretAccessKey", { message: "Secret access key is required" });
+      return;
+    }
     saveConfigMutation.mutate(data);
   };
 
+  const handleDeleteConfiguration = (config: SafeProwlerConfiguration) => {
+    if (confirm(`Are you sure you want to delete "${config.name}"? Its synced assets and findings will be deleted too.`)) {
+      deleteConfigMutation.mutate(config.id);
+    }
+  };
+
+  const sourceType = form.watch("sourceType");
+
   if (isLoading || configLoading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -164,192 +486,587 @@ export default function ProwlerIntegration() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-semibold text-foreground">Prowler Integration</h1>
-              <p className="text-sm text-muted-foreground">Configure your Prowler v5 API connection</p>
+              <p className="text-sm text-muted-foreground">Configure your Prowler v5 API connections or upload Prowler CLI output</p>
             </div>
             <div className="flex items-center space-x-3">
-              <div className="flex items-center space-x-2">
-                {configuration?.connectionStatus === 'connected' ? (
-                  <>
-                    <div className="h-3 w-3 bg-accent rounded-full"></div>
-                    <span className="text-sm text-accent">Connected</span>
-                  </>
-                ) : (
-                  <>
-                    <div className="h-3 w-3 bg-destructive rounded-full"></div>
-                    <span className="text-sm text-destructive">Disconnected</span>
-                  </>
-                )}
-              </div>
+              {/* Configuration Form */}
+            {canManage && (
+                <Button
+                  size="sm"
+                  onClick={() => setSelectedId(NEW_CONFIGURATION)}
+                  data-testid="button-add-configuration"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Configuration
+                </Button>
+              )}
             </div>
           </div>
         </header>
         
         <main className="flex-1 overflow-auto p-6">
           <div className="max-w-2xl mx-auto space-y-6">
-            {/* Connection Status */}
+            {/* Configurations */}
             <Card className="border-border">
               <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-lg font-semibold text-foreground">Connection Status</h2>
-                  <div className="flex items-center space-x-2">
-                    {configuration?.connectionStatus === 'connected' ? (
-                      <>
-                        <CheckCircle className="h-5 w-5 text-accent" />
-                        <span className="text-sm text-accent">Connected</span>
-                      </>
-                    ) : (
-                      <>
-                        <XCircle className="h-5 w-5 text-destructive" />
-                        <span className="text-sm text-destructive">Disconnected</span>
-                      </>
-                    )}
+                <h2 className="text-lg font-semibold text-foreground mb-4">Configurations</h2>
+                {configurations && configurations.length > 0 ? (
+                  <div className="space-y-3">
+                    {configurations.map((config) => (
+                      <div
+                        key={config.id}
+                        className={`flex items-center justify-between rounded-md border p-3 ${config.id === selectedId ? 'border-primary' : 'border-border'}`}
+                        data-testid={`row-configuration-${config.id}`}
+                      >
+                        <div
+                          className="flex items-center space-x-3 min-w-0 cursor-pointer"
+                          onClick={() => setSelectedId(config.id)}
+                        >
+                          {config.connectionStatus === 'connected' ? (
+                            <CheckCircle className="h-5 w-5 text-accent flex-shrink-0" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive flex-shrink-0" />
+                          )}
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium text-foreground truncate">{config.name}</div>
+                            <div className="text-xs text-muted-foreground truncate">{describeSource(config)}</div>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            checked={config.isActive ?? false}
+                            onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: config.id, isActive })}
+                            disabled={!canManage || toggleActiveMutation.isPending}
+                            data-testid={`switch-configuration-active-${config.id}`}
+                          />
+                          {canManage && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSelectedId(config.id)}
+                                data-testid={`button-edit-configuration-${config.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDeleteConfiguration(config)}
+                                disabled={deleteConfigMutation.isPending}
+                                data-testid={`button-delete-configuration-${config.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Configure your Prowler v5 instance to start monitoring your cloud security posture.
-                </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Configure your Prowler v5 instance to start monitoring your cloud security posture.
+                  </p>
+                )}
               </CardContent>
             </Card>
             
             {/* Configuration Form */}
-            <Card className="border-border">
-              <CardContent className="p-6">
-                <h2 className="text-lg font-semibold text-foreground mb-6">Prowler Configuration</h2>
+            {canManage && (
+              <Card className="border-border">
+                <CardContent className="p-6">
+                  <h2 className="text-lg font-semibold text-foreground mb-6">
+                    {configuration ? `Edit ${configuration.name}` : "New Prowler Configuration"}
+                  </h2>
                 
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="prowlerUrl"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>
-                            Prowler Instance URL
-                            <span className="text-destructive ml-1">*</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="https://your-prowler-instance.com"
-                              {...field}
-                              data-testid="input-prowler-url"
-                            />
-                          </FormControl>
-                          <p className="text-xs text-muted-foreground">
-                            The base URL of your Prowler v5 hosted instance
-                          </p>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="prowlerEmail"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>
-                            Email
-                            <span className="text-destructive ml-1">*</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input
-                              type="email"
-                              placeholder="your-email@company.com"
-                              {...field}
-                              data-testid="input-prowler-email"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="prowlerPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>
-                            Password
-                            <span className="text-destructive ml-1">*</span>
-                          </FormLabel>
-                          <FormControl>
-                            <div className="relative">
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              Name
+                              <span className="text-destructive ml-1">*</span>
+                            </FormLabel>
+                            <FormControl>
                               <Input
-                                type={showPassword ? "text" : "password"}
-                                placeholder="Enter your Prowler password"
+                                placeholder="Production"
                                 {...field}
-                                data-testid="input-prowler-password"
-                                className="pr-10"
+                                data-testid="input-configuration-name"
                               />
-                              <button
-                                type="button"
-                                onClick={() => setShowPassword(!showPassword)}
-                                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                                data-testid="button-toggle-password"
-                              >
-                                {showPassword ? (
-                                  <EyeOff className="h-4 w-4 text-muted-foreground" />
-                                ) : (
-                                  <Eye className="h-4 w-4 text-muted-foreground" />
-                                )}
-                              </button>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <Card className="bg-muted border-0">
-                      <CardContent className="p-4">
-                        <div className="flex items-start space-x-3">
-                          <Info className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
-                          <div>
-                            <h4 className="text-sm font-medium text-foreground">Security Note</h4>
-                            <p className="text-sm text-muted-foreground mt-1">
-                              Your credentials are encrypted and stored securely. They are only used to authenticate with your Prowler instance.
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="sourceType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Source</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange} disabled={!!configuration}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-configuration-source">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {sourceTypeOptions.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                              Upload configurations are filled with JSON-OCSF, CSV or ASFF files from the Prowler CLI instead of syncing from an instance
                             </p>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      {sourceType === "api" && (
+                        <>
+                          <FormField
+                            control={form.control}
+                            name="prowlerUrl"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  Prowler Instance URL
+                                  <span className="text-destructive ml-1">*</span>
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="https://your-prowler-instance.com"
+                                    {...field}
+                                    data-testid="input-prowler-url"
+                                  />
+                                </FormControl>
+                                <p className="text-xs text-muted-foreground">
+                                  The base URL of your Prowler v5 hosted instance
+                                </p>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                    
+                          <FormField
+                            control={form.control}
+                            name="prowlerEmail"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  Email
+                                  <span className="text-destructive ml-1">*</span>
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="email"
+                                    placeholder="your-email@company.com"
+                                    {...field}
+                                    data-testid="input-prowler-email"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                    
+                          <FormField
+                            control={form.control}
+                            name="prowlerPassword"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  Password
+                                  {!configuration && <span className="text-destructive ml-1">*</span>}
+                                </FormLabel>
+                                <FormControl>
+                                  <div className="relative">
+                                    <Input
+                                      type={showPassword ? "text" : "password"}
+                                      placeholder={configuration ? "Leave blank to keep the current password" : "Enter your Prowler password"}
+                                      {...field}
+                                      data-testid="input-prowler-password"
+                                      className="pr-10"
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() => setShowPassword(!showPassword)}
+                                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                                      data-testid="button-toggle-password"
+                                    >
+                                      {showPassword ? (
+                                        <EyeOff className="h-4 w-4 text-muted-foreground" />
+                                      ) : (
+                                        <Eye className="h-4 w-4 text-muted-foreground" />
+                                      )}
+                                    </button>
+                                  </div>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                    
+                          <Card className="bg-muted border-0">
+                            <CardContent className="p-4">
+                              <div className="flex items-start space-x-3">
+                                <Info className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
+                                <div>
+                                  <h4 className="text-sm font-medium text-foreground">Security Note</h4>
+                                  <p className="text-sm text-muted-foreground mt-1">
+                                    Your credentials are encrypted and stored securely. They are only used to authenticate with your Prowler instance.
+                                  </p>
+                                </div>
+                              </div>
+                            </CardContent>
+                          </Card>
+                        </>
+                      )}
+
+                      {sourceType === "directory" && (
+                        <FormField
+                          control={form.control}
+                          name="directoryPath"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>
+                                Directory
+                                <span className="text-destructive ml-1">*</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="prowler/output"
+                                  {...field}
+                                  data-testid="input-directory-path"
+                                />
+                              </FormControl>
+                              <p className="text-xs text-muted-foreground">
+                                Relative to the server's PROWLER_WATCH_ROOT. New JSON-OCSF and CSV files are imported on each sync.
+                              </p>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
+                      {sourceType === "s3" && (
+                        <>
+                          <FormField
+                            control={form.control}
+                            name="s3Endpoint"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Endpoint URL</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="https://minio.example.com"
+                                    {...field}
+                                    data-testid="input-s3-endpoint"
+                                  />
+                                </FormControl>
+                                <p className="text-xs text-muted-foreground">
+                                  Leave blank for AWS S3
+                                </p>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                              control={form.control}
+                              name="s3Bucket"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>
+                                    Bucket
+                                    <span className="text-destructive ml-1">*</span>
+                                  </FormLabel>
+                                  <FormControl>
+                                    <Input placeholder="prowler-output" {...field} data-testid="input-s3-bucket" />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name="s3Prefix"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Prefix</FormLabel>
+                                  <FormControl>
+                                    <Input placeholder="output/" {...field} data-testid="input-s3-prefix" />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
+
+                          <FormField
+                            control={form.control}
+                            name="s3Region"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Region</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="us-east-1" {...field} data-testid="input-s3-region" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="s3AccessKeyId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  Access Key ID
+                                  <span className="text-destructive ml-1">*</span>
+                                </FormLabel>
+                                <FormControl>
+                                  <Input {...field} data-testid="input-s3-access-key-id" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="s3SecretAccessKey"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  Secret Access Key
+                                  {!configuration && <span className="text-destructive ml-1">*</span>}
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="password"
+                                    placeholder={configuration ? "Leave blank to keep the current key" : "Enter the secret access key"}
+                                    {...field}
+                                    data-testid="input-s3-secret-access-key"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="s3ForcePathStyle"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center justify-between">
+                                <div>
+                                  <FormLabel>Path-style addressing</FormLabel>
+                                  <p className="text-xs text-muted-foreground">
+                                    Required by MinIO and most self-hosted S3-compatible stores
+                                  </p>
+                                </div>
+                                <FormControl>
+                                  <Switch
+                                    checked={field.value ?? true}
+                                    onCheckedChange={field.onChange}
+                                    data-testid="switch-s3-force-path-style"
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        </>
+                      )}
                     
-                    <div className="flex space-x-4">
-                      <Button
-                        type="button"
-                        variant="outline"
-                        className="flex-1"
-                        onClick={onTestConnection}
-                        disabled={testConnectionMutation.isPending || !form.formState.isValid}
-                        data-testid="button-test-connection"
-                      >
-                        {testConnectionMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : (
-                          <Plug className="mr-2 h-4 w-4" />
-                        )}
-                        Test Connection
-                      </Button>
-                      <Button
-                        type="submit"
-                        className="flex-1"
-                        disabled={saveConfigMutation.isPending || !form.formState.isValid}
-                        data-testid="button-save-configuration"
-                      >
-                        {saveConfigMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : (
-                          <CheckCircle className="mr-2 h-4 w-4" />
+                      <div className="flex space-x-4">
+                        {sourceType !== "upload" && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={onTestConnection}
+                            disabled={
+                              testConnectionMutation.isPending
+                              || !form.formState.isValid
+                              || (sourceType === "api" && !form.watch("prowlerPassword"))
+                              || (sourceType === "s3" && !form.watch("s3SecretAccessKey"))
+                            }
+                            data-testid="button-test-connection"
+                          >
+                            {testConnectionMutation.isPending ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Plug className="mr-2 h-4 w-4" />
+                            )}
+                            Test Connection
+                          </Button>
                         )}
-                        Save Configuration
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </CardContent>
-            </Card>
+                        <Button
+                          type="submit"
+                          className="flex-1"
+                          disabled={saveConfigMutation.isPending || !form.formState.isValid}
+                          data-testid="button-save-configuration"
+                        >
+                          {saveConfigMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <CheckCircle className="mr-2 h-4 w-4" />
+                          )}
+                          Save Configuration
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            )}
             
+            {configuration && (
+              <>
+                {/* Sync Schedule */}
+                {configuration.sourceType !== "upload" && (
+                  <Card className="border-border">
+                    <CardContent className="p-6">
+                      <h2 className="text-lg font-semibold text-foreground mb-6">Sync Schedule</h2>
+                      <div className="grid md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Sync Interval</Label>
+                          <Select value={syncInterval} onValueChange={setSyncInterval}>
+                            <SelectTrigger data-testid="select-sync-interval">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {syncIntervalOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Jitter (minutes)</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={720}
+                            value={syncJitter}
+                            onChange={(e) => setSyncJitter(e.target.value)}
+                            disabled={syncInterval === "off"}
+                            data-testid="input-sync-jitter"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between mt-6">
+                        <p className="text-sm text-muted-foreground">
+                          {configuration.nextSyncAt
+                            ? `Next sync: ${new Date(configuration.nextSyncAt).toLocaleString()}`
+                            : syncInterval === "off" ? "Scheduled sync is disabled" : "Next sync: pending"}
+                        </p>
+                        {canManage && (
+                          <Button
+                            variant="outline"
+                            onClick={() => saveScheduleMutation.mutate()}
+                            disabled={saveScheduleMutation.isPending}
+                            data-testid="button-save-schedule"
+                          >
+                            {saveScheduleMutation.isPending ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Clock className="mr-2 h-4 w-4" />
+                            )}
+                            Save Schedule
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* File Upload */}
+                {configuration.sourceType === "upload" && canSync && (
+                  <Card className="border-border">
+                    <CardContent className="p-6">
+                      <h2 className="text-lg font-semibold text-foreground mb-2">Upload Prowler Output</h2>
+                      <p className="text-sm text-muted-foreground mb-6">
+                        Upload a JSON-OCSF, CSV or ASFF file written by the Prowler CLI. Each file is treated as a complete scan, so resources it doesn't contain are marked as removed.
+                      </p>
+                      <div className="flex items-center space-x-3">
+                        <Input
+                          ref={fileInputRef}
+                          type="file"
+                          accept=".json,.csv"
+                          onChange={(e) => setUploadFile(e.target.files?.[0] ?? null)}
+                          data-testid="input-upload-file"
+                        />
+                        <Button
+                          onClick={() => uploadFile && uploadMutation.mutate(uploadFile)}
+                          disabled={!uploadFile || uploadMutation.isPending}
+                          data-testid="button-upload-file"
+                        >
+                          {uploadMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Upload className="mr-2 h-4 w-4" />
+                          )}
+                          Upload
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Recent Sync Jobs */}
+                <Card className="border-border">
+                  <CardContent className="p-6">
+                    <h2 className="text-lg font-semibold text-foreground mb-4">Recent Syncs</h2>
+                    {syncJobs && syncJobs.length > 0 ? (
+                      <div className="space-y-3">
+                        {syncJobs.map((job) => (
+                          <div
+                            key={job.id}
+                            className="flex items-start justify-between text-sm border-b border-border pb-3 last:border-0 last:pb-0"
+                            data-testid={`row-sync-job-${job.id}`}
+                          >
+                            <div>
+                              <div className="text-foreground">
+                                {new Date(job.startedAt).toLocaleString()}
+                                <span className="text-muted-foreground capitalize"> · {job.trigger}</span>
+                              </div>
+                              {job.status === "running" ? (
+                                <div className="text-muted-foreground">
+                                  {job.itemsFetched ?? 0} items fetched
+                                  {job.totalPages ? ` (page ${job.pagesFetched ?? 0} of ${job.totalPages})` : ''}
+                                </div>
+                              ) : job.error ? (
+                                <div className="text-destructive">{job.error}</div>
+                              ) : (
+                                <div className="text-muted-foreground">
+                                  {job.resourceCount ?? 0} resources · {job.findingCount ?? 0} findings
+                                </div>
+                              )}
+                            </div>
+                            <Badge className={`capitalize ${syncJobStatusConfig[job.status]}`}>{job.status}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No syncs have run yet.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+
             {/* API Information */}
             <Card className="border-border">
               <CardContent className="p-6">
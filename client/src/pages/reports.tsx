@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Download, FileText } from "lucide-react";
+import Navigation from "@/components/ui/navigation";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ReportFrequency, ReportSummary } from "@shared/schema";
+
+const NO_SCHEDULE = "off";
+
+const frequencyLabels: Record<ReportFrequency, string> = {
+  weekly: "Weekly (Mondays)",
+  monthly: "Monthly (1st of the month)",
+};
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function Reports() {
+  const { toast } = useToast();
+  const { organization, can } = usePermissions();
+  const canManage = can("organization:manage");
+  const [reportPeriod, setReportPeriod] = useState<ReportFrequency>("monthly");
+
+  const { data: reports = [], isLoading } = useQuery<ReportSummary[]>({
+    queryKey: ["/api/reports"],
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: (reportFrequency: ReportFrequency | null) => apiRequest('PUT', '/api/reports/schedule', { reportFrequency }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+      toast({
+        title: "Schedule saved",
+        description: "Report schedule has been updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving schedule",
+        description: error.message || "Failed to update report schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: (frequency: ReportFrequency) => apiRequest('POST', '/api/reports', { frequency }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      toast({
+        title: "Report generated",
+        description: "The report is ready to download",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error generating report",
+        description: error.message || "Failed to generate report",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="h-full flex">
+      <Navigation />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className="bg-card border-b border-border px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-foreground">Reports</h1>
+              <p className="text-sm text-muted-foreground">Executive compliance reports in PDF</p>
+            </div>
+            {canManage && (
+              <div className="flex items-center space-x-3">
+                <Select value={reportPeriod} onValueChange={(value) => setReportPeriod(value as ReportFrequency)}>
+                  <SelectTrigger className="w-40" data-testid="select-report-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weekly">Last 7 days</SelectItem>
+                    <SelectItem value="monthly">Last month</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => generateMutation.mutate(reportPeriod)}
+                  disabled={generateMutation.isPending}
+                  data-testid="button-generate-report"
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  {generateMutation.isPending ? "Generating..." : "Generate Now"}
+                </Button>
+              </div>
+            )}
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-8">
+            <Card className="border-border">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center text-lg">
+                  <CalendarClock className="mr-2 h-5 w-5" />
+                  Schedule
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  {organization?.reportFrequency && organization.nextReportAt
+                    ? `Next report: ${new Date(organization.nextReportAt).toLocaleString()}`
+                    : "Scheduled reports are turned off"}
+                </div>
+                <Select
+                  value={organization?.reportFrequency || NO_SCHEDULE}
+                  onValueChange={(value) => scheduleMutation.mutate(value === NO_SCHEDULE ? null : value as ReportFrequency)}
+                  disabled={!canManage || scheduleMutation.isPending}
+                >
+                  <SelectTrigger className="w-64" data-testid="select-report-schedule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCHEDULE}>Off</SelectItem>
+                    <SelectItem value="weekly">{frequencyLabels.weekly}</SelectItem>
+                    <SelectItem value="monthly">{frequencyLabels.monthly}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            <Card className="border-border">
+              <CardContent className="p-0">
+                <div className="px-6 py-4 border-b border-border">
+                  <h2 className="text-lg font-semibold text-foreground">Past Reports</h2>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Generated</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead className="text-right">Download</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell colSpan={5}><Skeleton className="h-6 w-full" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : reports.length > 0 ? (
+                      reports.map((report) => (
+                        <TableRow key={report.id} data-testid={`row-report-${report.id}`}>
+                          <TableCell className="font-medium">{report.periodStart} – {report.periodEnd}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {report.createdAt ? new Date(report.createdAt).toLocaleString() : ""}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="capitalize">{report.trigger}</Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{formatSize(report.sizeBytes)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" asChild>
+                              <a href={`/api/reports/${report.id}/download`} download data-testid={`link-download-report-${report.id}`}>
+                                <Download className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          No reports generated yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
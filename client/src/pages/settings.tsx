@@ -11,11 +11,13 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Plus, Edit, Trash2, Users, Shield } from "lucide-react";
 import Navigation from "@/components/ui/navigation";
+import EmailSettingsCard from "@/components/ui/email-settings-card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import type { User } from "@shared/schema";
+import { getPermissions, normalizeRole, roleLabels, userRoles } from "@shared/permissions";
 
 const userFormSchema = z.object({
   username: z.string().min(1, "Username is required").min(3, "Username must be at least 3 characters"),
@@ -23,7 +25,7 @@ const userFormSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   password: z.string().min(1, "Password is required").min(6, "Password must be at least 6 characters"),
-  role: z.enum(["admin", "user"]).default("user"),
+  role: z.enum(userRoles).default("viewer"),
 });
 
 const editUserFormSchema = z.object({
@@ -32,7 +34,7 @@ const editUserFormSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   password: z.string().optional(),
-  role: z.enum(["admin", "user"]).optional(),
+  role: z.enum(userRoles).optional(),
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
@@ -45,8 +47,8 @@ export default function Settings() {
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // Check if user is admin
-  if (!user || user.role !== "admin") {
+  // User management is an admin-only permission of the global role
+  if (!user || !getPermissions(user.role).includes("users:manage")) {
     return (
       <div className="h-full flex">
         <Navigation />
@@ -87,7 +89,7 @@ export default function Settings() {
       firstName: "",
       lastName: "",
       password: "",
-      role: "user" as const,
+      role: "viewer" as const,
     },
   });
 
@@ -99,7 +101,7 @@ export default function Settings() {
       firstName: "",
       lastName: "",
       password: "",
-      role: "user" as const,
+      role: "viewer" as const,
     },
   });
 
@@ -175,7 +177,7 @@ export default function Settings() {
       firstName: user.firstName || "",
       lastName: user.lastName || "",
       password: "",
-      role: user.role || "user",
+      role: normalizeRole(user.role),
     });
     setIsEditDialogOpen(true);
   };
@@ -312,8 +314,9 @@ export default function Settings() {
                               <FormLabel>Role</FormLabel>
                               <FormControl>
                                 <select {...field} className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background" data-testid="select-add-role">
-                                  <option value="user">User</option>
-                                  <option value="admin">Admin</option>
+                                  {userRoles.map((role) => (
+                                    <option key={role} value={role}>{roleLabels[role]}</option>
+                                  ))}
                                 </select>
                               </FormControl>
                               <FormMessage />
@@ -375,7 +378,7 @@ export default function Settings() {
                           </TableCell>
                           <TableCell data-testid={`text-role-${user.id}`}>
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${user.role === 'admin' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>
-                              {user.role === 'admin' ? 'Admin' : 'User'}
+                              {roleLabels[normalizeRole(user.role)]}
                             </span>
                           </TableCell>
                           <TableCell data-testid={`text-created-${user.id}`}>
@@ -408,6 +411,8 @@ export default function Settings() {
                 )}
               </CardContent>
             </Card>
+
+            {getPermissions(user.role).includes("settings:manage") && <EmailSettingsCard />}
           </div>
         </main>
       </div>
@@ -500,8 +505,9 @@ export default function Settings() {
                     <FormLabel>Role</FormLabel>
                     <FormControl>
                       <select {...field} className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background" data-testid="select-edit-role">
-                        <option value="user">User</option>
-                        <option value="admin">Admin</option>
+                        {userRoles.map((role) => (
+                          <option key={role} value={role}>{roleLabels[role]}</option>
+                        ))}
                       </select>
                     </FormControl>
                     <FormMessage />
@@ -4,6 +4,9 @@
 -- Enable UUID extension for generating UUIDs
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Asset search uses trigram indexes, which db:push can only create once the extension exists
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- Grant necessary permissions
 GRANT ALL PRIVILEGES ON DATABASE prowler_db TO prowler_user;
 GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO prowler_user;
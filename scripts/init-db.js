@@ -22,12 +22,17 @@ async function initializeDatabase() {
   console.log('🚀 Initializing database...');
   
   try {
-    // Step 1: Push database schema
+    // Step 1: Enable extensions the schema's indexes depend on
+    console.log('🧩 Enabling database extensions...');
+    await enableExtensions();
+    console.log('✅ Database extensions enabled');
+
+    // Step 2: Push database schema
     console.log('📋 Creating database schema...');
     execSync('npm run db:push', { stdio: 'inherit' });
     console.log('✅ Database schema created successfully');
     
-    // Step 2: Create admin user
+    // Step 3: Create admin user
     console.log('👤 Creating default admin user...');
     await createAdminUser();
     console.log('✅ Admin user created successfully');
@@ -46,6 +51,21 @@ async function initializeDatabase() {
   }
 }
 
+// The trigram indexes on assets need pg_trgm, which db:push doesn't create
+async function enableExtensions() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL environment variable is not set');
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  try {
+    await pool.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+  } finally {
+    await pool.end();
+  }
+}
+
 async function createAdminUser() {
   if (!process.env.DATABASE_URL) {
     throw new Error('DATABASE_URL environment variable is not set');
@@ -7,6 +7,33 @@ import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import type { Organization, OrganizationRole } from "@shared/schema";
+import { getPermissions, type Permission } from "@shared/permissions";
+
+declare module "express-session" {
+  interface SessionData {
+    // Organization the user is currently working in, switched via /api/organizations/:id/switch
+    organizationId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    // What the local strategy stores in the session
+    interface User {
+      id: string;
+      username: string;
+      isLocal: boolean;
+    }
+
+    // Set by resolveOrganization
+    interface Request {
+      organization?: Organization;
+      organizationRole?: OrganizationRole;
+      permissions?: Permission[];
+    }
+  }
+}
 
 // Registration validation schema
 const registerSchema = z.object({
@@ -123,7 +150,7 @@ export async function setupAuth(app: Express) {
         firstName: validatedData.firstName,
         lastName: validatedData.lastName,
         passwordHash,
-        role: "user",
+        role: "viewer",
       });
 
       // Automatically log in the user after registration
@@ -165,3 +192,72 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   // All authenticated users are local users now
   return next();
 };
+
+// Resolves the organization a request acts on and attaches it as req.organization / req.organizationRole,
+// along with req.permissions granted by the global role and the organization role combined.
+// Falls back to the user's first membership, creating a personal organization for users without one.
+// Global admins may work in any organization with owner rights.
+export const resolveOrganization: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const user = await storage.getUser(req.user.id);
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    let organization: Organization | undefined;
+    let role: OrganizationRole | undefined;
+
+    const selectedId = req.session.organizationId;
+    if (selectedId) {
+      const member = await storage.getOrganizationMember(selectedId, user.id);
+      if (member || user.role === "admin") {
+        organization = await storage.getOrganization(selectedId);
+        role = member?.role;
+      }
+    }
+
+    if (!organization) {
+      const [first] = await storage.getOrganizationsForUser(user.id);
+      const fallback = first ?? await storage.ensurePersonalOrganization(user);
+      organization = fallback;
+      role = fallback.role;
+      req.session.organizationId = fallback.id;
+    }
+
+    if (user.role === "admin") {
+      role = "owner";
+    }
+
+    req.organization = organization;
+    req.organizationRole = role;
+    req.permissions = getPermissions(user.role, role);
+    return next();
+  } catch (error) {
+    console.error("Error resolving organization:", error);
+    res.status(500).json({ message: "Failed to resolve organization" });
+  }
+};
+
+// Gates a route on the permission matrix in shared/permissions.ts; resolves the organization first
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => resolveOrganization(req, res, () => {
+    if (!req.permissions?.includes(permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    return next();
+  });
+}
+
+// Must run after resolveOrganization
+export function requireOrganizationRole(...roles: OrganizationRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.organizationRole || !roles.includes(req.organizationRole)) {
+      return res.status(403).json({ message: "Organization admin access required" });
+    }
+    return next();
+  };
+}
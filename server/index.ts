@@ -3,8 +3,15 @@ config(); // Load environment variables from .env file
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { syncScheduler } from "./services/syncScheduler";
+import { reportScheduler } from "./services/reportScheduler";
+import { notificationDispatcher } from "./services/notificationDispatcher";
+import { digestScheduler } from "./services/digestScheduler";
 
 const app = express();
+// Control framework documents outgrow the default 100kb; parsed first so the default parser below leaves them alone.
+// Twice the 5MB document limit, since escaping a YAML document into a JSON string can double its size
+app.use("/api/compliance/custom-frameworks", express.json({ limit: "10mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -84,5 +91,27 @@ app.use((req, res, next) => {
       hour12: true,
     });
     console.log(`${formattedTime} [express] serving on port ${port}`);
+
+    // Background sync of every active Prowler configuration; disable with SYNC_SCHEDULER_ENABLED=false
+    if (process.env.SYNC_SCHEDULER_ENABLED !== 'false') {
+      syncScheduler.start().catch((error) => {
+        console.error("Failed to start sync scheduler:", error);
+      });
+    }
+
+    // Scheduled executive PDF reports; disable with REPORT_SCHEDULER_ENABLED=false
+    if (process.env.REPORT_SCHEDULER_ENABLED !== 'false') {
+      reportScheduler.start();
+    }
+
+    // Retries of failed webhook notifications; disable with NOTIFICATION_DISPATCHER_ENABLED=false
+    if (process.env.NOTIFICATION_DISPATCHER_ENABLED !== 'false') {
+      notificationDispatcher.start();
+    }
+
+    // Weekly email digests; disable with DIGEST_SCHEDULER_ENABLED=false
+    if (process.env.DIGEST_SCHEDULER_ENABLED !== 'false') {
+      digestScheduler.start();
+    }
   });
 })();
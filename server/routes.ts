@@ -1,25 +1,172 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
+import { storage, type NewProwlerConfiguration, type TriageDecision, type MuteRuleValues, type NewNotificationChannel, type NewFrameworkControl } from "./storage";
+import { setupAuth, isAuthenticated, resolveOrganization, requirePermission, requireOrganizationRole } from "./auth";
 import { prowlerService } from "./services/prowlerService";
-import { prowlerConfigurationSchema } from "@shared/schema";
+import { credentialService } from "./services/credentialService";
+import { syncService } from "./services/syncService";
+import { fileSourceService } from "./services/fileSourceService";
+import { exportService } from "./services/exportService";
+import { reportService } from "./services/reportService";
+import { computeNextReportAt } from "./services/reportScheduler";
+import { computeNextSyncAt } from "./services/syncScheduler";
+import { notificationService } from "./services/notificationService";
+import { emailService } from "./services/emailService";
+import { digestService } from "./services/digestService";
+import { alertService } from "./services/alertService";
+import { complianceService } from "./services/complianceService";
+import {
+  prowlerConfigurationSchema,
+  updateProwlerConfigurationSchema,
+  fileSourceConfigurationSchema,
+  updateFileSourceConfigurationSchema,
+  syncScheduleSchema,
+  statsQuerySchema,
+  statsHistoryQuerySchema,
+  assetQuerySchema,
+  assetFilterSchema,
+  assetExportQuerySchema,
+  findingQuerySchema,
+  reportScheduleSchema,
+  generateReportSchema,
+  triageSchema,
+  muteRuleSchema,
+  notificationChannelSchema,
+  updateNotificationChannelSchema,
+  alertRuleSchema,
+  controlFrameworkSchema,
+  controlFrameworkImportSchema,
+  controlFrameworkExportQuerySchema,
+  emailSettingsSchema,
+  emailSubscriptionsSchema,
+  organizationSchema,
+  addOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+  type ProwlerConfiguration,
+  type SafeProwlerConfiguration,
+  type AssetDetail,
+  type StartedSyncs,
+  type NotificationChannel,
+  type SafeNotificationChannel,
+  type EmailSettings,
+  type SafeEmailSettings,
+  type AlertRuleInput,
+} from "@shared/schema";
+import { userRoles } from "@shared/permissions";
+import { parseAssetFilter, toControlFrameworkDocument } from "@shared/controls";
 import { z } from "zod";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import bcrypt from "bcrypt";
 
-// Admin middleware
-const isAdmin: typeof isAuthenticated = async (req, res, next) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Unauthorized" });
+// Don't send encrypted passwords to client
+function withoutPassword(config: ProwlerConfiguration): SafeProwlerConfiguration {
+  const { prowlerPasswordEncrypted, ...configWithoutPassword } = config;
+  return configWithoutPassword;
+}
+
+// Signing secrets are write-only, like Prowler passwords
+function withoutSecret(channel: NotificationChannel): SafeNotificationChannel {
+  const { secretEncrypted, ...channelWithoutSecret } = channel;
+  return { ...channelWithoutSecret, hasSecret: !!secretEncrypted };
+}
+
+function withoutSmtpPassword(settings: EmailSettings): SafeEmailSettings {
+  const { passwordEncrypted, ...settingsWithoutPassword } = settings;
+  return { ...settingsWithoutPassword, hasPassword: !!passwordEncrypted };
+}
+
+// Dashboard scope: a single configuration when ?configurationId= is given, otherwise every enabled one
+async function getScopedConfigurations(organizationId: string, configurationId?: unknown): Promise<ProwlerConfiguration[]> {
+  if (typeof configurationId === "string" && configurationId) {
+    const config = await storage.getProwlerConfiguration(organizationId, configurationId);
+    return config ? [config] : [];
+  }
+
+  const configs = await storage.getProwlerConfigurations(organizationId);
+  return configs.filter(config => config.isActive);
+}
+
+// Largest Prowler output file accepted by the upload endpoint
+const UPLOAD_SIZE_LIMIT = process.env.PROWLER_UPLOAD_LIMIT || "100mb";
+// Watched directories and buckets are checked for new files hourly until their schedule is changed
+const WATCHED_SOURCE_INTERVAL_MINUTES = 60;
+
+// Returns why a directory can't be watched, or null when it is usable
+async function getDirectoryError(directoryPath: string): Promise<string | null> {
+  try {
+    await fileSourceService.resolveDirectory(directoryPath);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid directory";
+  }
+}
+
+// Validates an alert rule; its configuration and channels have to belong to the organization
+async function parseAlertRule(organizationId: string, body: unknown): Promise<{ rule?: AlertRuleInput; error?: string }> {
+  const rule = alertRuleSchema.parse(body);
+  if (rule.configurationId && !(await storage.getProwlerConfiguration(organizationId, rule.configurationId))) {
+    return { error: "Prowler configuration not found" };
+  }
+  const channelIds = new Set((await storage.getNotificationChannels(organizationId)).map(channel => channel.id));
+  if (rule.channelIds.some(channelId => !channelIds.has(channelId))) {
+    return { error: "Notification channel not found" };
+  }
+  // Only the part matching the kind is kept
+  return {
+    rule: rule.kind === "metric" ? { ...rule, conditions: [] } : { ...rule, metric: null },
+  };
+}
+
+type ControlFrameworkValues = { name: string; description: string | null; controls: NewFrameworkControl[] };
+
+// Validates a control framework document; every asset filter has to parse
+function parseControlFramework(body: unknown): { framework?: ControlFrameworkValues; error?: string } {
+  const framework = controlFrameworkSchema.parse(body);
+  for (const control of framework.controls) {
+    const error = control.assets ? parseAssetFilter(control.assets).error : undefined;
+    if (error) {
+      return { error: `Control ${control.id}: ${error}` };
+    }
   }
-  
-  const user = await storage.getUser((req.user as any).id);
-  if (!user || user.role !== "admin") {
-    return res.status(403).json({ message: "Admin access required" });
+  return {
+    framework: {
+      name: framework.name,
+      description: framework.description,
+      controls: framework.controls.map(control => ({
+        controlId: control.id,
+        description: control.description,
+        checkIds: control.checks,
+        assetFilter: control.assets,
+      })),
+    },
+  };
+}
+
+// Custom frameworks can't take the name of one Prowler reports, or the scorecards would list two of them
+async function isBuiltInFrameworkName(organizationId: string, name: string): Promise<boolean> {
+  const configs = await storage.getProwlerConfigurations(organizationId);
+  const frameworks = await storage.getComplianceFrameworkNames(configs.map(config => config.id));
+  return frameworks.some(framework => framework.toLowerCase() === name.toLowerCase());
+}
+
+// Validates a triage request; the assignee has to be a member of the organization
+async function parseTriageDecision(organizationId: string, body: unknown): Promise<{ decision?: TriageDecision; error?: string }> {
+  const triage = triageSchema.parse(body);
+  if (triage.assigneeId && !(await storage.getOrganizationMember(organizationId, triage.assigneeId))) {
+    return { error: "The assignee is not a member of this organization" };
   }
-  
-  return next();
-};
+  return { decision: { ...triage, expiresAt: triage.expiresAt ? new Date(triage.expiresAt) : null } };
+}
+
+function parseMuteRule(body: unknown): MuteRuleValues {
+  const rule = muteRuleSchema.parse(body);
+  return { ...rule, expiresAt: rule.expiresAt ? new Date(rule.expiresAt) : null };
+}
+
+// Entries shown in the notification delivery log
+const NOTIFICATION_DELIVERY_LOG_LIMIT = 100;
+// Alerts shown in the alert history
+const ALERT_HISTORY_LIMIT = 100;
 
 // Validation schemas for user management
 const createUserSchema = z.object({
@@ -28,7 +175,7 @@ const createUserSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   password: z.string().min(1, "Password is required").min(6, "Password must be at least 6 characters"),
-  role: z.enum(["admin", "user"]).default("user"),
+  role: z.enum(userRoles).default("viewer"),
 });
 
 const updateUserSchema = z.object({
@@ -37,7 +184,7 @@ const updateUserSchema = z.object({
   firstName: z.string().min(1, "First name is required").optional(),
   lastName: z.string().min(1, "Last name is required").optional(),
   password: z.string().min(6, "Password must be at least 6 characters").optional(),
-  role: z.enum(["admin", "user"]).optional(),
+  role: z.enum(userRoles).optional(),
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -70,42 +217,259 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Prowler configuration routes
-  app.get('/api/prowler/configuration', isAuthenticated, async (req: any, res) => {
+  // Organization routes
+  app.get('/api/organizations', requirePermission("inventory:read"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const config = await storage.getProwlerConfiguration(userId);
-      
-      if (!config) {
-        return res.json(null);
+      const organizations = await storage.getOrganizationsForUser(req.user.id);
+
+      // The current organization may be one a global admin is visiting without being a member
+      if (!organizations.some(organization => organization.id === req.organization.id)) {
+        organizations.push({ ...req.organization, role: req.organizationRole });
       }
 
-      // Don't send password hash to client
-      const { prowlerPasswordHash, ...configWithoutPassword } = config;
-      res.json(configWithoutPassword);
+      res.json(organizations);
     } catch (error) {
-      console.error("Error fetching Prowler configuration:", error);
-      res.status(500).json({ message: "Failed to fetch configuration" });
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ message: "Failed to fetch organizations" });
     }
   });
 
-  app.post('/api/prowler/configuration', isAuthenticated, async (req: any, res) => {
+  app.get('/api/organizations/current', requirePermission("inventory:read"), async (req: any, res) => {
+    res.json({ ...req.organization, role: req.organizationRole, permissions: req.permissions });
+  });
+
+  app.post('/api/organizations', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
+      const validatedData = organizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(validatedData.name, req.user.id);
+
+      // Start working in the new organization straight away
+      req.session.organizationId = organization.id;
+      res.status(201).json({ ...organization, role: "owner" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating organization:", error);
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.post('/api/organizations/:id/switch', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const organization = await storage.getOrganization(req.params.id);
+      const member = organization && await storage.getOrganizationMember(organization.id, req.user.id);
+
+      if (!organization || (!member && user?.role !== "admin")) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      req.session.organizationId = organization.id;
+      res.json({ ...organization, role: user?.role === "admin" ? "owner" : member!.role });
+    } catch (error) {
+      console.error("Error switching organization:", error);
+      res.status(500).json({ message: "Failed to switch organization" });
+    }
+  });
+
+  app.put('/api/organizations/current', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const validatedData = organizationSchema.parse(req.body);
+      const organization = await storage.updateOrganization(req.organization.id, validatedData.name);
+      res.json({ ...organization, role: req.organizationRole });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating organization:", error);
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  app.delete('/api/organizations/current', requirePermission("organization:manage"), requireOrganizationRole("owner"), async (req: any, res) => {
+    try {
+      const configs = await storage.getProwlerConfigurations(req.organization.id);
+      if (configs.some(config => syncService.isRunning(config.id))) {
+        return res.status(409).json({ message: "Cannot delete an organization while one of its configurations is syncing" });
+      }
+
+      // Configurations and everything synced for them are removed with the organization
+      await storage.deleteOrganization(req.organization.id);
+      configs.forEach(config => prowlerService.invalidateToken(config.id));
+      delete req.session.organizationId;
+      res.json({ message: "Organization deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting organization:", error);
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.get('/api/organizations/current/members', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const members = await storage.getOrganizationMembers(req.organization.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching organization members:", error);
+      res.status(500).json({ message: "Failed to fetch organization members" });
+    }
+  });
+
+  app.post('/api/organizations/current/members', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const validatedData = addOrganizationMemberSchema.parse(req.body);
+
+      // Only owners can hand out ownership
+      if (validatedData.role === "owner" && req.organizationRole !== "owner") {
+        return res.status(403).json({ message: "Only owners can add owners" });
+      }
+
+      const user = await storage.getUserByUsername(validatedData.user)
+        ?? await storage.getUserByEmail(validatedData.user.toLowerCase());
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (await storage.getOrganizationMember(req.organization.id, user.id)) {
+        return res.status(400).json({ message: "User is already a member" });
+      }
+
+      const member = await storage.addOrganizationMember(req.organization.id, user.id, validatedData.role);
+      res.status(201).json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error adding organization member:", error);
+      res.status(500).json({ message: "Failed to add organization member" });
+    }
+  });
+
+  app.put('/api/organizations/current/members/:userId', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const validatedData = updateOrganizationMemberSchema.parse(req.body);
+      const members = await storage.getOrganizationMembers(req.organization.id);
+      const member = members.find(candidate => candidate.userId === req.params.userId);
+
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if ((member.role === "owner" || validatedData.role === "owner") && req.organizationRole !== "owner") {
+        return res.status(403).json({ message: "Only owners can change ownership" });
+      }
+
+      if (member.role === "owner" && validatedData.role !== "owner" && members.filter(candidate => candidate.role === "owner").length === 1) {
+        return res.status(400).json({ message: "An organization must keep at least one owner" });
+      }
+
+      const updated = await storage.updateOrganizationMemberRole(req.organization.id, member.userId, validatedData.role);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating organization member:", error);
+      res.status(500).json({ message: "Failed to update organization member" });
+    }
+  });
+
+  app.delete('/api/organizations/current/members/:userId', resolveOrganization, async (req: any, res) => {
+    try {
+      const members = await storage.getOrganizationMembers(req.organization.id);
+      const member = members.find(candidate => candidate.userId === req.params.userId);
+
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      // Anyone may leave; removing others requires admin rights, and owners can only be removed by owners
+      const isSelf = member.userId === req.user.id;
+      if (!isSelf && !req.permissions.includes("organization:manage")) {
+        return res.status(403).json({ message: "Organization admin access required" });
+      }
+      if (!isSelf && member.role === "owner" && req.organizationRole !== "owner") {
+        return res.status(403).json({ message: "Only owners can remove owners" });
+      }
+
+      if (member.role === "owner" && members.filter(candidate => candidate.role === "owner").length === 1) {
+        return res.status(400).json({ message: "An organization must keep at least one owner" });
+      }
+
+      await storage.removeOrganizationMember(req.organization.id, member.userId);
+      if (isSelf) {
+        delete req.session.organizationId;
+      }
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      console.error("Error removing organization member:", error);
+      res.status(500).json({ message: "Failed to remove organization member" });
+    }
+  });
+
+  // Prowler configuration routes
+  app.get('/api/prowler/configurations', requirePermission("configurations:read"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+      const configs = await storage.getProwlerConfigurations(organizationId);
+
+      // Don't send encrypted passwords to client
+      res.json(configs.map(withoutPassword));
+    } catch (error) {
+      console.error("Error fetching Prowler configurations:", error);
+      res.status(500).json({ message: "Failed to fetch configurations" });
+    }
+  });
+
+  app.post('/api/prowler/configurations', requirePermission("configurations:manage"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+
+      if (req.body?.sourceType && req.body.sourceType !== "api") {
+        const validatedData = fileSourceConfigurationSchema.parse(req.body);
+        // Uploaded data has nothing to sync on a schedule
+        let newConfig: NewProwlerConfiguration = { name: validatedData.name, sourceType: validatedData.sourceType, syncIntervalMinutes: null };
+
+        if (validatedData.sourceType === "directory") {
+          const directoryError = await getDirectoryError(validatedData.directoryPath);
+          if (directoryError) {
+            return res.status(400).json({ message: directoryError });
+          }
+          newConfig = { ...newConfig, directoryPath: validatedData.directoryPath, syncIntervalMinutes: WATCHED_SOURCE_INTERVAL_MINUTES };
+        } else if (validatedData.sourceType === "s3") {
+          if (!credentialService.isConfigured()) {
+            return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+          }
+          const { s3SecretAccessKey, ...bucket } = validatedData;
+          newConfig = {
+            ...newConfig,
+            ...bucket,
+            prowlerPasswordEncrypted: credentialService.encrypt(s3SecretAccessKey),
+            syncIntervalMinutes: WATCHED_SOURCE_INTERVAL_MINUTES,
+          };
+        }
+
+        const config = await storage.createProwlerConfiguration(organizationId, req.user.id, newConfig);
+        return res.status(201).json(withoutPassword(config));
+      }
+
       const validatedData = prowlerConfigurationSchema.parse(req.body);
+
+      if (!credentialService.isConfigured()) {
+        return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+      }
       
-      // Hash the password
-      const prowlerPasswordHash = await prowlerService.hashPassword(validatedData.prowlerPassword);
-      
-      const config = await storage.upsertProwlerConfiguration(userId, {
+      // Encrypt the password so it can be replayed to Prowler during sync
+      const prowlerPasswordEncrypted = credentialService.encrypt(validatedData.prowlerPassword);
+
+      const config = await storage.createProwlerConfiguration(organizationId, req.user.id, {
+        name: validatedData.name,
         prowlerUrl: validatedData.prowlerUrl,
         prowlerEmail: validatedData.prowlerEmail,
-        prowlerPasswordHash,
+        prowlerPasswordEncrypted,
       });
 
-      // Don't send password hash to client
-      const { prowlerPasswordHash: _, ...configWithoutPassword } = config;
-      res.json(configWithoutPassword);
+      res.status(201).json(withoutPassword(config));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -115,7 +479,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/prowler/test-connection', isAuthenticated, async (req: any, res) => {
+  app.put('/api/prowler/configurations/:id', requirePermission("configurations:manage"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+      const config = await storage.getProwlerConfiguration(organizationId, req.params.id);
+
+      if (!config) {
+        return res.status(404).json({ message: "Prowler configuration not found" });
+      }
+
+      if (config.sourceType !== "api") {
+        const { s3SecretAccessKey, ...validatedData } = updateFileSourceConfigurationSchema.parse(req.body);
+        const updateData: Partial<NewProwlerConfiguration> = { ...validatedData };
+
+        if (validatedData.directoryPath) {
+          const directoryError = await getDirectoryError(validatedData.directoryPath);
+          if (directoryError) {
+            return res.status(400).json({ message: directoryError });
+          }
+        }
+
+        if (s3SecretAccessKey) {
+          if (!credentialService.isConfigured()) {
+            return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+          }
+          updateData.prowlerPasswordEncrypted = credentialService.encrypt(s3SecretAccessKey);
+        }
+
+        const updated = await storage.updateProwlerConfiguration(config.id, updateData);
+        return res.json(withoutPassword(updated));
+      }
+
+      const { prowlerPassword, ...validatedData } = updateProwlerConfigurationSchema.parse(req.body);
+      const updateData: Parameters<typeof storage.updateProwlerConfiguration>[1] = { ...validatedData };
+
+      if (prowlerPassword) {
+        if (!credentialService.isConfigured()) {
+          return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+        }
+        updateData.prowlerPasswordEncrypted = credentialService.encrypt(prowlerPassword);
+      }
+
+      // Cached Prowler tokens are only valid for the credentials they were issued for
+      if (prowlerPassword || validatedData.prowlerUrl || validatedData.prowlerEmail) {
+        prowlerService.invalidateToken(config.id);
+      }
+
+      const updated = await storage.updateProwlerConfiguration(config.id, updateData);
+      res.json(withoutPassword(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating Prowler configuration:", error);
+      res.status(500).json({ message: "Failed to update configuration" });
+    }
+  });
+
+  app.delete('/api/prowler/configurations/:id', requirePermission("configurations:manage"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+      const config = await storage.getProwlerConfiguration(organizationId, req.params.id);
+
+      if (!config) {
+        return res.status(404).json({ message: "Prowler configuration not found" });
+      }
+
+      if (syncService.isRunning(config.id)) {
+        return res.status(409).json({ message: "Cannot delete a configuration while it is syncing" });
+      }
+
+      // Assets, findings, snapshots and sync history are removed with the configuration
+      await storage.deleteProwlerConfiguration(config.id);
+      prowlerService.invalidateToken(config.id);
+      res.json({ message: "Configuration deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting Prowler configuration:", error);
+      res.status(500).json({ message: "Failed to delete configuration" });
+    }
+  });
+
+  app.put('/api/prowler/configurations/:id/schedule', requirePermission("configurations:manage"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+      const config = await storage.getProwlerConfiguration(organizationId, req.params.id);
+
+      if (!config) {
+        return res.status(404).json({ message: "Prowler configuration not found" });
+      }
+
+      if (config.sourceType === "upload") {
+        return res.status(400).json({ message: "Upload configurations are not synced on a schedule" });
+      }
+
+      const schedule = syncScheduleSchema.parse(req.body);
+      const updated = await storage.updateConfigurationSchedule(config.id, schedule, computeNextSyncAt(schedule));
+
+      res.json(withoutPassword(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating sync schedule:", error);
+      res.status(500).json({ message: "Failed to update sync schedule" });
+    }
+  });
+
+  app.get('/api/prowler/configurations/:id/sync-jobs', requirePermission("configurations:read"), async (req: any, res) => {
+    try {
+      const organizationId = req.organization.id;
+      const config = await storage.getProwlerConfiguration(organizationId, req.params.id);
+
+      if (!config) {
+        return res.status(404).json({ message: "Prowler configuration not found" });
+      }
+
+      const jobs = await storage.getSyncJobs(config.id);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching sync jobs:", error);
+      res.status(500).json({ message: "Failed to fetch sync jobs" });
+    }
+  });
+
+  // The body is the raw file; the client sends it as application/octet-stream so express.json leaves it alone
+  app.post(
+    '/api/prowler/configurations/:id/upload',
+    requirePermission("inventory:sync"),
+    express.raw({ type: "application/octet-stream", limit: UPLOAD_SIZE_LIMIT }),
+    async (req: any, res) => {
+      try {
+        const organizationId = req.organization.id;
+        const config = await storage.getProwlerConfiguration(organizationId, req.params.id);
+
+        if (!config) {
+          return res.status(404).json({ message: "Prowler configuration not found" });
+        }
+
+        if (config.sourceType !== "upload") {
+          return res.status(400).json({ message: "Files can only be uploaded to upload configurations" });
+        }
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const result = await syncService.importFile(config, req.body);
+
+        if (result.alreadyRunning) {
+          return res.status(409).json({ message: result.error });
+        }
+
+        if (!result.success) {
+          return res.status(400).json({ message: result.error || "Failed to import the file" });
+        }
+
+        res.json({
+          message: "Import completed",
+          resourceCount: result.resourceCount,
+          findingCount: result.findingCount,
+        });
+      } catch (error) {
+        console.error("Error importing Prowler output:", error);
+        res.status(500).json({ message: "Failed to import Prowler output" });
+      }
+    },
+  );
+
+  app.post('/api/prowler/test-source', requirePermission("configurations:manage"), async (req: any, res) => {
+    try {
+      const validatedData = fileSourceConfigurationSchema.parse(req.body);
+
+      if (validatedData.sourceType === "upload") {
+        return res.status(400).json({ message: "Upload configurations have no source to test" });
+      }
+
+      res.json(await fileSourceService.testSource(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error testing file source:", error);
+      res.status(500).json({ message: "Failed to test source" });
+    }
+  });
+
+  app.post('/api/prowler/test-connection', requirePermission("configurations:manage"), async (req: any, res) => {
     try {
       const validatedData = prowlerConfigurationSchema.parse(req.body);
       
@@ -136,7 +685,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User management routes
-  app.get('/api/users', isAdmin, async (req: any, res) => {
+  app.get('/api/users', requirePermission("users:manage"), async (req: any, res) => {
     try {
       const users = await storage.getAllUsers();
       // Don't send password hashes to client
@@ -151,7 +700,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/users', isAdmin, async (req: any, res) => {
+  app.post('/api/users', requirePermission("users:manage"), async (req: any, res) => {
     try {
       const validatedData = createUserSchema.parse(req.body);
       
@@ -190,7 +739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/users/:id', isAdmin, async (req: any, res) => {
+  app.put('/api/users/:id', requirePermission("users:manage"), async (req: any, res) => {
     try {
       const { id } = req.params;
       const validatedData = updateUserSchema.parse(req.body);
@@ -240,7 +789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/users/:id', isAdmin, async (req: any, res) => {
+  app.delete('/api/users/:id', requirePermission("users:manage"), async (req: any, res) => {
     try {
       const { id } = req.params;
       
@@ -263,70 +812,954 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Asset/Resource routes
-  app.get('/api/assets', isAuthenticated, async (req: any, res) => {
+  // Re-encrypt every stored Prowler credential with the current master key
+  app.post('/api/admin/credentials/rotate', requirePermission("credentials:rotate"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const config = await storage.getProwlerConfiguration(userId);
-      
-      if (!config) {
-        return res.status(404).json({ message: "No Prowler configuration found" });
+      const counts = {
+        configurations: { rotated: 0, failed: 0 },
+        notificationChannels: { rotated: 0, failed: 0 },
+        emailSettings: { rotated: 0, failed: 0 },
+      };
+
+      // Every stored secret is re-encrypted now, so the retired key can be dropped without waiting for each one to be used
+      const rotate = async (kind: keyof typeof counts, label: string, payload: string | null, save: (encrypted: string) => Promise<unknown>) => {
+        if (!payload || !credentialService.needsRotation(payload)) {
+          return;
+        }
+
+        try {
+          await save(credentialService.encrypt(credentialService.decrypt(payload)));
+          counts[kind].rotated++;
+        } catch (error) {
+          console.error(`Failed to rotate credentials for ${label}:`, error);
+          counts[kind].failed++;
+        }
+      };
+
+      for (const config of await storage.getAllProwlerConfigurations()) {
+        await rotate("configurations", `configuration ${config.id}`, config.prowlerPasswordEncrypted,
+          encrypted => storage.updateConfigurationCredentials(config.id, encrypted));
+      }
+      for (const channel of await storage.getAllNotificationChannels()) {
+        await rotate("notificationChannels", `notification channel ${channel.id}`, channel.secretEncrypted,
+          encrypted => storage.updateNotificationChannel(channel.id, { secretEncrypted: encrypted }));
+      }
+      const smtp = await storage.getEmailSettings();
+      if (smtp) {
+        const { id, updatedAt, ...settings } = smtp;
+        await rotate("emailSettings", "the SMTP password", smtp.passwordEncrypted,
+          encrypted => storage.saveEmailSettings({ ...settings, passwordEncrypted: encrypted }));
       }
 
-      const { resourceType, status, severity, search } = req.query;
-      
-      const assets = await storage.getAssets(config.id, {
-        resourceType: resourceType as string,
-        status: status as string,
-        severity: severity as string,
-        search: search as string,
+      const totals = Object.values(counts);
+      res.json({
+        rotated: totals.reduce((sum, count) => sum + count.rotated, 0),
+        failed: totals.reduce((sum, count) => sum + count.failed, 0),
+        ...counts,
       });
-
-      res.json(assets);
     } catch (error) {
-      console.error("Error fetching assets:", error);
-      res.status(500).json({ message: "Failed to fetch assets" });
+      console.error("Error rotating credentials:", error);
+      res.status(500).json({ message: "Failed to rotate credentials" });
     }
   });
 
-  app.get('/api/assets/stats', isAuthenticated, async (req: any, res) => {
+  // SMTP server for email notifications, shared by every organization
+  app.get('/api/admin/email-settings', requirePermission("settings:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const config = await storage.getProwlerConfiguration(userId);
-      
-      if (!config) {
-        return res.status(404).json({ message: "No Prowler configuration found" });
-      }
-
-      const stats = await storage.getAssetStats(config.id);
-      res.json(stats);
+      const settings = await storage.getEmailSettings();
+      res.json(settings ? withoutSmtpPassword(settings) : null);
     } catch (error) {
-      console.error("Error fetching asset stats:", error);
-      res.status(500).json({ message: "Failed to fetch asset stats" });
+      console.error("Error fetching email settings:", error);
+      res.status(500).json({ message: "Failed to fetch email settings" });
     }
   });
 
-  app.post('/api/assets/sync', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/email-settings', requirePermission("settings:manage"), async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const config = await storage.getProwlerConfiguration(userId);
-      
-      if (!config) {
-        return res.status(404).json({ message: "No Prowler configuration found" });
+      const { password, username, ...validatedData } = emailSettingsSchema.parse(req.body);
+      const existing = await storage.getEmailSettings();
+
+      let passwordEncrypted = existing?.passwordEncrypted ?? null;
+      if (password === null) {
+        passwordEncrypted = null;
+      } else if (password) {
+        if (!credentialService.isConfigured()) {
+          return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+        }
+        passwordEncrypted = credentialService.encrypt(password);
       }
 
-      // Note: In production, we would need to decrypt the stored password
-      // For now, we'll return an error asking user to reconfigure
-      res.status(400).json({ 
-        message: "Please reconfigure your Prowler connection to sync data",
-        requiresReconfiguration: true 
+      const settings = await storage.saveEmailSettings({
+        ...validatedData,
+        username: username || null,
+        passwordEncrypted,
+        updatedBy: req.user.id,
       });
+      res.json(withoutSmtpPassword(settings));
     } catch (error) {
-      console.error("Error syncing assets:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error saving email settings:", error);
+      res.status(500).json({ message: "Failed to save email settings" });
+    }
+  });
+
+  // Sends a test email to the signed-in administrator using the saved settings
+  app.post('/api/admin/email-settings/test', requirePermission("settings:manage"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const result = await emailService.sendTest(user!.email);
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending test email:", error);
+      res.status(500).json({ message: "Failed to send test email" });
+    }
+  });
+
+  // Asset/Resource routes
+  app.get('/api/assets', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const query = assetQuerySchema.parse(req.query);
+      const page = await storage.getAssets(configs.map(config => config.id), query);
+
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching assets:", error);
+      res.status(500).json({ message: "Failed to fetch assets" });
+    }
+  });
+
+  app.get('/api/assets/facets', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const filters = assetFilterSchema.parse(req.query);
+      const facets = await storage.getAssetFacets(configs.map(config => config.id), filters);
+
+      res.json(facets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching asset facets:", error);
+      res.status(500).json({ message: "Failed to fetch asset facets" });
+    }
+  });
+
+  app.get('/api/assets/export', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const query = assetExportQuerySchema.parse(req.query);
+      const batches = storage.iterateAssets(configs.map(config => config.id), query);
+      const configurationNames = new Map(configs.map(config => [config.id, config.name]));
+
+      await exportService.writeAssets(res, query.format, batches, configurationNames);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error exporting assets:", error);
+      // Once streaming has started the status can't change, so cut the download short instead
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.removeHeader("Content-Disposition");
+      res.status(500).json({ message: "Failed to export assets" });
+    }
+  });
+
+  app.get('/api/assets/stats', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const { includeSuppressed } = statsQuerySchema.parse(req.query);
+      const stats = await storage.getAssetStats(configs.map(config => config.id), { includeSuppressed });
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching asset stats:", error);
+      res.status(500).json({ message: "Failed to fetch asset stats" });
+    }
+  });
+
+  app.get('/api/assets/stats/history', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const query = statsHistoryQuerySchema.parse(req.query);
+      const to = query.to || new Date().toISOString().slice(0, 10);
+      const from = query.from || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+      const history = await storage.getPostureHistory(configs.map(config => config.id), from, to, query.granularity);
+      res.json(history);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching asset stats history:", error);
+      res.status(500).json({ message: "Failed to fetch asset stats history" });
+    }
+  });
+
+  app.post('/api/assets/sync', requirePermission("inventory:sync"), async (req: any, res) => {
+    try {
+      const scopedConfigs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      
+      if (scopedConfigs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      // Upload configurations have nothing to pull; they change when a new file is uploaded
+      const configs = scopedConfigs.filter(config => config.sourceType !== "upload");
+      if (configs.length === 0) {
+        return res.status(400).json({ message: "Upload configurations are updated by uploading Prowler output files" });
+      }
+
+      // Large inventories take longer than proxies keep a request open, so the syncs run in the background;
+      // the client follows them through /api/prowler/configurations/:id/sync-jobs
+      const started = await syncService.startSyncs(configs, "manual");
+      if (started.length === 0) {
+        return res.status(409).json({ message: "A sync is already running for these configurations" });
+      }
+
+      const response: StartedSyncs = {
+        message: started.length < configs.length ? "Sync started; some configurations were already syncing" : "Sync started",
+        jobs: started.map(({ config, job }) => ({ configurationId: config.id, configurationName: config.name, jobId: job.id })),
+      };
+      res.status(202).json(response);
+    } catch (error) {
+      console.error("Error syncing assets:", error);
       res.status(500).json({ message: "Failed to sync assets" });
     }
   });
 
+  // Registered after the fixed /api/assets/* paths so they are not captured as ids
+  app.get('/api/assets/:id', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      // Assets of disabled configurations remain reachable by direct link
+      const configs = await storage.getProwlerConfigurations(req.organization.id);
+      const asset = await storage.getAsset(configs.map(config => config.id), req.params.id);
+
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      const [findings, statusHistory, triageHistory] = await Promise.all([
+        storage.getAssetFindings(asset.configurationId, asset.id),
+        storage.getAssetChanges(asset.id),
+        storage.getTriageEvents(asset.id),
+      ]);
+
+      const detail: AssetDetail = { asset, findings, statusHistory, triageHistory, tags: asset.tags || {} };
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching asset:", error);
+      res.status(500).json({ message: "Failed to fetch asset" });
+    }
+  });
+
+  app.put('/api/assets/:id/triage', requirePermission("findings:triage"), async (req: any, res) => {
+    try {
+      const { decision, error } = await parseTriageDecision(req.organization.id, req.body);
+      if (!decision) {
+        return res.status(400).json({ message: error });
+      }
+
+      const configs = await storage.getProwlerConfigurations(req.organization.id);
+      const asset = await storage.triageAsset(configs.map(config => config.id), req.params.id, decision, req.user.id);
+
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      res.json(asset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error triaging asset:", error);
+      res.status(500).json({ message: "Failed to triage asset" });
+    }
+  });
+
+  // Finding routes
+  app.get('/api/findings', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const query = findingQuerySchema.parse(req.query);
+      const page = await storage.getFindings(configs.map(config => config.id), query);
+
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching findings:", error);
+      res.status(500).json({ message: "Failed to fetch findings" });
+    }
+  });
+
+  app.get('/api/findings/checks', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const checks = await storage.getCheckSummaries(configs.map(config => config.id));
+      res.json(checks);
+    } catch (error) {
+      console.error("Error fetching check summaries:", error);
+      res.status(500).json({ message: "Failed to fetch check summaries" });
+    }
+  });
+
+  app.put('/api/findings/:id/triage', requirePermission("findings:triage"), async (req: any, res) => {
+    try {
+      const { decision, error } = await parseTriageDecision(req.organization.id, req.body);
+      if (!decision) {
+        return res.status(400).json({ message: error });
+      }
+
+      const configs = await storage.getProwlerConfigurations(req.organization.id);
+      const finding = await storage.triageFinding(configs.map(config => config.id), req.params.id, decision, req.user.id);
+
+      if (!finding) {
+        return res.status(404).json({ message: "Finding not found" });
+      }
+      res.json(finding);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error triaging finding:", error);
+      res.status(500).json({ message: "Failed to triage finding" });
+    }
+  });
+
+  // Mute rule routes
+  app.get('/api/mute-rules', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const rules = await storage.getMuteRules(req.organization.id);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching mute rules:", error);
+      res.status(500).json({ message: "Failed to fetch mute rules" });
+    }
+  });
+
+  app.post('/api/mute-rules', requirePermission("findings:triage"), async (req: any, res) => {
+    try {
+      const rule = await storage.createMuteRule(req.organization.id, req.user.id, parseMuteRule(req.body));
+      // Existing findings are muted right away rather than at the next sync
+      await storage.applyMuteRules(req.organization.id);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating mute rule:", error);
+      res.status(500).json({ message: "Failed to create mute rule" });
+    }
+  });
+
+  app.put('/api/mute-rules/:id', requirePermission("findings:triage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getMuteRule(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Mute rule not found" });
+      }
+
+      const rule = await storage.updateMuteRule(existing.id, req.user.id, parseMuteRule(req.body));
+      await storage.applyMuteRules(req.organization.id);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating mute rule:", error);
+      res.status(500).json({ message: "Failed to update mute rule" });
+    }
+  });
+
+  app.delete('/api/mute-rules/:id', requirePermission("findings:triage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getMuteRule(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Mute rule not found" });
+      }
+
+      await storage.deleteMuteRule(existing.id, req.user.id);
+      // Findings it muted may match a later rule
+      await storage.applyMuteRules(req.organization.id);
+      res.json({ message: "Mute rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting mute rule:", error);
+      res.status(500).json({ message: "Failed to delete mute rule" });
+    }
+  });
+
+  app.get('/api/mute-rules/:id/versions', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const versions = await storage.getMuteRuleVersions(req.organization.id, req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching mute rule versions:", error);
+      res.status(500).json({ message: "Failed to fetch mute rule versions" });
+    }
+  });
+
+  // Email digest subscriptions of the signed-in user in the active organization
+  app.get('/api/profile/email-subscriptions', resolveOrganization, async (req: any, res) => {
+    try {
+      const eventTypes = await storage.getEmailSubscriptions(req.user.id, req.organization.id);
+      res.json({ eventTypes });
+    } catch (error) {
+      console.error("Error fetching email subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch email subscriptions" });
+    }
+  });
+
+  app.put('/api/profile/email-subscriptions', resolveOrganization, async (req: any, res) => {
+    try {
+      const { eventTypes } = emailSubscriptionsSchema.parse(req.body);
+      const saved = await storage.setEmailSubscriptions(req.user.id, req.organization.id, eventTypes);
+      res.json({ eventTypes: saved });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error saving email subscriptions:", error);
+      res.status(500).json({ message: "Failed to save email subscriptions" });
+    }
+  });
+
+  // Emails the user's digest right away so they can preview it
+  app.post('/api/profile/digest', resolveOrganization, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const eventTypes = await storage.getEmailSubscriptions(req.user.id, req.organization.id);
+      if (!user || eventTypes.length === 0) {
+        return res.status(400).json({ message: "Subscribe to at least one digest section first" });
+      }
+
+      const result = await digestService.sendDigestTo(req.organization, { ...user, eventTypes });
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending digest:", error);
+      res.status(500).json({ message: "Failed to send digest" });
+    }
+  });
+
+  // Notification channel routes
+  app.get('/api/notifications/channels', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const channels = await storage.getNotificationChannels(req.organization.id);
+      res.json(channels.map(withoutSecret));
+    } catch (error) {
+      console.error("Error fetching notification channels:", error);
+      res.status(500).json({ message: "Failed to fetch notification channels" });
+    }
+  });
+
+  app.post('/api/notifications/channels', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const { secret, ...channelData } = notificationChannelSchema.parse(req.body);
+
+      if (secret && !credentialService.isConfigured()) {
+        return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+      }
+
+      const channel = await storage.createNotificationChannel({
+        ...channelData,
+        organizationId: req.organization.id,
+        secretEncrypted: secret ? credentialService.encrypt(secret) : null,
+        createdBy: req.user.id,
+      });
+      res.status(201).json(withoutSecret(channel));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating notification channel:", error);
+      res.status(500).json({ message: "Failed to create notification channel" });
+    }
+  });
+
+  app.put('/api/notifications/channels/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getNotificationChannel(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      const { secret, ...channelData } = updateNotificationChannelSchema.parse(req.body);
+      const updateData: Partial<NewNotificationChannel> = { ...channelData };
+
+      if (secret === null) {
+        updateData.secretEncrypted = null;
+      } else if (secret) {
+        if (!credentialService.isConfigured()) {
+          return res.status(500).json({ message: "Credential encryption is not configured on the server" });
+        }
+        updateData.secretEncrypted = credentialService.encrypt(secret);
+      }
+
+      const channel = await storage.updateNotificationChannel(existing.id, updateData);
+      res.json(withoutSecret(channel));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating notification channel:", error);
+      res.status(500).json({ message: "Failed to update notification channel" });
+    }
+  });
+
+  app.delete('/api/notifications/channels/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getNotificationChannel(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      await storage.deleteNotificationChannel(existing.id);
+      res.json({ message: "Notification channel deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting notification channel:", error);
+      res.status(500).json({ message: "Failed to delete notification channel" });
+    }
+  });
+
+  // Sends a test event and waits for the receiver's answer
+  app.post('/api/notifications/channels/:id/test', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const channel = await storage.getNotificationChannel(req.organization.id, req.params.id);
+      if (!channel) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      const delivery = await notificationService.sendTest(channel);
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+
+  app.get('/api/notifications/deliveries', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const deliveries = await storage.getNotificationDeliveries(req.organization.id, NOTIFICATION_DELIVERY_LOG_LIMIT);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch notification deliveries" });
+    }
+  });
+
+  // Compliance routes
+  app.get('/api/compliance', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      const frameworks = await complianceService.getFrameworkScores(req.organization.id, configs.map(config => config.id));
+      res.json(frameworks);
+    } catch (error) {
+      console.error("Error fetching compliance frameworks:", error);
+      res.status(500).json({ message: "Failed to fetch compliance frameworks" });
+    }
+  });
+
+  app.get('/api/compliance/frameworks/:framework', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      const framework = await complianceService.getFramework(configs.map(config => config.id), req.params.framework);
+      if (!framework) {
+        return res.status(404).json({ message: "Compliance framework not found" });
+      }
+      res.json(framework);
+    } catch (error) {
+      console.error("Error fetching compliance framework:", error);
+      res.status(500).json({ message: "Failed to fetch compliance framework" });
+    }
+  });
+
+  // Failing resources behind one requirement
+  app.get('/api/compliance/frameworks/:framework/requirements/:requirementId/findings', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      const findings = await complianceService.getFailingFindings(configs.map(config => config.id), req.params.framework, req.params.requirementId);
+      res.json(findings);
+    } catch (error) {
+      console.error("Error fetching compliance findings:", error);
+      res.status(500).json({ message: "Failed to fetch compliance findings" });
+    }
+  });
+
+  // Control framework routes
+  app.get('/api/compliance/custom-frameworks', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const frameworks = await storage.getControlFrameworks(req.organization.id);
+      res.json(frameworks);
+    } catch (error) {
+      console.error("Error fetching control frameworks:", error);
+      res.status(500).json({ message: "Failed to fetch control frameworks" });
+    }
+  });
+
+  app.post('/api/compliance/custom-frameworks', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const { framework: frameworkData, error } = parseControlFramework(req.body);
+      if (!frameworkData) {
+        return res.status(400).json({ message: error });
+      }
+      if (await storage.getControlFrameworkByName(req.organization.id, frameworkData.name)) {
+        return res.status(409).json({ message: "A control framework with this name already exists" });
+      }
+      if (await isBuiltInFrameworkName(req.organization.id, frameworkData.name)) {
+        return res.status(409).json({ message: `${frameworkData.name} is a built-in compliance framework; choose another name` });
+      }
+
+      const { controls, ...values } = frameworkData;
+      const framework = await storage.createControlFramework({ ...values, organizationId: req.organization.id, createdBy: req.user.id }, controls);
+      res.status(201).json(framework);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating control framework:", error);
+      res.status(500).json({ message: "Failed to create control framework" });
+    }
+  });
+
+  // Creates the framework, or replaces the controls of the one with the same name
+  app.post('/api/compliance/custom-frameworks/import', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const { content } = controlFrameworkImportSchema.parse(req.body);
+      let document: unknown;
+      try {
+        document = parseYaml(content);
+      } catch (parseError) {
+        return res.status(400).json({ message: `Not a valid YAML or JSON document: ${parseError instanceof Error ? parseError.message : parseError}` });
+      }
+
+      const { framework: frameworkData, error } = parseControlFramework(document);
+      if (!frameworkData) {
+        return res.status(400).json({ message: error });
+      }
+
+      if (await isBuiltInFrameworkName(req.organization.id, frameworkData.name)) {
+        return res.status(409).json({ message: `${frameworkData.name} is a built-in compliance framework; choose another name` });
+      }
+
+      const { controls, ...values } = frameworkData;
+      const existing = await storage.getControlFrameworkByName(req.organization.id, frameworkData.name);
+      if (existing) {
+        const framework = await storage.updateControlFramework(existing.id, values, controls);
+        return res.json(framework);
+      }
+      const framework = await storage.createControlFramework({ ...values, organizationId: req.organization.id, createdBy: req.user.id }, controls);
+      res.status(201).json(framework);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error importing control framework:", error);
+      res.status(500).json({ message: "Failed to import control framework" });
+    }
+  });
+
+  app.put('/api/compliance/custom-frameworks/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getControlFramework(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Control framework not found" });
+      }
+
+      const { framework: frameworkData, error } = parseControlFramework(req.body);
+      if (!frameworkData) {
+        return res.status(400).json({ message: error });
+      }
+      const sameName = await storage.getControlFrameworkByName(req.organization.id, frameworkData.name);
+      if (sameName && sameName.id !== existing.id) {
+        return res.status(409).json({ message: "A control framework with this name already exists" });
+      }
+      if (await isBuiltInFrameworkName(req.organization.id, frameworkData.name)) {
+        return res.status(409).json({ message: `${frameworkData.name} is a built-in compliance framework; choose another name` });
+      }
+
+      const { controls, ...values } = frameworkData;
+      const framework = await storage.updateControlFramework(existing.id, values, controls);
+      res.json(framework);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating control framework:", error);
+      res.status(500).json({ message: "Failed to update control framework" });
+    }
+  });
+
+  app.delete('/api/compliance/custom-frameworks/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getControlFramework(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Control framework not found" });
+      }
+
+      await storage.deleteControlFramework(existing.id);
+      res.json({ message: "Control framework deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting control framework:", error);
+      res.status(500).json({ message: "Failed to delete control framework" });
+    }
+  });
+
+  app.get('/api/compliance/custom-frameworks/:id/export', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const { format } = controlFrameworkExportQuerySchema.parse(req.query);
+      const framework = await storage.getControlFramework(req.organization.id, req.params.id);
+      if (!framework) {
+        return res.status(404).json({ message: "Control framework not found" });
+      }
+
+      const document = toControlFrameworkDocument(framework);
+      const filename = framework.name.replace(/[^A-Za-z0-9._-]+/g, "-").toLowerCase() || "framework";
+      res.setHeader("Content-Type", format === "json" ? "application/json" : "application/yaml");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+      res.send(format === "json" ? JSON.stringify(document, null, 2) : stringifyYaml(document));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error exporting control framework:", error);
+      res.status(500).json({ message: "Failed to export control framework" });
+    }
+  });
+
+  app.get('/api/compliance/custom-frameworks/:id/score', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const framework = await storage.getControlFramework(req.organization.id, req.params.id);
+      if (!framework) {
+        return res.status(404).json({ message: "Control framework not found" });
+      }
+
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      res.json(await complianceService.getCustomFramework(configs.map(config => config.id), framework));
+    } catch (error) {
+      console.error("Error scoring control framework:", error);
+      res.status(500).json({ message: "Failed to score control framework" });
+    }
+  });
+
+  // Failing resources behind one control
+  app.get('/api/compliance/custom-frameworks/:id/controls/:controlId/findings', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const framework = await storage.getControlFramework(req.organization.id, req.params.id);
+      const control = framework?.controls.find(control => control.controlId === req.params.controlId);
+      if (!control) {
+        return res.status(404).json({ message: "Control not found" });
+      }
+
+      const configs = await getScopedConfigurations(req.organization.id, req.query.configurationId);
+      res.json(await complianceService.getCustomFailingFindings(configs.map(config => config.id), control));
+    } catch (error) {
+      console.error("Error fetching control findings:", error);
+      res.status(500).json({ message: "Failed to fetch control findings" });
+    }
+  });
+
+  // Alert routes
+  app.get('/api/alerts', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const alerts = await storage.getAlerts(req.organization.id, ALERT_HISTORY_LIMIT);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.get('/api/alerts/rules', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const rules = await storage.getAlertRules(req.organization.id);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching alert rules:", error);
+      res.status(500).json({ message: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.post('/api/alerts/rules', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const { rule: ruleData, error } = await parseAlertRule(req.organization.id, req.body);
+      if (!ruleData) {
+        return res.status(400).json({ message: error });
+      }
+
+      const rule = await storage.createAlertRule({ ...ruleData, organizationId: req.organization.id, createdBy: req.user.id });
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating alert rule:", error);
+      res.status(500).json({ message: "Failed to create alert rule" });
+    }
+  });
+
+  app.put('/api/alerts/rules/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getAlertRule(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      const { rule: ruleData, error } = await parseAlertRule(req.organization.id, req.body);
+      if (!ruleData) {
+        return res.status(400).json({ message: error });
+      }
+
+      const rule = await storage.updateAlertRule(existing.id, ruleData);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating alert rule:", error);
+      res.status(500).json({ message: "Failed to update alert rule" });
+    }
+  });
+
+  app.delete('/api/alerts/rules/:id', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const existing = await storage.getAlertRule(req.organization.id, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      await storage.deleteAlertRule(existing.id);
+      res.json({ message: "Alert rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ message: "Failed to delete alert rule" });
+    }
+  });
+
+  // What the rule matches against the current data, without alerting
+  app.get('/api/alerts/rules/:id/preview', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const rule = await storage.getAlertRule(req.organization.id, req.params.id);
+      if (!rule) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+
+      const preview = await alertService.preview(rule);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing alert rule:", error);
+      res.status(500).json({ message: "Failed to preview alert rule" });
+    }
+  });
+
+  // Executive report routes
+  app.get('/api/reports', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const reports = await storage.getReports(req.organization.id);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  app.post('/api/reports', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const configs = await getScopedConfigurations(req.organization.id);
+      
+      if (configs.length === 0) {
+        return res.status(404).json({ message: "No Prowler configuration found" });
+      }
+
+      const { frequency } = generateReportSchema.parse(req.body);
+      const report = await reportService.generateReport(req.organization, frequency, "manual", req.user.id);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error generating report:", error);
+      res.status(500).json({ message: "Failed to generate report" });
+    }
+  });
+
+  app.put('/api/reports/schedule', requirePermission("organization:manage"), async (req: any, res) => {
+    try {
+      const { reportFrequency } = reportScheduleSchema.parse(req.body);
+      const organization = await storage.updateReportSchedule(
+        req.organization.id,
+        reportFrequency,
+        computeNextReportAt(reportFrequency),
+      );
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating report schedule:", error);
+      res.status(500).json({ message: "Failed to update report schedule" });
+    }
+  });
+
+  app.get('/api/reports/:id/download', requirePermission("inventory:read"), async (req: any, res) => {
+    try {
+      const report = await storage.getReport(req.organization.id, req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="compliance-report-${report.periodEnd}.pdf"`);
+      res.send(report.content);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,160 @@
+import type {
+  Alert,
+  AlertRule,
+  AlertRulePreview,
+  AssetStats,
+  AlertMetric,
+  NotificationEvent,
+  NotificationFinding,
+  ProwlerConfiguration,
+} from "@shared/schema";
+import { describeAlertRule } from "@shared/alerts";
+import { storage } from "../storage";
+import { emailService } from "./emailService";
+import { renderAlertEmail } from "./emailTemplates";
+import { notificationService } from "./notificationService";
+
+// Alerts list at most this many findings, like sync events
+const MAX_ALERT_FINDINGS = 50;
+// Fingerprint a metric rule records while its threshold is crossed
+const METRIC_FINGERPRINT = 'metric';
+
+type AlertEvent = NotificationEvent & { type: 'alert.triggered' };
+type RuleMatches = { fingerprints: string[]; findings: NotificationFinding[]; value: number | null };
+
+function metricValue(metric: AlertMetric, stats: AssetStats): number | null {
+  switch (metric) {
+    case 'compliance_ratio':
+      // An empty inventory has no ratio to alert on
+      return stats.totalResources > 0 ? Math.round((stats.compliantResources / stats.totalResources) * 1000) / 10 : null;
+    case 'critical_issues':
+      return stats.criticalIssues;
+    case 'non_compliant_resources':
+      return stats.totalResources - stats.compliantResources;
+  }
+}
+
+/**
+ * Evaluates the organization's alert rules after each sync. A rule alerts once
+ * per finding (or once per threshold crossing) until the match goes away, at
+ * most once per cooldown window, and routes the alert to its webhook channels
+ * and email recipients.
+ */
+export class AlertService {
+  async evaluateAfterSync(config: ProwlerConfiguration): Promise<void> {
+    if (!config.organizationId) {
+      return;
+    }
+
+    try {
+      const rules = await storage.getActiveAlertRules(config.organizationId, config.id);
+      for (const rule of rules) {
+        try {
+          await this.evaluate(rule);
+        } catch (error) {
+          console.error(`[alerts] failed to evaluate rule ${rule.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`[alerts] failed to evaluate rules for configuration ${config.id}:`, error);
+    }
+  }
+
+  // Returns the alert that was sent, or null when there was nothing new or the rule is cooling down
+  async evaluate(rule: AlertRule, now: Date = new Date()): Promise<Alert | null> {
+    const configs = await this.getConfigurations(rule);
+    const matches = await this.match(rule, configs);
+
+    const recorded = new Set(await storage.getAlertRuleMatches(rule.id));
+    const current = new Set(matches.fingerprints);
+    await storage.removeAlertRuleMatches(rule.id, Array.from(recorded).filter(fingerprint => !current.has(fingerprint)));
+
+    const fresh = matches.fingerprints.filter(fingerprint => !recorded.has(fingerprint));
+    if (fresh.length === 0) {
+      return null;
+    }
+    // New matches stay unrecorded during the cooldown, so the first evaluation after it reports them
+    if (rule.lastTriggeredAt && now.getTime() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000) {
+      return null;
+    }
+
+    await storage.addAlertRuleMatches(rule.id, fresh);
+    await storage.setAlertRuleLastTriggeredAt(rule.id, now);
+
+    const freshIds = new Set(fresh);
+    const freshFindings = matches.findings.filter(finding => freshIds.has(finding.id));
+    const scope = rule.configurationId ? configs[0] : undefined;
+    const event: AlertEvent = {
+      type: 'alert.triggered',
+      organizationId: rule.organizationId,
+      configuration: scope ? { id: scope.id, name: scope.name } : null,
+      occurredAt: now.toISOString(),
+      rule: { id: rule.id, name: rule.name, expression: describeAlertRule(rule) },
+      ...(rule.kind === 'metric'
+        ? { metric: { ...rule.metric!, value: matches.value! }, total: 1 }
+        : { findings: freshFindings.slice(0, MAX_ALERT_FINDINGS), total: freshFindings.length }),
+    };
+
+    const alert = await storage.createAlert({ organizationId: rule.organizationId, ruleId: rule.id, ruleName: rule.name, payload: event });
+    await this.route(rule, event);
+    return alert;
+  }
+
+  // What the rule matches right now, without recording or sending anything
+  async preview(rule: AlertRule): Promise<AlertRulePreview> {
+    const matches = await this.match(rule, await this.getConfigurations(rule));
+    return {
+      total: rule.kind === 'metric' ? matches.fingerprints.length : matches.findings.length,
+      findings: matches.findings.slice(0, MAX_ALERT_FINDINGS),
+      value: matches.value,
+      triggered: matches.fingerprints.length > 0,
+    };
+  }
+
+  private async getConfigurations(rule: AlertRule): Promise<ProwlerConfiguration[]> {
+    if (rule.configurationId) {
+      const config = await storage.getProwlerConfiguration(rule.organizationId, rule.configurationId);
+      return config ? [config] : [];
+    }
+    const configs = await storage.getProwlerConfigurations(rule.organizationId);
+    return configs.filter(config => config.isActive);
+  }
+
+  private async match(rule: AlertRule, configs: ProwlerConfiguration[]): Promise<RuleMatches> {
+    const configurationIds = configs.map(config => config.id);
+
+    if (rule.kind === 'metric') {
+      if (!rule.metric || configurationIds.length === 0) {
+        return { fingerprints: [], findings: [], value: null };
+      }
+      const value = metricValue(rule.metric.metric, await storage.getAssetStats(configurationIds));
+      const crossed = value !== null && (rule.metric.operator === 'below' ? value < rule.metric.threshold : value > rule.metric.threshold);
+      return { fingerprints: crossed ? [METRIC_FINGERPRINT] : [], findings: [], value };
+    }
+
+    const findings = await storage.getAlertRuleFindings(configurationIds, rule.conditions);
+    return { fingerprints: findings.map(finding => finding.id), findings, value: null };
+  }
+
+  private async route(rule: AlertRule, event: AlertEvent): Promise<void> {
+    if (rule.channelIds.length > 0) {
+      const channels = await storage.getNotificationChannels(rule.organizationId);
+      await notificationService.sendToChannels(channels.filter(channel => rule.channelIds.includes(channel.id)), event);
+    }
+
+    if (rule.emailRecipients.length > 0) {
+      const email = renderAlertEmail(event);
+      // SMTP servers can be slow to answer; the sync that triggered the alert doesn't wait for them
+      void Promise.all(rule.emailRecipients.map(async to => {
+        const result = await emailService.send({ to, ...email });
+        if (!result.success) {
+          console.error(`[alerts] failed to email ${to} for rule ${rule.id}: ${result.error}`);
+        }
+      })).catch(error => {
+        console.error(`[alerts] emailing rule ${rule.id} errored:`, error);
+      });
+    }
+  }
+}
+
+export const alertService = new AlertService();
@@ -0,0 +1,175 @@
+import type {
+  AlertCondition,
+  ComplianceFinding,
+  ComplianceFrameworkDetail,
+  ComplianceFrameworkScore,
+  ComplianceRequirementScore,
+  ComplianceRequirementStatus,
+  ControlFrameworkWithControls,
+  FrameworkControl,
+} from "@shared/schema";
+import { parseAssetFilter } from "@shared/controls";
+import { storage, type FindingCounts } from "../storage";
+
+interface RequirementTally extends FindingCounts {
+  description: string | null;
+  prowlerStatuses: Set<ComplianceRequirementStatus>;
+  checkIds: Set<string>;
+}
+
+// Requirement ids are dotted numbers like "1.10" and "1.2", so they compare numerically
+function compareRequirementIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function requirementStatus(tally: RequirementTally): ComplianceRequirementStatus {
+  if (tally.failing > 0) {
+    return 'fail';
+  }
+  // Muted and accepted failures don't count against the requirement, as in the inventory numbers
+  if (tally.passing > 0 || tally.suppressed > 0) {
+    return 'pass';
+  }
+  // No synced finding maps to the requirement; fall back to Prowler's verdict
+  if (tally.prowlerStatuses.has('fail')) {
+    return 'fail';
+  }
+  return tally.prowlerStatuses.has('pass') ? 'pass' : 'manual';
+}
+
+function emptyTally(description: string | null): RequirementTally {
+  return { description, prowlerStatuses: new Set(), checkIds: new Set(), passing: 0, failing: 0, suppressed: 0, failingResources: 0 };
+}
+
+function toRequirementScore(requirementId: string, tally: RequirementTally): ComplianceRequirementScore {
+  return {
+    requirementId,
+    description: tally.description,
+    status: requirementStatus(tally),
+    passingFindings: tally.passing,
+    failingFindings: tally.failing,
+    suppressedFindings: tally.suppressed,
+    failingResources: tally.failingResources,
+    checkIds: Array.from(tally.checkIds).sort(),
+  };
+}
+
+// Filters are validated when the framework is saved; one that no longer parses matches nothing
+function controlConditions(control: FrameworkControl): AlertCondition[] | null {
+  if (!control.assetFilter) {
+    return [];
+  }
+  return parseAssetFilter(control.assetFilter).conditions ?? null;
+}
+
+/**
+ * Scores compliance frameworks per requirement. Findings map to requirements
+ * through their own compliance field (API findings and imported files) and
+ * through the check lists Prowler reports in its compliance overviews.
+ * The organization's own frameworks are scored the same way, with each
+ * control's checks and asset filter picking its findings.
+ */
+export class ComplianceService {
+  async getFrameworkScores(organizationId: string, configurationIds: string[]): Promise<ComplianceFrameworkScore[]> {
+    const frameworks = await this.score(configurationIds);
+    const scores = Array.from(frameworks, ([framework, requirements]) => this.summarize(framework, requirements));
+    for (const framework of await storage.getControlFrameworks(organizationId)) {
+      scores.push(this.summarize(framework.name, await this.scoreControls(configurationIds, framework.controls), framework.id));
+    }
+    return scores.sort((a, b) => a.framework.localeCompare(b.framework));
+  }
+
+  async getFramework(configurationIds: string[], framework: string): Promise<ComplianceFrameworkDetail | null> {
+    const requirements = (await this.score(configurationIds, framework)).get(framework);
+    return requirements ? { ...this.summarize(framework, requirements), requirements } : null;
+  }
+
+  async getFailingFindings(configurationIds: string[], framework: string, requirementId: string): Promise<ComplianceFinding[]> {
+    const requirements = await storage.getComplianceRequirements(configurationIds, framework);
+    const checkIds = new Set(requirements
+      .filter(requirement => requirement.requirementId === requirementId)
+      .flatMap(requirement => requirement.checkIds));
+    return storage.getComplianceFailingFindings(configurationIds, framework, requirementId, Array.from(checkIds));
+  }
+
+  async getCustomFramework(configurationIds: string[], framework: ControlFrameworkWithControls): Promise<ComplianceFrameworkDetail> {
+    const requirements = await this.scoreControls(configurationIds, framework.controls);
+    return { ...this.summarize(framework.name, requirements, framework.id), requirements };
+  }
+
+  async getCustomFailingFindings(configurationIds: string[], control: FrameworkControl): Promise<ComplianceFinding[]> {
+    const conditions = controlConditions(control);
+    return conditions ? storage.getControlFailingFindings(configurationIds, control.checkIds, conditions) : [];
+  }
+
+  // Controls keep the order they were defined in rather than sorting by id
+  private async scoreControls(configurationIds: string[], controls: FrameworkControl[]): Promise<ComplianceRequirementScore[]> {
+    const matchers = controls.flatMap(control => {
+      const conditions = controlConditions(control);
+      return conditions ? [{ controlId: control.controlId, checkIds: control.checkIds, conditions }] : [];
+    });
+    const counts = await storage.getControlFindingCounts(configurationIds, matchers);
+
+    return controls.map(control => {
+      const entry: RequirementTally = { ...emptyTally(control.description), ...counts.get(control.controlId) };
+      control.checkIds.forEach(checkId => entry.checkIds.add(checkId));
+      return toRequirementScore(control.controlId, entry);
+    });
+  }
+
+  private async score(configurationIds: string[], onlyFramework?: string): Promise<Map<string, ComplianceRequirementScore[]>> {
+    const requirements = await storage.getComplianceRequirements(configurationIds, onlyFramework);
+    const counts = await storage.getComplianceRequirementCounts(configurationIds, onlyFramework);
+
+    const tallies = new Map<string, Map<string, RequirementTally>>();
+    const tally = (framework: string, requirementId: string): RequirementTally => {
+      const requirementTallies = tallies.get(framework) ?? new Map<string, RequirementTally>();
+      tallies.set(framework, requirementTallies);
+      let entry = requirementTallies.get(requirementId);
+      if (!entry) {
+        entry = emptyTally(null);
+        requirementTallies.set(requirementId, entry);
+      }
+      return entry;
+    };
+
+    // Several configurations can report the same requirement
+    for (const requirement of requirements) {
+      const entry = tally(requirement.framework, requirement.requirementId);
+      entry.description ??= requirement.description;
+      entry.prowlerStatuses.add(requirement.status);
+      requirement.checkIds.forEach(checkId => entry.checkIds.add(checkId));
+    }
+
+    for (const count of counts) {
+      const entry = tally(count.framework, count.requirementId);
+      entry.passing = count.passing;
+      entry.failing = count.failing;
+      entry.suppressed = count.suppressed;
+      entry.failingResources = count.failingResources;
+      count.checkIds.forEach(checkId => entry.checkIds.add(checkId));
+    }
+
+    return new Map(Array.from(tallies, ([framework, requirementTallies]) => [
+      framework,
+      Array.from(requirementTallies, ([requirementId, entry]) => toRequirementScore(requirementId, entry))
+        .sort((a, b) => compareRequirementIds(a.requirementId, b.requirementId)),
+    ]));
+  }
+
+  private summarize(framework: string, requirements: ComplianceRequirementScore[], customFrameworkId: string | null = null): ComplianceFrameworkScore {
+    const passed = requirements.filter(requirement => requirement.status === 'pass').length;
+    const failed = requirements.filter(requirement => requirement.status === 'fail').length;
+    return {
+      framework,
+      customFrameworkId,
+      total: requirements.length,
+      passed,
+      failed,
+      manual: requirements.length - passed - failed,
+      score: passed + failed > 0 ? Math.round((passed / (passed + failed)) * 100) : null,
+    };
+  }
+}
+
+export const complianceService = new ComplianceService();
@@ -0,0 +1,99 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+const IV_LENGTH = 12;
+const KEY_SALT = 'prowler-dashboard-credentials';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Encrypts Prowler credentials with AES-256-GCM so they can be replayed to the
+ * Prowler API during sync.
+ *
+ * The master key comes from CREDENTIALS_ENCRYPTION_KEY. To rotate it, move the
+ * old value into CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS (comma separated) and set
+ * a new CREDENTIALS_ENCRYPTION_KEY; values encrypted with a previous key still
+ * decrypt and are re-encrypted with the current key on their next use.
+ */
+export class CredentialService {
+  private keys: EncryptionKey[] | null = null;
+
+  private loadKeys(): EncryptionKey[] {
+    if (this.keys) {
+      return this.keys;
+    }
+
+    const current = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!current) {
+      throw new Error(
+        "CREDENTIALS_ENCRYPTION_KEY must be set to store Prowler credentials. Generate one with: openssl rand -base64 32",
+      );
+    }
+
+    const previous = (process.env.CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS || '')
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(Boolean);
+
+    this.keys = [current, ...previous].map(secret => ({
+      // The key id only identifies which secret was used; it reveals nothing about the key itself.
+      id: createHash('sha256').update(secret).digest('hex').slice(0, 8),
+      key: scryptSync(secret, KEY_SALT, 32),
+    }));
+
+    return this.keys;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.CREDENTIALS_ENCRYPTION_KEY;
+  }
+
+  encrypt(plaintext: string): string {
+    const [currentKey] = this.loadKeys();
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER_ALGORITHM, currentKey.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [
+      FORMAT_VERSION,
+      currentKey.id,
+      iv.toString('base64'),
+      tag.toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [version, keyId, iv, tag, ciphertext] = payload.split(':');
+    if (version !== FORMAT_VERSION || !keyId || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unrecognized encrypted credential format');
+    }
+
+    const key = this.loadKeys().find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new Error('Credential was encrypted with a key that is no longer configured');
+    }
+
+    const decipher = createDecipheriv(CIPHER_ALGORITHM, key.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  // True when the payload was encrypted with a previous key and should be re-encrypted.
+  needsRotation(payload: string): boolean {
+    const [, keyId] = payload.split(':');
+    const [currentKey] = this.loadKeys();
+    return keyId !== currentKey.id;
+  }
+}
+
+export const credentialService = new CredentialService();
@@ -0,0 +1,67 @@
+import { storage } from "../storage";
+import { digestService } from "./digestService";
+import { computeNextReportAt } from "./reportScheduler";
+
+const DEFAULT_POLL_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Polls for organizations whose nextDigestAt has passed and emails their
+ * members the weekly digest, one organization at a time. Digests go out on
+ * Mondays alongside weekly reports.
+ */
+export class DigestScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueOrganizations = await storage.getOrganizationsDueForDigest(new Date());
+
+      for (const organization of dueOrganizations) {
+        // Schedule the next run first so a failing digest is retried next week, not every tick
+        await storage.setNextDigestAt(organization.id, computeNextReportAt('weekly'));
+
+        // Organizations that were never scheduled only get their first date
+        if (!organization.nextDigestAt) {
+          continue;
+        }
+
+        try {
+          const { sent, failed } = await digestService.sendDigests(organization);
+          if (sent > 0 || failed > 0) {
+            console.log(`[digest] organization ${organization.id}: ${sent} digest(s) sent, ${failed} failed`);
+          }
+        } catch (error) {
+          console.error(`[digest] digest failed for organization ${organization.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[digest] failed to load organizations due for a digest:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const digestScheduler = new DigestScheduler();
@@ -0,0 +1,116 @@
+import type { EmailEventType, ExpiringRiskAcceptance, NotificationFinding, Organization } from "@shared/schema";
+import { storage, type EmailSubscriber } from "../storage";
+import { emailService } from "./emailService";
+import { renderDigestEmail, type DigestContent } from "./emailTemplates";
+import { getReportPeriod } from "./reportService";
+
+// Risk acceptances are listed when they expire within this many days
+const EXPIRING_RISK_WINDOW_DAYS = 14;
+const MAX_DIGEST_FINDINGS = 25;
+
+// Everything a digest may show; computed once per organization and filtered per recipient
+type OrganizationDigest = Omit<DigestContent, 'recipientName' | 'summary' | 'newCritical' | 'expiringRisks'> & {
+  summary: NonNullable<DigestContent['summary']>;
+  newCritical: { findings: NotificationFinding[]; total: number };
+  expiringRisks: ExpiringRiskAcceptance[];
+};
+
+/**
+ * Builds the weekly email digest of an organization (posture changes, new
+ * critical issues and expiring risk acceptances) and mails each member the
+ * sections they subscribed to.
+ */
+export class DigestService {
+  async sendDigests(organization: Organization): Promise<{ sent: number; failed: number }> {
+    const subscribers = await storage.getEmailSubscribers(organization.id);
+    if (subscribers.length === 0) {
+      return { sent: 0, failed: 0 };
+    }
+
+    const digest = await this.buildDigest(organization);
+    if (!digest) {
+      return { sent: 0, failed: 0 };
+    }
+
+    let sent = 0;
+    let failed = 0;
+    for (const subscriber of subscribers) {
+      const result = await this.sendTo(digest, subscriber);
+      if (result === null) {
+        continue;
+      }
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+        console.error(`[digest] failed to email ${subscriber.email} for organization ${organization.id}: ${result.error}`);
+      }
+    }
+    return { sent, failed };
+  }
+
+  // Sends one member their digest right away, whatever the schedule
+  async sendDigestTo(organization: Organization, subscriber: EmailSubscriber): Promise<{ success: boolean; error?: string }> {
+    const digest = await this.buildDigest(organization);
+    if (!digest) {
+      return { success: false, error: 'No Prowler configuration found' };
+    }
+    return await this.sendTo(digest, subscriber) ?? { success: false, error: 'Nothing to report for the subscribed sections' };
+  }
+
+  // Null when the member's sections have nothing to report
+  private async sendTo(digest: OrganizationDigest, subscriber: EmailSubscriber): Promise<{ success: boolean; error?: string } | null> {
+    const subscribed = (eventType: EmailEventType) => subscriber.eventTypes.includes(eventType);
+    const content: DigestContent = {
+      ...digest,
+      recipientName: subscriber.firstName || subscriber.username,
+      summary: subscribed('weekly_summary') ? digest.summary : undefined,
+      newCritical: subscribed('new_critical') ? digest.newCritical : undefined,
+      expiringRisks: subscribed('expiring_risks') ? digest.expiringRisks : undefined,
+    };
+
+    // The summary always has something to say; the lists only when they aren't empty
+    if (!content.summary && !content.newCritical?.total && !content.expiringRisks?.length) {
+      return null;
+    }
+    return emailService.send({ to: subscriber.email, ...renderDigestEmail(content) });
+  }
+
+  private async buildDigest(organization: Organization): Promise<OrganizationDigest | null> {
+    const configs = (await storage.getProwlerConfigurations(organization.id)).filter(config => config.isActive);
+    if (configs.length === 0) {
+      return null;
+    }
+
+    const configurationIds = configs.map(config => config.id);
+    const now = new Date();
+    const { periodStart, periodEnd } = getReportPeriod('weekly', now);
+
+    const stats = await storage.getAssetStats(configurationIds);
+    const [previous] = await storage.getPostureHistory(configurationIds, periodStart, periodEnd, 'day');
+
+    const newFindings: NotificationFinding[] = [];
+    for (const config of configs) {
+      newFindings.push(...await storage.getNewFailingFindings(config.id, new Date(`${periodStart}T00:00:00Z`), ['critical']));
+    }
+
+    const expiringRisks = await storage.getExpiringRiskAcceptances(
+      configurationIds,
+      new Date(now.getTime() + EXPIRING_RISK_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+    );
+
+    const appUrl = process.env.APP_URL?.replace(/\/+$/, '');
+    return {
+      organizationName: organization.name,
+      periodStart,
+      periodEnd,
+      // The day's snapshot is only a baseline when it predates the current numbers
+      summary: { stats, previous: previous && previous.snapshotDate < periodEnd ? previous : null },
+      newCritical: { findings: newFindings.slice(0, MAX_DIGEST_FINDINGS), total: newFindings.length },
+      expiringRisks,
+      profileUrl: appUrl ? `${appUrl}/profile` : null,
+    };
+  }
+}
+
+export const digestService = new DigestService();
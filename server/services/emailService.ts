@@ -0,0 +1,78 @@
+import nodemailer from 'nodemailer';
+import type { EmailSettings } from "@shared/schema";
+import { storage } from "../storage";
+import { credentialService } from "./credentialService";
+import { renderTestEmail } from "./emailTemplates";
+
+const CONNECTION_TIMEOUT_MS = 10 * 1000;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Sends email through the SMTP server configured in the admin settings. The
+ * settings are read on every send, so changes apply without a restart.
+ */
+export class EmailService {
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const settings = await storage.getEmailSettings();
+    if (!settings || !settings.isEnabled) {
+      return { success: false, error: 'Email is not configured on the server' };
+    }
+
+    const password = await this.recoverPassword(settings);
+    if (password === undefined) {
+      return { success: false, error: 'The stored SMTP password cannot be recovered. Please set it again.' };
+    }
+
+    try {
+      const transport = nodemailer.createTransport({
+        host: settings.host,
+        port: settings.port,
+        secure: settings.secure,
+        auth: settings.username ? { user: settings.username, pass: password ?? '' } : undefined,
+        connectionTimeout: CONNECTION_TIMEOUT_MS,
+        greetingTimeout: CONNECTION_TIMEOUT_MS,
+        socketTimeout: CONNECTION_TIMEOUT_MS,
+      });
+      await transport.sendMail({ from: settings.fromAddress, ...message });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send email' };
+    }
+  }
+
+  async sendTest(to: string): Promise<EmailSendResult> {
+    return this.send({ to, ...renderTestEmail() });
+  }
+
+  // Null when no password is stored, undefined when it can't be decrypted
+  private async recoverPassword(settings: EmailSettings): Promise<string | null | undefined> {
+    if (!settings.passwordEncrypted) {
+      return null;
+    }
+
+    try {
+      const password = credentialService.decrypt(settings.passwordEncrypted);
+      if (credentialService.needsRotation(settings.passwordEncrypted)) {
+        const { id, updatedAt, ...rest } = settings;
+        await storage.saveEmailSettings({ ...rest, passwordEncrypted: credentialService.encrypt(password) });
+      }
+      return password;
+    } catch (error) {
+      console.error("Unable to decrypt the SMTP password:", error);
+      return undefined;
+    }
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,210 @@
+import type { AssetStats, ExpiringRiskAcceptance, NotificationEvent, NotificationFinding, PostureHistoryPoint } from "@shared/schema";
+import { alertMetricLabels } from "@shared/alerts";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Sections are only set when the recipient subscribed to them
+export interface DigestContent {
+  organizationName: string;
+  recipientName: string;
+  periodStart: string;
+  periodEnd: string;
+  summary?: {
+    stats: AssetStats;
+    // Posture at the start of the period; null when no snapshot is that old
+    previous: PostureHistoryPoint | null;
+  };
+  newCritical?: { findings: NotificationFinding[]; total: number };
+  expiringRisks?: ExpiringRiskAcceptance[];
+  // Where recipients manage their subscriptions; only known when APP_URL is set
+  profileUrl: string | null;
+}
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  border: '#e2e8f0',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function compliancePercent(compliant: number, total: number): number {
+  return total > 0 ? Math.round((compliant / total) * 100) : 0;
+}
+
+function formatDelta(current: number, previous: number | undefined, unit = ''): string {
+  if (previous === undefined) {
+    return '';
+  }
+  const delta = current - previous;
+  if (delta === 0) {
+    return 'no change';
+  }
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta)}${unit}`;
+}
+
+function layout(title: string, body: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:${COLORS.text};">
+    <div style="max-width:640px;margin:0 auto;background:#ffffff;border:1px solid ${COLORS.border};border-radius:8px;padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="font-size:12px;color:${COLORS.muted};margin:24px 0 0;border-top:1px solid ${COLORS.border};padding-top:12px;">${footer}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function sectionTitle(title: string): string {
+  return `<h2 style="font-size:16px;margin:24px 0 8px;">${escapeHtml(title)}</h2>`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const cell = `padding:6px 8px;border-bottom:1px solid ${COLORS.border};text-align:left;font-size:13px;`;
+  return `<table style="width:100%;border-collapse:collapse;">
+  <tr>${headers.map(header => `<th style="${cell}color:${COLORS.muted};font-weight:normal;">${escapeHtml(header)}</th>`).join('')}</tr>
+  ${rows.map(row => `<tr>${row.map(value => `<td style="${cell}">${escapeHtml(value)}</td>`).join('')}</tr>`).join('\n  ')}
+</table>`;
+}
+
+function more(shown: number, total: number): string {
+  return total > shown ? `…and ${total - shown} more` : '';
+}
+
+export function renderDigestEmail(digest: DigestContent): RenderedEmail {
+  const html: string[] = [
+    `<p style="font-size:14px;">Hi ${escapeHtml(digest.recipientName)}, here is what changed in ${escapeHtml(digest.organizationName)} between ${digest.periodStart} and ${digest.periodEnd}.</p>`,
+  ];
+  const text: string[] = [
+    `Hi ${digest.recipientName}, here is what changed in ${digest.organizationName} between ${digest.periodStart} and ${digest.periodEnd}.`,
+  ];
+
+  if (digest.summary) {
+    const { stats, previous } = digest.summary;
+    const rows = [
+      ['Resources', String(stats.totalResources), formatDelta(stats.totalResources, previous?.totalResources)],
+      ['Compliant', String(stats.compliantResources), formatDelta(stats.compliantResources, previous?.compliantResources)],
+      [
+        'Compliance',
+        `${compliancePercent(stats.compliantResources, stats.totalResources)}%`,
+        previous
+          ? formatDelta(
+            compliancePercent(stats.compliantResources, stats.totalResources),
+            compliancePercent(previous.compliantResources, previous.totalResources),
+            ' pts',
+          )
+          : '',
+      ],
+      ['Critical issues', String(stats.criticalIssues), formatDelta(stats.criticalIssues, previous?.criticalIssues)],
+    ];
+
+    html.push(sectionTitle('Weekly summary'), table(['', 'Now', 'Change'], rows));
+    text.push('', 'WEEKLY SUMMARY', ...rows.map(([label, value, delta]) => `${label}: ${value}${delta ? ` (${delta})` : ''}`));
+    if (!previous) {
+      const note = 'No snapshot is old enough to compare against yet.';
+      html.push(`<p style="font-size:12px;color:${COLORS.muted};">${note}</p>`);
+      text.push(note);
+    }
+  }
+
+  if (digest.newCritical) {
+    const { findings, total } = digest.newCritical;
+    html.push(sectionTitle(`New critical issues (${total})`));
+    text.push('', `NEW CRITICAL ISSUES (${total})`);
+    if (findings.length === 0) {
+      html.push('<p style="font-size:13px;">No new critical issues this week.</p>');
+      text.push('No new critical issues this week.');
+    } else {
+      const rows = findings.map(finding => [finding.checkTitle || finding.checkId, finding.resourceName || finding.resourceId || '']);
+      html.push(table(['Check', 'Resource'], rows));
+      text.push(...rows.map(([check, resource]) => `- ${check} — ${resource}`));
+      if (more(findings.length, total)) {
+        html.push(`<p style="font-size:13px;">${more(findings.length, total)}</p>`);
+        text.push(more(findings.length, total));
+      }
+    }
+  }
+
+  if (digest.expiringRisks) {
+    const risks = digest.expiringRisks;
+    html.push(sectionTitle(`Expiring risk acceptances (${risks.length})`));
+    text.push('', `EXPIRING RISK ACCEPTANCES (${risks.length})`);
+    if (risks.length === 0) {
+      html.push('<p style="font-size:13px;">No accepted risks expire in the next two weeks.</p>');
+      text.push('No accepted risks expire in the next two weeks.');
+    } else {
+      const rows = risks.map(risk => [
+        risk.type === 'finding' ? `${risk.checkId} on ${risk.resourceName || 'unknown resource'}` : risk.resourceName || risk.id,
+        risk.expiresAt.toISOString().slice(0, 10),
+        risk.justification || '',
+      ]);
+      html.push(table(['Accepted risk', 'Expires', 'Justification'], rows));
+      text.push(...rows.map(([item, expires, justification]) => `- ${item}, expires ${expires}${justification ? `: ${justification}` : ''}`));
+    }
+  }
+
+  const footer = digest.profileUrl
+    ? `You receive this digest because you subscribed to it. <a href="${escapeHtml(digest.profileUrl)}" style="color:${COLORS.muted};">Manage your email notifications</a>.`
+    : 'You receive this digest because you subscribed to it. Manage your email notifications on your profile page.';
+  text.push('', digest.profileUrl
+    ? `Manage your email notifications: ${digest.profileUrl}`
+    : 'Manage your email notifications on your profile page.');
+
+  return {
+    subject: `Weekly security digest for ${digest.organizationName}`,
+    html: layout(`Weekly security digest — ${digest.organizationName}`, html.join('\n'), footer),
+    text: text.join('\n'),
+  };
+}
+
+export function renderAlertEmail(alert: NotificationEvent & { type: 'alert.triggered' }): RenderedEmail {
+  const source = alert.configuration ? ` in ${alert.configuration.name}` : '';
+  const html: string[] = [
+    `<p style="font-size:14px;">The alert rule <strong>${escapeHtml(alert.rule.name)}</strong> triggered${escapeHtml(source)}.</p>`,
+    `<p style="font-size:13px;color:${COLORS.muted};font-family:monospace;">${escapeHtml(alert.rule.expression)}</p>`,
+  ];
+  const text: string[] = [`The alert rule "${alert.rule.name}" triggered${source}.`, alert.rule.expression, ''];
+
+  if (alert.metric) {
+    const unit = alert.metric.metric === 'compliance_ratio' ? '%' : '';
+    const line = `${alertMetricLabels[alert.metric.metric]} is ${alert.metric.value}${unit} (threshold ${alert.metric.threshold}${unit}).`;
+    html.push(`<p style="font-size:14px;">${escapeHtml(line)}</p>`);
+    text.push(line);
+  } else {
+    const findings = alert.findings ?? [];
+    const rows = findings.map(finding => [finding.severity, finding.checkTitle || finding.checkId, finding.resourceName || finding.resourceId || '']);
+    html.push(sectionTitle(`Matching findings (${alert.total})`), table(['Severity', 'Check', 'Resource'], rows));
+    text.push(`MATCHING FINDINGS (${alert.total})`, ...rows.map(([severity, check, resource]) => `- [${severity.toUpperCase()}] ${check} — ${resource}`));
+    if (more(findings.length, alert.total)) {
+      html.push(`<p style="font-size:13px;">${more(findings.length, alert.total)}</p>`);
+      text.push(more(findings.length, alert.total));
+    }
+  }
+
+  return {
+    subject: `Alert: ${alert.rule.name}${source}`,
+    html: layout(`Alert: ${alert.rule.name}`, html.join('\n'), 'Sent by an alert rule on the Alerts page.'),
+    text: text.join('\n'),
+  };
+}
+
+export function renderTestEmail(): RenderedEmail {
+  const message = 'Email delivery from the Prowler Dashboard is set up correctly.';
+  return {
+    subject: 'Prowler Dashboard test email',
+    html: layout('Test email', `<p style="font-size:14px;">${message}</p>`, 'Sent from the email settings page.'),
+    text: message,
+  };
+}
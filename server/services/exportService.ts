@@ -0,0 +1,131 @@
+import { once } from 'events';
+import type { Response } from 'express';
+import ExcelJS from 'exceljs';
+import type { Asset, AssetExportFormat } from "@shared/schema";
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (asset: Asset, configurationName: string) => string | Date | null;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Resource Name', width: 32, value: asset => asset.resourceName },
+  { header: 'Resource ID', width: 48, value: asset => asset.resourceId },
+  { header: 'Resource Type', width: 20, value: asset => asset.resourceType },
+  { header: 'Region', width: 16, value: asset => asset.region },
+  { header: 'Provider', width: 12, value: asset => asset.provider },
+  { header: 'Account', width: 24, value: asset => asset.accountId },
+  { header: 'Service', width: 16, value: asset => asset.service },
+  { header: 'Status', width: 16, value: asset => asset.status },
+  { header: 'Severity', width: 12, value: asset => asset.severity },
+  { header: 'Configuration', width: 20, value: (_asset, configurationName) => configurationName },
+  { header: 'Tags', width: 40, value: asset => Object.entries(asset.tags || {}).map(([key, value]) => `${key}=${value}`).join('; ') || null },
+  { header: 'Last Checked', width: 22, value: asset => asset.lastCheckedAt },
+  { header: 'First Seen', width: 22, value: asset => asset.firstSeenAt },
+  { header: 'Last Seen', width: 22, value: asset => asset.lastSeenAt },
+];
+
+const CONTENT_TYPES: Record<AssetExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Streams the asset inventory as CSV, JSON or XLSX. Rows are written batch by
+ * batch as they are read from the database, so exports of large inventories
+ * never hold the full result in memory.
+ */
+export class ExportService {
+  async writeAssets(
+    res: Response,
+    format: AssetExportFormat,
+    batches: AsyncIterable<Asset[]>,
+    configurationNames: Map<string, string>,
+  ): Promise<void> {
+    const filename = `asset-inventory-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    const rows = this.toRows(batches, configurationNames);
+    if (format === 'xlsx') {
+      await this.writeXlsx(res, rows);
+    } else if (format === 'json') {
+      await this.writeJson(res, rows);
+    } else {
+      await this.writeCsv(res, rows);
+    }
+  }
+
+  private async *toRows(batches: AsyncIterable<Asset[]>, configurationNames: Map<string, string>) {
+    for await (const batch of batches) {
+      yield batch.map(asset => EXPORT_COLUMNS.map(column => column.value(asset, configurationNames.get(asset.configurationId) || '')));
+    }
+  }
+
+  // Respects backpressure so a slow client doesn't make the response buffer every batch
+  private async write(res: Response, chunk: string): Promise<void> {
+    if (res.destroyed) {
+      throw new Error('Export aborted: the client disconnected');
+    }
+    if (!res.write(chunk)) {
+      await Promise.race([once(res, 'drain'), once(res, 'close')]);
+    }
+  }
+
+  private async writeCsv(res: Response, rows: AsyncIterable<Array<string | Date | null>[]>): Promise<void> {
+    // The byte order mark makes Excel open the file as UTF-8
+    await this.write(res, '\uFEFF' + EXPORT_COLUMNS.map(column => this.csvCell(column.header)).join(',') + '\r\n');
+    for await (const batch of rows) {
+      await this.write(res, batch.map(row => row.map(value => this.csvCell(value)).join(',') + '\r\n').join(''));
+    }
+    res.end();
+  }
+
+  private csvCell(value: string | Date | null): string {
+    if (value === null) {
+      return '';
+    }
+    let text = value instanceof Date ? value.toISOString() : value;
+    // Neutralize spreadsheet formulas in values that come from cloud resource metadata
+    if (/^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private async writeJson(res: Response, rows: AsyncIterable<Array<string | Date | null>[]>): Promise<void> {
+    const keys = EXPORT_COLUMNS.map(column => column.header);
+    let first = true;
+
+    await this.write(res, '[');
+    for await (const batch of rows) {
+      const objects = batch.map(row => JSON.stringify(Object.fromEntries(row.map((value, index) => [keys[index], value]))));
+      await this.write(res, (first ? '\n' : ',\n') + objects.join(',\n'));
+      first = false;
+    }
+    await this.write(res, '\n]\n');
+    res.end();
+  }
+
+  private async writeXlsx(res: Response, rows: AsyncIterable<Array<string | Date | null>[]>): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+    const worksheet = workbook.addWorksheet('Assets', { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = EXPORT_COLUMNS.map(column => ({ header: column.header, width: column.width }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.getRow(1).commit();
+
+    for await (const batch of rows) {
+      for (const row of batch) {
+        worksheet.addRow(row).commit();
+      }
+    }
+
+    worksheet.commit();
+    // Committing the workbook finishes and ends the response stream
+    await workbook.commit();
+  }
+}
+
+export const exportService = new ExportService();
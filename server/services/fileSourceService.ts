@@ -0,0 +1,159 @@
+import { readdir, readFile, realpath, stat } from 'fs/promises';
+import path from 'path';
+import { GetObjectCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
+import type { ProwlerConfiguration } from "@shared/schema";
+
+export interface SourceFile {
+  // Path relative to the watched directory, or the object key
+  key: string;
+  // Changes whenever the file is rewritten
+  fingerprint: string;
+  modifiedAt: Date;
+}
+
+// Connection settings of a directory or bucket configuration, with the secret key in plaintext
+export type FileSourceSettings = Pick<ProwlerConfiguration, 'sourceType'>
+  & Partial<Pick<ProwlerConfiguration, 'directoryPath' | 's3Endpoint' | 's3Bucket' | 's3Prefix' | 's3Region' | 's3AccessKeyId' | 's3ForcePathStyle'>>
+  & { s3SecretAccessKey?: string | null };
+
+// Prowler writes compliance reports next to its findings; they use a different layout and are skipped
+const COMPLIANCE_DIRECTORY = 'compliance';
+const OUTPUT_FILE_PATTERN = /\.(json|csv)$/i;
+
+/**
+ * Lists and reads the Prowler CLI output files in a watched directory or an
+ * S3-compatible bucket. Directories must live under PROWLER_WATCH_ROOT so
+ * organization admins can't read arbitrary paths on the server.
+ */
+export class FileSourceService {
+  async listFiles(settings: FileSourceSettings): Promise<SourceFile[]> {
+    const files = settings.sourceType === 's3'
+      ? await this.listObjects(settings)
+      : await this.listDirectory(settings);
+
+    return files
+      .filter(file => OUTPUT_FILE_PATTERN.test(file.key) && !file.key.split('/').includes(COMPLIANCE_DIRECTORY))
+      .sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime());
+  }
+
+  async readFile(settings: FileSourceSettings, key: string): Promise<Buffer> {
+    if (settings.sourceType === 's3') {
+      const response = await this.createClient(settings).send(new GetObjectCommand({ Bucket: settings.s3Bucket!, Key: key }));
+      if (!response.Body) {
+        throw new Error(`Object ${key} has no content`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    }
+
+    const directory = await this.resolveDirectory(settings.directoryPath);
+    const filePath = path.resolve(directory, key);
+    // Keys come from listFiles, but never follow one outside the watched directory
+    if (path.relative(directory, filePath).startsWith('..')) {
+      throw new Error(`File ${key} is outside the watched directory`);
+    }
+    return readFile(filePath);
+  }
+
+  async testSource(settings: FileSourceSettings): Promise<{ success: boolean; fileCount?: number; error?: string }> {
+    try {
+      const files = await this.listFiles(settings);
+      return { success: true, fileCount: files.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  // Resolves a configured directory against PROWLER_WATCH_ROOT, following symlinks before the containment check
+  async resolveDirectory(directoryPath: string | null | undefined): Promise<string> {
+    const watchRoot = process.env.PROWLER_WATCH_ROOT;
+    if (!watchRoot) {
+      throw new Error('Directory sources are disabled; set PROWLER_WATCH_ROOT on the server');
+    }
+    if (!directoryPath) {
+      throw new Error('No directory is configured');
+    }
+
+    const root = await realpath(watchRoot);
+    let directory: string;
+    try {
+      directory = await realpath(path.resolve(root, directoryPath));
+    } catch {
+      throw new Error(`Directory ${directoryPath} does not exist`);
+    }
+
+    if (path.relative(root, directory).startsWith('..')) {
+      throw new Error(`Directory ${directoryPath} is outside PROWLER_WATCH_ROOT`);
+    }
+    return directory;
+  }
+
+  private async listDirectory(settings: FileSourceSettings): Promise<SourceFile[]> {
+    const directory = await this.resolveDirectory(settings.directoryPath);
+    const entries = await readdir(directory, { recursive: true, withFileTypes: true });
+
+    const files: SourceFile[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) {
+        continue;
+      }
+      const filePath = path.join(entry.parentPath ?? entry.path, entry.name);
+      const info = await stat(filePath);
+      files.push({
+        key: path.relative(directory, filePath).split(path.sep).join('/'),
+        fingerprint: `${info.size}-${info.mtimeMs}`,
+        modifiedAt: info.mtime,
+      });
+    }
+    return files;
+  }
+
+  private async listObjects(settings: FileSourceSettings): Promise<SourceFile[]> {
+    if (!settings.s3Bucket) {
+      throw new Error('No bucket is configured');
+    }
+
+    const client = this.createClient(settings);
+    const files: SourceFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await client.send(new ListObjectsV2Command({
+        Bucket: settings.s3Bucket,
+        Prefix: settings.s3Prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of page.Contents || []) {
+        if (object.Key && !object.Key.endsWith('/')) {
+          files.push({
+            key: object.Key,
+            fingerprint: object.ETag || `${object.Size}-${object.LastModified?.getTime()}`,
+            modifiedAt: object.LastModified || new Date(0),
+          });
+        }
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  private createClient(settings: FileSourceSettings): S3Client {
+    // Never fall back to the SDK's default credential chain, which would expose the server's own AWS access
+    if (!settings.s3AccessKeyId || !settings.s3SecretAccessKey) {
+      throw new Error('S3 access keys are not configured');
+    }
+
+    return new S3Client({
+      endpoint: settings.s3Endpoint || undefined,
+      region: settings.s3Region || 'us-east-1',
+      forcePathStyle: settings.s3ForcePathStyle ?? true,
+      credentials: { accessKeyId: settings.s3AccessKeyId, secretAccessKey: settings.s3SecretAccessKey },
+    });
+  }
+}
+
+export const fileSourceService = new FileSourceService();
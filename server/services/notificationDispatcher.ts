@@ -0,0 +1,58 @@
+import { storage } from "../storage";
+import { notificationService } from "./notificationService";
+
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+/**
+ * Polls the delivery log for notifications whose retry is due and sends them
+ * one at a time. First attempts are made as soon as an event is emitted.
+ */
+export class NotificationDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueDeliveries = await storage.getDueNotificationDeliveries(new Date(), DELIVERY_BATCH_SIZE);
+
+      for (const { channel, ...delivery } of dueDeliveries) {
+        try {
+          const result = await notificationService.deliver(delivery, channel);
+          if (result.status === "failed") {
+            console.error(`[notifications] giving up on delivery ${delivery.id} to channel ${channel.id}: ${result.error}`);
+          }
+        } catch (error) {
+          console.error(`[notifications] delivery ${delivery.id} errored:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[notifications] failed to load due deliveries:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
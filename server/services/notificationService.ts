@@ -0,0 +1,294 @@
+import { createHmac } from 'crypto';
+import type {
+  AssetChange,
+  Finding,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationEventType,
+  ProwlerConfiguration,
+  SyncJob,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { credentialService } from "./credentialService";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Events list at most this many findings or resources so one large sync can't produce a huge payload
+const MAX_EVENT_ITEMS = 50;
+// Chat messages only show the first few items
+const MAX_MESSAGE_LINES = 10;
+const NOTIFIED_SEVERITIES: Array<Finding["severity"]> = ['critical', 'high'];
+
+export interface NotificationSendResult {
+  success: boolean;
+  responseStatus?: number;
+  error?: string;
+}
+
+// Retries back off 30s, 2m, 8m, 32m
+export function computeNextAttemptAt(attempts: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + RETRY_BASE_DELAY_MS * 4 ** Math.max(0, attempts - 1));
+}
+
+// Receivers recompute the HMAC over "<timestamp>.<body>" and reject stale timestamps to stop replays
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Sends sync events to the organization's webhook channels as generic JSON,
+ * Slack or Microsoft Teams messages. Every delivery is logged; failed ones
+ * stay pending and are retried with backoff by the notification dispatcher.
+ */
+export class NotificationService {
+  // Reports new critical and high findings and resources that went from compliant to non-compliant
+  async notifySyncResults(config: ProwlerConfiguration, changes: AssetChange[], seenAt: Date): Promise<void> {
+    if (!config.organizationId) {
+      return;
+    }
+
+    const base = {
+      organizationId: config.organizationId,
+      configuration: { id: config.id, name: config.name },
+      occurredAt: new Date().toISOString(),
+    };
+
+    try {
+      // Everything is new on the first sync, which only sets the baseline
+      if (config.lastSyncAt) {
+        const newFindings = await storage.getNewFailingFindings(config.id, seenAt, NOTIFIED_SEVERITIES);
+        if (newFindings.length > 0) {
+          await this.emit({ ...base, type: 'findings.new', findings: newFindings.slice(0, MAX_EVENT_ITEMS), total: newFindings.length });
+        }
+      }
+
+      const regressed = changes.filter(change =>
+        change.changeType === 'updated' && change.previousStatus === 'compliant' && change.newStatus === 'non-compliant');
+      if (regressed.length > 0) {
+        const assets = await storage.getNotificationAssets(regressed.slice(0, MAX_EVENT_ITEMS).map(change => change.assetId));
+        await this.emit({ ...base, type: 'assets.regressed', assets, total: regressed.length });
+      }
+    } catch (error) {
+      console.error(`[notifications] failed to emit sync events for configuration ${config.id}:`, error);
+    }
+  }
+
+  async notifySyncFailed(config: ProwlerConfiguration, trigger: SyncJob["trigger"], error: string): Promise<void> {
+    if (!config.organizationId) {
+      return;
+    }
+
+    try {
+      await this.emit({
+        type: 'sync.failed',
+        organizationId: config.organizationId,
+        configuration: { id: config.id, name: config.name },
+        occurredAt: new Date().toISOString(),
+        trigger,
+        error,
+      });
+    } catch (emitError) {
+      console.error(`[notifications] failed to emit sync failure for configuration ${config.id}:`, emitError);
+    }
+  }
+
+  // Sends a test event right away; test deliveries are never retried
+  async sendTest(channel: NotificationChannel): Promise<NotificationDelivery> {
+    const [delivery] = await storage.createNotificationDeliveries([{
+      channelId: channel.id,
+      organizationId: channel.organizationId,
+      event: 'test',
+      payload: { type: 'test', organizationId: channel.organizationId, configuration: null, occurredAt: new Date().toISOString() },
+      nextAttemptAt: computeNextAttemptAt(1),
+    }]);
+    return this.deliver(delivery, channel);
+  }
+
+  // Makes one attempt and records the outcome in the delivery log
+  async deliver(delivery: NotificationDelivery, channel: NotificationChannel): Promise<NotificationDelivery> {
+    const attempts = delivery.attempts + 1;
+    const isFinal = delivery.event === 'test' || attempts >= MAX_ATTEMPTS;
+    const nextAttemptAt = computeNextAttemptAt(attempts);
+
+    // Schedule the retry before sending so a crash mid-request still leaves the delivery due again
+    await storage.updateNotificationDelivery(delivery.id, { attempts, nextAttemptAt });
+
+    const result: NotificationSendResult = !channel.isActive && delivery.event !== 'test'
+      ? { success: false, error: 'The channel is disabled' }
+      : await this.send(channel, delivery);
+
+    if (result.success) {
+      return storage.updateNotificationDelivery(delivery.id, {
+        status: 'succeeded',
+        responseStatus: result.responseStatus ?? null,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+    }
+
+    const giveUp = isFinal || !channel.isActive;
+    return storage.updateNotificationDelivery(delivery.id, {
+      status: giveUp ? 'failed' : 'pending',
+      responseStatus: result.responseStatus ?? null,
+      error: result.error ?? 'Delivery failed',
+      nextAttemptAt: giveUp ? null : nextAttemptAt,
+    });
+  }
+
+  // Delivers an event to the given channels regardless of what they subscribed to, as alert rules route themselves
+  async sendToChannels(channels: NotificationChannel[], event: NotificationEvent): Promise<void> {
+    if (event.type === 'test') {
+      return;
+    }
+    await this.dispatch(channels.filter(channel => channel.isActive), event);
+  }
+
+  private async emit(event: NotificationEvent & { type: NotificationEventType }): Promise<void> {
+    const channels = await storage.getSubscribedNotificationChannels(event.organizationId, event.type);
+    await this.dispatch(channels, event);
+  }
+
+  private async dispatch(channels: NotificationChannel[], event: NotificationEvent): Promise<void> {
+    // The first attempt is made right below, so the stored due time is already the first retry
+    const deliveries = await storage.createNotificationDeliveries(channels.map(channel => ({
+      channelId: channel.id,
+      organizationId: channel.organizationId,
+      event: event.type,
+      payload: event,
+      nextAttemptAt: computeNextAttemptAt(1),
+    })));
+
+    const channelsById = new Map(channels.map(channel => [channel.id, channel]));
+    // Slow receivers must not hold up the sync that emitted the event
+    void Promise.all(deliveries.map(delivery =>
+      this.deliver(delivery, channelsById.get(delivery.channelId)!).catch(error => {
+        console.error(`[notifications] delivery ${delivery.id} errored:`, error);
+      })));
+  }
+
+  private async send(channel: NotificationChannel, delivery: NotificationDelivery): Promise<NotificationSendResult> {
+    let secret: string | null = null;
+    if (channel.secretEncrypted) {
+      try {
+        secret = credentialService.decrypt(channel.secretEncrypted);
+        if (credentialService.needsRotation(channel.secretEncrypted)) {
+          await storage.updateNotificationChannel(channel.id, { secretEncrypted: credentialService.encrypt(secret) });
+        }
+      } catch (error) {
+        console.error(`Unable to decrypt the signing secret of notification channel ${channel.id}:`, error);
+        return { success: false, error: 'The signing secret cannot be recovered. Please set it again.' };
+      }
+    }
+
+    const body = JSON.stringify(this.render(channel.type, delivery));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Prowler-Dashboard-Webhooks',
+      'X-Prowler-Dashboard-Event': delivery.event,
+      'X-Prowler-Dashboard-Delivery': delivery.id,
+      'X-Prowler-Dashboard-Timestamp': timestamp,
+    };
+    if (secret) {
+      headers['X-Prowler-Dashboard-Signature'] = signPayload(secret, timestamp, body);
+    }
+
+    try {
+      const response = await fetch(channel.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      // The body is never read: channel URLs are user-supplied, and the delivery log would otherwise
+      // let any organization member read responses from internal services the server can reach
+      await response.body?.cancel().catch(() => undefined);
+
+      if (!response.ok) {
+        return { success: false, responseStatus: response.status, error: `HTTP ${response.status}` };
+      }
+      return { success: true, responseStatus: response.status };
+    } catch (error) {
+      // fetch reports connection problems as "fetch failed" with the reason in cause
+      const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+      return { success: false, error: error instanceof Error ? `${error.message}${cause}` : 'Request failed' };
+    }
+  }
+
+  private render(type: NotificationChannelType, delivery: NotificationDelivery): unknown {
+    const event = delivery.payload;
+    if (type === 'webhook') {
+      return { id: delivery.id, ...event };
+    }
+
+    const { title, lines } = this.describe(event);
+    if (type === 'slack') {
+      return {
+        text: title,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: title.slice(0, 150) } },
+          ...(lines.length > 0 ? [{ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } }] : []),
+          { type: 'context', elements: [{ type: 'mrkdwn', text: `${event.type} · ${event.occurredAt}` }] },
+        ],
+      };
+    }
+
+    // Adaptive Card, accepted by Teams incoming webhooks and Workflows
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body: [
+            { type: 'TextBlock', text: title, size: 'Medium', weight: 'Bolder', color: event.type === 'test' ? 'Accent' : 'Attention', wrap: true },
+            ...lines.map(line => ({ type: 'TextBlock', text: line, wrap: true, spacing: 'Small' })),
+            { type: 'TextBlock', text: `${event.type} · ${event.occurredAt}`, isSubtle: true, size: 'Small', wrap: true },
+          ],
+        },
+      }],
+    };
+  }
+
+  private describe(event: NotificationEvent): { title: string; lines: string[] } {
+    const source = event.configuration ? ` in ${event.configuration.name}` : '';
+
+    switch (event.type) {
+      case 'findings.new': {
+        const lines = event.findings.slice(0, MAX_MESSAGE_LINES).map(finding =>
+          `[${finding.severity.toUpperCase()}] ${finding.checkTitle || finding.checkId} — ${finding.resourceName || finding.resourceId || 'unknown resource'}`);
+        return { title: `${event.total} new critical/high finding${event.total === 1 ? '' : 's'}${source}`, lines: this.withMore(lines, event.total) };
+      }
+      case 'assets.regressed': {
+        const lines = event.assets.slice(0, MAX_MESSAGE_LINES).map(asset =>
+          `${asset.resourceName} (${asset.resourceType})${asset.severity ? ` — ${asset.severity}` : ''}`);
+        return { title: `${event.total} resource${event.total === 1 ? '' : 's'} became non-compliant${source}`, lines: this.withMore(lines, event.total) };
+      }
+      case 'sync.failed':
+        return { title: `${event.trigger === 'upload' ? 'Import' : 'Sync'} failed${source}`, lines: [event.error] };
+      case 'alert.triggered': {
+        const lines = event.metric
+          ? [`Value ${event.metric.value}, threshold ${event.metric.threshold}`]
+          : this.withMore((event.findings ?? []).slice(0, MAX_MESSAGE_LINES).map(finding =>
+            `[${finding.severity.toUpperCase()}] ${finding.checkTitle || finding.checkId} — ${finding.resourceName || finding.resourceId || 'unknown resource'}`), event.total);
+        return { title: `Alert: ${event.rule.name}${source}`, lines: [event.rule.expression, ...lines] };
+      }
+      default:
+        return { title: 'Test notification', lines: ['This channel is set up correctly.'] };
+    }
+  }
+
+  private withMore(lines: string[], total: number): string[] {
+    return total > lines.length ? [...lines, `…and ${total - lines.length} more`] : lines;
+  }
+}
+
+export const notificationService = new NotificationService();
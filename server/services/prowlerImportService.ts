@@ -0,0 +1,312 @@
+import { prowlerService, type ProwlerFinding, type ProwlerResource } from "./prowlerService";
+
+export type ProwlerOutputFormat = 'json-ocsf' | 'csv' | 'asff';
+
+export interface ProwlerImportResult {
+  format: ProwlerOutputFormat;
+  resources: ProwlerResource[];
+  findings: ProwlerFinding[];
+}
+
+// A finding from a CLI output file, flattened to the attribute names Prowler App's API uses
+interface ImportedFinding {
+  finding: Record<string, any>;
+  resource: Record<string, any>;
+  rawData: any;
+}
+
+const SEVERITY_RANK: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+/**
+ * Parses the output files written by the Prowler CLI (JSON-OCSF, CSV and
+ * ASFF). Each format is flattened to the attribute names of Prowler App's
+ * API and then run through the same normalization as an API sync, so
+ * uploaded scans produce the same assets and findings.
+ */
+export class ProwlerImportService {
+  parseFile(content: Buffer | string): ProwlerImportResult {
+    const text = (typeof content === 'string' ? content : content.toString('utf8')).replace(/^\uFEFF/, '');
+    if (!text.trim()) {
+      throw new Error('The file is empty');
+    }
+
+    const { format, records } = this.readRecords(text);
+    const imported = records.map(record => {
+      switch (format) {
+        case 'json-ocsf': return this.fromOcsf(record);
+        case 'asff': return this.fromAsff(record);
+        default: return this.fromCsv(record);
+      }
+    });
+
+    return { format, ...this.normalize(imported) };
+  }
+
+  private readRecords(text: string): { format: ProwlerOutputFormat; records: any[] } {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+      return { format: 'csv', records: this.parseCsv(text) };
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    // ASFF batches sent to Security Hub wrap the findings in { Findings: [...] }
+    const records: any[] = Array.isArray(data) ? data : data.Findings || [data];
+    const sample = records[0] || {};
+    if (sample.SchemaVersion || sample.ProductArn || sample.GeneratorId) {
+      return { format: 'asff', records };
+    }
+    if (sample.finding_info || sample.class_uid || records.length === 0) {
+      return { format: 'json-ocsf', records };
+    }
+    throw new Error('Unrecognized Prowler output format; expected JSON-OCSF, CSV or ASFF');
+  }
+
+  private fromOcsf(record: any): ImportedFinding {
+    const resource = record.resources?.[0] || {};
+    const checkId = record.metadata?.event_code;
+    const service = resource.group?.name || this.serviceFromCheck(checkId);
+
+    return {
+      finding: {
+        uid: record.finding_info?.uid,
+        check_id: checkId,
+        check_title: record.finding_info?.title,
+        service,
+        status: record.status_code,
+        severity: record.severity,
+        status_extended: record.status_detail,
+        remediation: record.remediation,
+        compliance: record.unmapped?.compliance,
+        first_seen_at: record.finding_info?.created_time_dt,
+      },
+      resource: {
+        id: resource.uid,
+        name: resource.name,
+        type: resource.type,
+        region: resource.region || record.cloud?.region,
+        provider: record.cloud?.provider,
+        account_id: record.cloud?.account?.uid,
+        service,
+        last_checked: record.time_dt || (record.time ? new Date(record.time * 1000).toISOString() : undefined),
+        tags: this.parseLabels(resource.labels),
+      },
+      rawData: record,
+    };
+  }
+
+  private fromCsv(row: Record<string, string>): ImportedFinding {
+    const checkId = row.CHECK_ID;
+    const service = row.SERVICE_NAME || this.serviceFromCheck(checkId);
+
+    return {
+      finding: {
+        uid: row.FINDING_UID,
+        check_id: checkId,
+        check_title: row.CHECK_TITLE,
+        service,
+        status: row.STATUS,
+        severity: row.SEVERITY,
+        status_extended: row.STATUS_EXTENDED,
+        remediation: row.REMEDIATION_RECOMMENDATION_TEXT || row.REMEDIATION_RECOMMENDATION_URL
+          ? { recommendation: { text: row.REMEDIATION_RECOMMENDATION_TEXT, url: row.REMEDIATION_RECOMMENDATION_URL } }
+          : undefined,
+        compliance: this.parseCsvCompliance(row.COMPLIANCE),
+      },
+      resource: {
+        id: row.RESOURCE_UID,
+        name: row.RESOURCE_NAME,
+        type: row.RESOURCE_TYPE,
+        region: row.REGION,
+        provider: row.PROVIDER,
+        account_id: row.ACCOUNT_UID,
+        service,
+        last_checked: row.TIMESTAMP,
+        tags: this.parseKeyValues(row.RESOURCE_TAGS, '|', '='),
+      },
+      rawData: row,
+    };
+  }
+
+  private fromAsff(record: any): ImportedFinding {
+    const resource = record.Resources?.[0] || {};
+    // Prowler sets GeneratorId to "prowler-<check id>"
+    const checkId = String(record.GeneratorId || '').replace(/^prowler-/, '') || undefined;
+    const service = this.serviceFromCheck(checkId);
+    const complianceStatus = String(record.Compliance?.Status || '').toUpperCase();
+
+    return {
+      finding: {
+        uid: record.Id,
+        check_id: checkId,
+        check_title: record.Title,
+        service,
+        status: complianceStatus === 'PASSED' ? 'pass' : complianceStatus === 'FAILED' ? 'fail' : 'manual',
+        severity: record.Severity?.Label,
+        status_extended: record.Description,
+        remediation: record.Remediation,
+        compliance: this.parseAsffCompliance(record.Compliance?.RelatedRequirements),
+        first_seen_at: record.FirstObservedAt || record.CreatedAt,
+      },
+      resource: {
+        id: resource.Id,
+        // ARNs end in the resource name after the last "/" or ":"
+        name: resource.Id ? String(resource.Id).split(/[/:]/).pop() : undefined,
+        type: resource.Type,
+        region: resource.Region,
+        provider: 'aws',
+        account_id: record.AwsAccountId,
+        service,
+        last_checked: record.UpdatedAt,
+        tags: resource.Tags,
+      },
+      rawData: record,
+    };
+  }
+
+  // Output files hold one row per finding; resources are derived from the findings that reference them
+  private normalize(imported: ImportedFinding[]): { resources: ProwlerResource[]; findings: ProwlerFinding[] } {
+    const resources = new Map<string, { resource: Record<string, any>; statuses: string[]; severity?: string }>();
+    const findings = new Map<string, ProwlerFinding>();
+
+    for (const { finding, resource, rawData } of imported) {
+      if (!resource.id) {
+        continue;
+      }
+
+      const normalized = prowlerService.normalizeFinding({
+        ...finding,
+        uid: finding.uid || `${finding.check_id}-${resource.id}`,
+        resource_id: resource.id,
+      });
+      findings.set(normalized.uid, { ...normalized, rawData });
+
+      const entry = resources.get(resource.id) || { resource, statuses: [] };
+      entry.statuses.push(normalized.status);
+      if (normalized.status === 'fail' && (SEVERITY_RANK[normalized.severity] || 0) > (SEVERITY_RANK[entry.severity || ''] || 0)) {
+        entry.severity = normalized.severity;
+      }
+      resources.set(resource.id, entry);
+    }
+
+    return {
+      // A resource fails when any of its checks fail, like the resource status Prowler App reports
+      resources: Array.from(resources.values()).map(({ resource, statuses, severity }) => prowlerService.normalizeResource({
+        ...resource,
+        status: statuses.includes('fail') ? 'fail' : statuses.every(status => status === 'pass') ? 'pass' : 'manual',
+        severity,
+      })),
+      findings: Array.from(findings.values()),
+    };
+  }
+
+  private serviceFromCheck(checkId: string | undefined): string | undefined {
+    return checkId?.split('_')[0] || undefined;
+  }
+
+  // OCSF labels are "key:value" strings
+  private parseLabels(labels: any): Record<string, string> | undefined {
+    if (!Array.isArray(labels)) {
+      return labels;
+    }
+    return this.parseKeyValues(labels.filter(label => typeof label === 'string').join('|'), '|', ':');
+  }
+
+  private parseKeyValues(value: string | undefined, pairSeparator: string, keySeparator: string): Record<string, string> | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const pairs = value.split(pairSeparator).map(pair => pair.trim()).filter(Boolean);
+    return Object.fromEntries(pairs.map(pair => {
+      const index = pair.indexOf(keySeparator);
+      return index === -1 ? [pair, ''] : [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+    }));
+  }
+
+  // e.g. "CIS-2.0: 2.1.1, 2.1.2 | ISO27001-2013: A.12.4"
+  private parseCsvCompliance(value: string | undefined): Record<string, string[]> | undefined {
+    const frameworks = this.parseKeyValues(value, '|', ':');
+    if (!frameworks) {
+      return undefined;
+    }
+    return Object.fromEntries(Object.entries(frameworks).map(([framework, ids]) => [
+      framework,
+      ids.split(',').map(id => id.trim()).filter(Boolean),
+    ]));
+  }
+
+  // e.g. ["CIS-2.0 2.1.1", "CIS-2.0 2.1.2"]
+  private parseAsffCompliance(requirements: any): Record<string, string[]> | undefined {
+    if (!Array.isArray(requirements)) {
+      return undefined;
+    }
+
+    return requirements.reduce((acc: Record<string, string[]>, requirement: string) => {
+      const [framework, ...ids] = String(requirement).trim().split(/\s+/);
+      if (framework) {
+        acc[framework] = [...(acc[framework] || []), ...ids];
+      }
+      return acc;
+    }, {});
+  }
+
+  // Prowler writes ";"-separated CSV; quoted fields may contain separators and newlines
+  private parseCsv(text: string): Record<string, string>[] {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+    const delimiter = firstLine.includes(';') ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim()));
+    const columns = (header || []).map(column => column.trim().toUpperCase());
+    if (!columns.includes('CHECK_ID') || !columns.includes('RESOURCE_UID')) {
+      throw new Error('Unrecognized Prowler output format; expected JSON-OCSF, CSV or ASFF');
+    }
+
+    return body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  }
+}
+
+export const prowlerImportService = new ProwlerImportService();
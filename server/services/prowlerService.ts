@@ -1,13 +1,19 @@
-import bcrypt from 'bcrypt';
+import { cloudProviders, type CloudProvider } from "@shared/schema";
+import { positiveIntegerEnv } from "../env";
 
 export interface ProwlerResource {
   id: string;
   name: string;
   type: string;
   region?: string;
+  provider?: CloudProvider;
+  // AWS account, Azure subscription, GCP project, Kubernetes cluster or M365 tenant
+  accountId?: string;
+  service?: string;
   status: 'compliant' | 'non-compliant' | 'warning' | 'unknown';
   severity?: 'critical' | 'high' | 'medium' | 'low';
   lastChecked?: string;
+  tags?: Record<string, string>;
   rawData?: any;
 }
 
@@ -17,40 +23,221 @@ export interface ProwlerApiResponse {
   error?: string;
 }
 
+export interface ProwlerFinding {
+  uid: string;
+  resourceId?: string;
+  checkId: string;
+  checkTitle?: string;
+  service?: string;
+  status: 'pass' | 'fail' | 'manual';
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'informational';
+  statusExtended?: string;
+  remediation?: any;
+  compliance?: Record<string, string[]>;
+  firstSeen?: string;
+  rawData?: any;
+}
+
+export interface ProwlerFindingsResponse {
+  findingCount: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface ProwlerComplianceRequirement {
+  // Named like the framework keys of finding compliance mappings, e.g. "CIS-2.0"
+  framework: string;
+  requirementId: string;
+  description?: string;
+  status: 'pass' | 'fail' | 'manual';
+  checkIds: string[];
+}
+
+export interface ProwlerComplianceResponse {
+  requirements: ProwlerComplianceRequirement[];
+  success: boolean;
+  error?: string;
+}
+
+export interface PaginationProgress {
+  pagesFetched: number;
+  totalPages: number | null;
+  itemsFetched: number;
+}
+
+export interface PaginationOptions {
+  pageSize?: number;
+  concurrency?: number;
+  onProgress?: (progress: PaginationProgress) => void | Promise<void>;
+}
+
+export interface ProwlerCredentials {
+  url: string;
+  email: string;
+  password: string;
+  // Key for the token cache, normally the configuration id; defaults to url + email
+  cacheKey?: string;
+}
+
+export interface ProviderInfo {
+  provider?: string;
+  uid?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+// Fallback lifetime when Prowler returns neither expires_in nor a JWT exp claim
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+// Treat tokens as expired slightly early so they never lapse mid-request
+const TOKEN_EXPIRY_SKEW_MS = 30 * 1000;
+
+const DEFAULT_PAGE_SIZE = positiveIntegerEnv('PROWLER_PAGE_SIZE', 100);
+const DEFAULT_PAGE_CONCURRENCY = positiveIntegerEnv('PROWLER_PAGE_CONCURRENCY', 4);
+// Guards against a server that keeps returning a links.next
+const MAX_PAGES = 10000;
+
 export class ProwlerService {
-  private async makeRequest(url: string, email: string, password: string, endpoint: string): Promise<any> {
+  private tokenCache = new Map<string, CachedToken>();
+  // Refreshes or logins in flight, so parallel page workers share one instead of each starting their own
+  private pendingTokens = new Map<string, Promise<CachedToken>>();
+
+  private getCacheKey(credentials: ProwlerCredentials): string {
+    return credentials.cacheKey || `${credentials.url}|${credentials.email}`;
+  }
+
+  private parseTokenResponse(authData: any): CachedToken {
+    // Accept both flat responses and Prowler's JSON:API token payloads
+    const payload = authData?.data?.attributes || authData;
+    const accessToken = payload.access_token || payload.access || payload.token;
+
+    if (!accessToken) {
+      throw new Error('No access token received from Prowler API');
+    }
+
+    let expiresAt = Date.now() + DEFAULT_TOKEN_TTL_MS;
+    if (payload.expires_in) {
+      expiresAt = Date.now() + Number(payload.expires_in) * 1000;
+    } else {
+      const exp = this.decodeJwtExpiry(accessToken);
+      if (exp) {
+        expiresAt = exp;
+      }
+    }
+
+    return {
+      accessToken,
+      refreshToken: payload.refresh_token || payload.refresh,
+      expiresAt,
+    };
+  }
+
+  private decodeJwtExpiry(token: string): number | null {
+    const [, body] = token.split('.');
+    if (!body) return null;
+
+    try {
+      const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async login(credentials: ProwlerCredentials): Promise<CachedToken> {
+    const authResponse = await fetch(`${credentials.url}/api/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        email: credentials.email,
+        password: credentials.password,
+      }),
+    });
+
+    if (!authResponse.ok) {
+      throw new Error(`Authentication failed: ${authResponse.statusText}`);
+    }
+
+    return this.parseTokenResponse(await authResponse.json());
+  }
+
+  private async refresh(url: string, refreshToken: string): Promise<CachedToken | null> {
     try {
-      // First, authenticate with Prowler API
-      const authResponse = await fetch(`${url}/api/auth/login`, {
+      const refreshResponse = await fetch(`${url}/api/v1/tokens/refresh`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/vnd.api+json',
         },
         body: JSON.stringify({
-          email,
-          password,
+          data: {
+            type: 'tokens-refresh',
+            attributes: { refresh: refreshToken },
+          },
         }),
       });
 
-      if (!authResponse.ok) {
-        throw new Error(`Authentication failed: ${authResponse.statusText}`);
+      if (!refreshResponse.ok) {
+        return null;
       }
 
-      const authData = await authResponse.json();
-      const token = authData.access_token || authData.token;
+      const token = this.parseTokenResponse(await refreshResponse.json());
+      // Some servers don't rotate refresh tokens; keep using the current one
+      return { ...token, refreshToken: token.refreshToken || refreshToken };
+    } catch (error) {
+      console.warn('Prowler token refresh failed, falling back to login:', error);
+      return null;
+    }
+  }
 
-      if (!token) {
-        throw new Error('No access token received from Prowler API');
-      }
+  private async getAccessToken(credentials: ProwlerCredentials): Promise<string> {
+    const cacheKey = this.getCacheKey(credentials);
+    const cached = this.tokenCache.get(cacheKey);
 
-      // Make the actual API request with the token
-      const response = await fetch(`${url}${endpoint}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_SKEW_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    let pending = this.pendingTokens.get(cacheKey);
+    if (!pending) {
+      pending = (async () => {
+        const token = (cached?.refreshToken && await this.refresh(credentials.url, cached.refreshToken))
+          || await this.login(credentials);
+        this.tokenCache.set(cacheKey, token);
+        return token;
+      })().finally(() => this.pendingTokens.delete(cacheKey));
+      this.pendingTokens.set(cacheKey, pending);
+    }
+
+    return (await pending).accessToken;
+  }
+
+  // Drops the cached access token but keeps the refresh token for the next attempt
+  private expireAccessToken(credentials: ProwlerCredentials): void {
+    const cacheKey = this.getCacheKey(credentials);
+    const cached = this.tokenCache.get(cacheKey);
+    if (cached) {
+      this.tokenCache.set(cacheKey, { ...cached, expiresAt: 0 });
+    }
+  }
+
+  invalidateToken(cacheKey: string): void {
+    this.tokenCache.delete(cacheKey);
+  }
+
+  private async makeRequest(credentials: ProwlerCredentials, endpoint: string): Promise<any> {
+    try {
+      let response = await this.authorizedFetch(credentials, endpoint);
+
+      // The token may have been revoked server-side; re-authenticate and retry once
+      if (response.status === 401) {
+        this.expireAccessToken(credentials);
+        response = await this.authorizedFetch(credentials, endpoint);
+      }
 
       if (!response.ok) {
         throw new Error(`API request failed: ${response.statusText}`);
@@ -63,9 +250,112 @@ export class ProwlerService {
     }
   }
 
+  private async authorizedFetch(credentials: ProwlerCredentials, endpoint: string): Promise<Response> {
+    const token = await this.getAccessToken(credentials);
+
+    return fetch(this.resolveUrl(credentials.url, endpoint), {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  // Endpoints are normally paths, but JSON:API links.next values are absolute URLs
+  private resolveUrl(baseUrl: string, endpoint: string): string {
+    if (!/^https?:\/\//i.test(endpoint)) {
+      return `${baseUrl}${endpoint}`;
+    }
+
+    // Never send the bearer token to a host other than the configured Prowler instance
+    if (new URL(endpoint).origin !== new URL(baseUrl).origin) {
+      throw new Error(`Refusing to follow pagination link to another host: ${endpoint}`);
+    }
+    return endpoint;
+  }
+
+  private withPage(endpoint: string, pageNumber: number, pageSize: number): string {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return `${endpoint}${separator}page[number]=${pageNumber}&page[size]=${pageSize}`;
+  }
+
+  private extractItems(data: any): any[] {
+    return data?.data || data?.resources || [];
+  }
+
+  /**
+   * Fetches every page of a JSON:API collection and hands each one to `handlePage`
+   * as it arrives. When the first page reports meta.pagination.pages the remaining
+   * pages are fetched in parallel (bounded by `concurrency`); otherwise links.next
+   * is followed one page at a time. Handlers run one at a time, in arrival order,
+   * and workers wait for them, so at most `concurrency` pages are held at once.
+   */
+  async forEachPage(
+    credentials: ProwlerCredentials,
+    endpoint: string,
+    handlePage: (items: any[]) => void | Promise<void>,
+    options: PaginationOptions = {},
+  ): Promise<void> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    const concurrency = Math.max(1, options.concurrency || DEFAULT_PAGE_CONCURRENCY);
+
+    const firstPage = await this.makeRequest(credentials, this.withPage(endpoint, 1, pageSize));
+    const totalPages: number | null = firstPage?.meta?.pagination?.pages ?? null;
+    let pagesFetched = 0;
+    let itemsFetched = 0;
+
+    // Pages and progress updates are chained so parallel workers never report out of order
+    let pageChain: Promise<void> = Promise.resolve();
+    const acceptPage = (items: any[]) => {
+      pageChain = pageChain.then(async () => {
+        await handlePage(items);
+        pagesFetched++;
+        itemsFetched += items.length;
+        await options.onProgress?.({ pagesFetched, totalPages, itemsFetched });
+      });
+      return pageChain;
+    };
+    await acceptPage(this.extractItems(firstPage));
+
+    if (totalPages !== null) {
+      let nextPage = 2;
+      const lastPage = Math.min(totalPages, MAX_PAGES);
+
+      const worker = async () => {
+        while (nextPage <= lastPage) {
+          const pageNumber = nextPage++;
+          const data = await this.makeRequest(credentials, this.withPage(endpoint, pageNumber, pageSize));
+          await acceptPage(this.extractItems(data));
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, Math.max(lastPage - 1, 0)) }, worker));
+    } else {
+      let next: string | undefined = firstPage?.links?.next;
+
+      for (let pageCount = 1; next && pageCount < MAX_PAGES; pageCount++) {
+        const data = await this.makeRequest(credentials, next);
+        await acceptPage(this.extractItems(data));
+        next = data?.links?.next;
+      }
+    }
+  }
+
+  // Collects every page; only for collections small enough to hold at once, such as scans and providers
+  async fetchAllPages(credentials: ProwlerCredentials, endpoint: string, options: PaginationOptions = {}): Promise<any[]> {
+    const items: any[] = [];
+    await this.forEachPage(credentials, endpoint, page => { items.push(...page); }, options);
+    return items;
+  }
+
   async testConnection(prowlerUrl: string, email: string, password: string): Promise<{ success: boolean; error?: string }> {
+    const credentials = { url: prowlerUrl, email, password };
+
     try {
-      await this.makeRequest(prowlerUrl, email, password, '/api/health');
+      // Always log in fresh so a test reflects the credentials just entered
+      this.invalidateToken(this.getCacheKey(credentials));
+      await this.makeRequest(credentials, '/api/health');
       return { success: true };
     } catch (error) {
       return { 
@@ -75,21 +365,16 @@ export class ProwlerService {
     }
   }
 
-  async fetchResources(prowlerUrl: string, email: string, password: string): Promise<ProwlerApiResponse> {
+  async fetchResources(credentials: ProwlerCredentials, options: PaginationOptions = {}): Promise<ProwlerApiResponse> {
     try {
-      const data = await this.makeRequest(prowlerUrl, email, password, '/api/v5/resources');
+      const items = await this.fetchAllPages(credentials, '/api/v5/resources', options);
+      const providers = await this.fetchProviders(credentials);
       
-      // Transform the response to match our expected format
-      const resources: ProwlerResource[] = (data.resources || data.data || []).map((resource: any) => ({
-        id: resource.id || resource.resource_id || resource.arn,
-        name: resource.name || resource.resource_name || resource.id,
-        type: resource.type || resource.resource_type || resource.service,
-        region: resource.region || resource.aws_region,
-        status: this.mapStatus(resource.status || resource.compliance_status),
-        severity: this.mapSeverity(resource.severity || resource.risk_level),
-        lastChecked: resource.last_checked || resource.scan_time || new Date().toISOString(),
-        rawData: resource,
-      }));
+      // JSON:API items nest fields under attributes and link their provider by id
+      const resources = items.map((item: any) => this.normalizeResource(
+        item.attributes ? { id: item.id, ...item.attributes } : item,
+        providers.get(item.relationships?.provider?.data?.id),
+      ));
 
       return {
         resources,
@@ -104,6 +389,222 @@ export class ProwlerService {
     }
   }
 
+  // Transforms a Prowler resource into our expected format; also used for imported CLI output
+  normalizeResource(resource: any, providerInfo?: ProviderInfo): ProwlerResource {
+    return {
+      id: resource.id || resource.resource_id || resource.arn,
+      name: resource.name || resource.resource_name || resource.id,
+      type: resource.type || resource.resource_type || resource.service,
+      region: resource.region || resource.aws_region,
+      provider: this.mapProvider(providerInfo?.provider || resource.provider, resource.uid || resource.arn || resource.id),
+      accountId: providerInfo?.uid || resource.account_id || resource.subscription_id || resource.project_id || undefined,
+      service: resource.service || undefined,
+      status: this.mapStatus(resource.status || resource.compliance_status),
+      severity: this.mapSeverity(resource.severity || resource.risk_level),
+      lastChecked: resource.last_checked || resource.scan_time || new Date().toISOString(),
+      tags: this.normalizeTags(resource.tags),
+      rawData: resource,
+    };
+  }
+
+  // Accepts JSON:API finding items as well as flat finding attributes
+  normalizeFinding(item: any): ProwlerFinding {
+    const finding = item.attributes ? { id: item.id, ...item.attributes } : item;
+    const metadata = finding.check_metadata || {};
+    const resourceLink = item.relationships?.resources?.data;
+
+    return {
+      uid: finding.uid || finding.finding_uid || finding.id,
+      resourceId: (Array.isArray(resourceLink) ? resourceLink[0]?.id : resourceLink?.id) || finding.resource_id,
+      checkId: finding.check_id || metadata.checkid || 'unknown',
+      checkTitle: metadata.checktitle || finding.check_title,
+      service: metadata.servicename || finding.service_name || finding.service,
+      status: this.mapFindingStatus(finding.status),
+      severity: this.mapFindingSeverity(finding.severity || metadata.severity),
+      statusExtended: finding.status_extended,
+      remediation: metadata.remediation || finding.remediation,
+      compliance: this.normalizeCompliance(finding.compliance || metadata.compliance),
+      firstSeen: finding.first_seen_at || finding.inserted_at,
+      rawData: item,
+    };
+  }
+
+  // Resources reference their provider by id; the provider carries the cloud type and account uid
+  private async fetchProviders(credentials: ProwlerCredentials): Promise<Map<string, ProviderInfo>> {
+    try {
+      const items = await this.fetchAllPages(credentials, '/api/v1/providers');
+      return new Map(items.map((item: any) => {
+        const provider = item.attributes || item;
+        return [item.id, { provider: provider.provider, uid: provider.uid }];
+      }));
+    } catch (error) {
+      // Older Prowler versions have no providers endpoint; fall back to the resource attributes
+      console.warn('Failed to fetch Prowler providers:', error);
+      return new Map();
+    }
+  }
+
+  private mapProvider(provider: string | undefined, resourceUid: string | undefined): CloudProvider | undefined {
+    const lowerProvider = (provider || '').toLowerCase();
+    if ((cloudProviders as readonly string[]).includes(lowerProvider)) {
+      return lowerProvider as CloudProvider;
+    }
+
+    const uid = (resourceUid || '').toLowerCase();
+    if (uid.startsWith('arn:aws')) return 'aws';
+    if (uid.startsWith('/subscriptions/')) return 'azure';
+    return undefined;
+  }
+
+  /**
+   * Streams the findings of each provider's latest scan to `handleBatch`, one page
+   * at a time. /api/v1/findings would return every historical scan's findings too.
+   */
+  async fetchFindings(
+    credentials: ProwlerCredentials,
+    handleBatch: (findings: ProwlerFinding[]) => Promise<void>,
+    options: PaginationOptions = {},
+  ): Promise<ProwlerFindingsResponse> {
+    let findingCount = 0;
+    try {
+      await this.forEachPage(credentials, '/api/v1/findings/latest', async (items) => {
+        await handleBatch(items.map((item: any) => this.normalizeFinding(item)));
+        findingCount += items.length;
+      }, options);
+
+      return {
+        findingCount,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        findingCount,
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch findings',
+      };
+    }
+  }
+
+  /**
+   * Fetches the requirements of every framework Prowler evaluated in the latest
+   * completed scan of each provider. Overviews are computed per scan, so only
+   * the newest scans matter.
+   */
+  async fetchComplianceRequirements(credentials: ProwlerCredentials): Promise<ProwlerComplianceResponse> {
+    try {
+      // Newest first, so the first scan seen for a provider is its latest; a provider scanned long ago can sit on a later page
+      const scans = await this.fetchAllPages(credentials, '/api/v1/scans?filter[state]=completed&sort=-inserted_at');
+      const latestScans = new Map<string, string>();
+      for (const scan of scans) {
+        const providerId = scan.relationships?.provider?.data?.id ?? scan.id;
+        if (!latestScans.has(providerId)) {
+          latestScans.set(providerId, scan.id);
+        }
+      }
+
+      const requirements = new Map<string, ProwlerComplianceRequirement>();
+      for (const scanId of Array.from(latestScans.values())) {
+        const scanFilter = `filter[scan_id]=${encodeURIComponent(scanId)}`;
+        const overviews = await this.fetchAllPages(credentials, `/api/v1/compliance-overviews?${scanFilter}`);
+
+        for (const overview of overviews) {
+          const attributes = overview.attributes || overview;
+          const complianceId = attributes.compliance_id || overview.id;
+          const framework = this.complianceFrameworkName(attributes.framework || complianceId, attributes.version);
+          const items = await this.fetchAllPages(
+            credentials,
+            `/api/v1/compliance-overviews/requirements?${scanFilter}&filter[compliance_id]=${encodeURIComponent(complianceId)}`,
+          );
+
+          for (const item of items) {
+            const requirement = item.attributes || item;
+            const requirementId = String(requirement.id ?? item.id);
+            const key = `${framework}\u0000${requirementId}`;
+            const existing = requirements.get(key);
+            const status = this.mapFindingStatus(requirement.status);
+
+            // A requirement shared by several providers fails when any of them fails it
+            requirements.set(key, {
+              framework,
+              requirementId,
+              description: existing?.description || requirement.description || undefined,
+              status: existing?.status === 'fail' || status === 'fail' ? 'fail' : existing?.status === 'pass' || status === 'pass' ? 'pass' : 'manual',
+              checkIds: Array.from(new Set([...(existing?.checkIds ?? []), ...(requirement.check_ids || requirement.checks || []).map(String)])),
+            });
+          }
+        }
+      }
+
+      return {
+        requirements: Array.from(requirements.values()),
+        success: true,
+      };
+    } catch (error) {
+      return {
+        requirements: [],
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch compliance overviews',
+      };
+    }
+  }
+
+  // Overviews name the framework and version separately; finding mappings join them, e.g. "CIS-2.0"
+  private complianceFrameworkName(framework: string, version?: string): string {
+    return version && !framework.endsWith(version) ? `${framework}-${version}` : framework;
+  }
+
+  private mapFindingStatus(status: string): 'pass' | 'fail' | 'manual' {
+    const lowerStatus = (status || '').toLowerCase();
+    if (lowerStatus === 'pass') return 'pass';
+    if (lowerStatus === 'fail') return 'fail';
+    return 'manual';
+  }
+
+  private mapFindingSeverity(severity: string): 'critical' | 'high' | 'medium' | 'low' | 'informational' {
+    const lowerSeverity = (severity || '').toLowerCase();
+    if (lowerSeverity.startsWith('info')) return 'informational';
+    return this.mapSeverity(lowerSeverity);
+  }
+
+  // Prowler reports compliance either as { framework: [ids] } or as a list of { framework, requirements }
+  private normalizeCompliance(compliance: any): Record<string, string[]> | undefined {
+    if (!compliance) return undefined;
+
+    if (Array.isArray(compliance)) {
+      return compliance.reduce((acc: Record<string, string[]>, entry: any) => {
+        const framework = entry.framework || entry.name;
+        if (framework) {
+          acc[framework] = (entry.requirements || entry.ids || []).map(String);
+        }
+        return acc;
+      }, {});
+    }
+
+    return Object.fromEntries(
+      Object.entries(compliance).map(([framework, ids]) => [
+        framework,
+        (Array.isArray(ids) ? ids : [ids]).map(String),
+      ]),
+    );
+  }
+
+  // Tags arrive either as a { key: value } map or as a list of { key, value } pairs
+  private normalizeTags(tags: any): Record<string, string> | undefined {
+    if (!tags) return undefined;
+
+    if (Array.isArray(tags)) {
+      return tags.reduce((acc: Record<string, string>, tag: any) => {
+        const key = tag.key ?? tag.Key;
+        if (key) {
+          acc[key] = String(tag.value ?? tag.Value ?? '');
+        }
+        return acc;
+      }, {});
+    }
+
+    return Object.fromEntries(Object.entries(tags).map(([key, value]) => [key, String(value ?? '')]));
+  }
+
   private mapStatus(status: string): 'compliant' | 'non-compliant' | 'warning' | 'unknown' {
     if (!status) return 'unknown';
     
@@ -135,14 +636,6 @@ export class ProwlerService {
     }
     return 'low';
   }
-
-  async hashPassword(password: string): Promise<string> {
-    return bcrypt.hash(password, 10);
-  }
-
-  async verifyPassword(password: string, hash: string): Promise<boolean> {
-    return bcrypt.compare(password, hash);
-  }
 }
 
 export const prowlerService = new ProwlerService();
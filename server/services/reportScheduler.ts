@@ -0,0 +1,82 @@
+import type { ReportFrequency } from "@shared/schema";
+import { storage } from "../storage";
+import { reportService } from "./reportService";
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000;
+// Reports are generated early in the morning (UTC) so they are ready at the start of the day
+const REPORT_HOUR_UTC = 6;
+
+// Weekly reports run on Mondays, monthly reports on the first of the month
+export function computeNextReportAt(frequency: ReportFrequency | null, from: Date = new Date()): Date | null {
+  if (!frequency) {
+    return null;
+  }
+
+  const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), REPORT_HOUR_UTC));
+  if (frequency === 'weekly') {
+    const daysUntilMonday = (8 - next.getUTCDay()) % 7;
+    next.setUTCDate(next.getUTCDate() + daysUntilMonday);
+    if (next <= from) {
+      next.setUTCDate(next.getUTCDate() + 7);
+    }
+  } else {
+    next.setUTCDate(1);
+    if (next <= from) {
+      next.setUTCMonth(next.getUTCMonth() + 1);
+    }
+  }
+  return next;
+}
+
+/**
+ * Polls for organizations whose nextReportAt has passed and generates their
+ * executive report, one organization at a time.
+ */
+export class ReportScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueOrganizations = await storage.getOrganizationsDueForReport(new Date());
+
+      for (const organization of dueOrganizations) {
+        // Schedule the next run first so a failing report is retried next period, not every tick
+        await storage.setNextReportAt(organization.id, computeNextReportAt(organization.reportFrequency));
+
+        try {
+          await reportService.generateReport(organization, organization.reportFrequency!, "scheduled");
+        } catch (error) {
+          console.error(`[reports] report generation failed for organization ${organization.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[reports] failed to load organizations due for a report:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const reportScheduler = new ReportScheduler();
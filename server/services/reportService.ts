@@ -0,0 +1,323 @@
+import PDFDocument from 'pdfkit';
+import {
+  assetQuerySchema,
+  type Asset,
+  type AssetStats,
+  type Organization,
+  type PostureHistoryPoint,
+  type ReportFrequency,
+  type ReportSummary,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+const PAGE_MARGIN = 50;
+const TOP_SERVICES = 10;
+const TOP_CRITICAL_RESOURCES = 20;
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  border: '#e2e8f0',
+  compliant: '#16a34a',
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+};
+
+interface ReportData {
+  organization: Organization;
+  periodStart: string;
+  periodEnd: string;
+  stats: AssetStats;
+  history: PostureHistoryPoint[];
+  criticalResources: Asset[];
+}
+
+// The report covers the week or month that ends on `periodEnd`
+export function getReportPeriod(frequency: ReportFrequency, periodEnd: Date = new Date()): { periodStart: string; periodEnd: string } {
+  const start = new Date(periodEnd);
+  if (frequency === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - 7);
+  } else {
+    start.setUTCMonth(start.getUTCMonth() - 1);
+  }
+  return { periodStart: start.toISOString().slice(0, 10), periodEnd: periodEnd.toISOString().slice(0, 10) };
+}
+
+/**
+ * Renders the executive compliance report with PDFKit, entirely in-process, and
+ * stores the PDF so past reports remain downloadable.
+ */
+export class ReportService {
+  async generateReport(
+    organization: Organization,
+    frequency: ReportFrequency,
+    trigger: "manual" | "scheduled",
+    createdBy: string | null = null,
+  ): Promise<ReportSummary> {
+    const configs = (await storage.getProwlerConfigurations(organization.id)).filter(config => config.isActive);
+    if (configs.length === 0) {
+      throw new Error("No Prowler configuration found");
+    }
+
+    const configurationIds = configs.map(config => config.id);
+    const { periodStart, periodEnd } = getReportPeriod(frequency);
+    const stats = await storage.getAssetStats(configurationIds);
+    const history = await storage.getPostureHistory(configurationIds, periodStart, periodEnd, 'day');
+    const criticalResources = await storage.getAssets(configurationIds, assetQuerySchema.parse({
+      severity: 'critical',
+      sort: 'status',
+      order: 'desc',
+      pageSize: TOP_CRITICAL_RESOURCES,
+    }));
+
+    const content = await this.render({
+      organization,
+      periodStart,
+      periodEnd,
+      stats,
+      history,
+      criticalResources: criticalResources.items,
+    });
+
+    return await storage.createReport({
+      organizationId: organization.id,
+      periodStart,
+      periodEnd,
+      trigger,
+      createdBy,
+      sizeBytes: content.length,
+      content,
+    });
+  }
+
+  private render(data: ReportData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        info: { Title: `Executive Compliance Report - ${data.organization.name}`, Author: 'Prowler Dashboard' },
+      });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      this.renderHeader(doc, data);
+      this.renderSummaryCards(doc, data.stats);
+      this.renderSeverityBreakdown(doc, data.stats);
+      this.renderTopFailingServices(doc, data.stats);
+      this.renderTrend(doc, data.history);
+      this.renderCriticalResources(doc, data.criticalResources);
+
+      doc.end();
+    });
+  }
+
+  private contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  // Starts a new page when the next block would not fit on the current one
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+  }
+
+  private sectionTitle(doc: PDFKit.PDFDocument, title: string, blockHeight: number): void {
+    this.ensureSpace(doc, blockHeight + 30);
+    doc.moveDown(1.5);
+    doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text).text(title, PAGE_MARGIN, doc.y);
+    doc.moveDown(0.5);
+  }
+
+  private renderHeader(doc: PDFKit.PDFDocument, data: ReportData): void {
+    doc.font('Helvetica-Bold').fontSize(22).fillColor(COLORS.text).text('Executive Compliance Report');
+    doc.moveDown(0.3);
+    doc.font('Helvetica').fontSize(11).fillColor(COLORS.muted)
+      .text(`${data.organization.name}  ·  ${data.periodStart} to ${data.periodEnd}`)
+      .text(`Generated ${new Date().toUTCString()}`);
+  }
+
+  private renderSummaryCards(doc: PDFKit.PDFDocument, stats: AssetStats): void {
+    const complianceRate = stats.totalResources > 0 ? Math.round((stats.compliantResources / stats.totalResources) * 100) : 0;
+    const cards = [
+      { label: 'Total Resources', value: String(stats.totalResources), color: COLORS.text },
+      { label: 'Compliant', value: `${stats.compliantResources} (${complianceRate}%)`, color: COLORS.compliant },
+      { label: 'Critical Issues', value: String(stats.criticalIssues), color: COLORS.critical },
+      { label: 'Last Scan', value: stats.lastScan ? new Date(stats.lastScan).toISOString().slice(0, 10) : 'Never', color: COLORS.text },
+    ];
+
+    const gap = 10;
+    const width = (this.contentWidth(doc) - gap * (cards.length - 1)) / cards.length;
+    const height = 60;
+    doc.moveDown(1.5);
+    const top = doc.y;
+
+    cards.forEach((card, index) => {
+      const left = PAGE_MARGIN + index * (width + gap);
+      doc.roundedRect(left, top, width, height, 4).strokeColor(COLORS.border).stroke();
+      doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(card.label, left + 10, top + 10, { width: width - 20 });
+      doc.font('Helvetica-Bold').fontSize(16).fillColor(card.color).text(card.value, left + 10, top + 28, { width: width - 20, lineBreak: false });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + height;
+  }
+
+  private renderSeverityBreakdown(doc: PDFKit.PDFDocument, stats: AssetStats): void {
+    const severities = ['critical', 'high', 'medium', 'low'] as const;
+    const rowHeight = 18;
+    this.sectionTitle(doc, 'Severity Breakdown', severities.length * rowHeight);
+
+    const max = Math.max(1, ...severities.map(severity => stats.severityBreakdown[severity] || 0));
+    const labelWidth = 70;
+    const countWidth = 50;
+    const barWidth = this.contentWidth(doc) - labelWidth - countWidth;
+    let y = doc.y;
+
+    for (const severity of severities) {
+      const count = stats.severityBreakdown[severity] || 0;
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.text)
+        .text(severity.charAt(0).toUpperCase() + severity.slice(1), PAGE_MARGIN, y + 2, { width: labelWidth });
+      doc.rect(PAGE_MARGIN + labelWidth, y, barWidth, 12).fillColor('#f1f5f9').fill();
+      if (count > 0) {
+        doc.rect(PAGE_MARGIN + labelWidth, y, (count / max) * barWidth, 12).fillColor(COLORS[severity]).fill();
+      }
+      doc.fillColor(COLORS.text).text(String(count), PAGE_MARGIN + labelWidth + barWidth, y + 2, { width: countWidth, align: 'right' });
+      y += rowHeight;
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y;
+  }
+
+  private renderTopFailingServices(doc: PDFKit.PDFDocument, stats: AssetStats): void {
+    const services = Object.entries(stats.serviceBreakdown)
+      .map(([service, serviceStats]) => ({ service, ...serviceStats, failing: serviceStats.total - serviceStats.compliant }))
+      .filter(service => service.failing > 0)
+      .sort((a, b) => b.failing - a.failing || b.critical - a.critical)
+      .slice(0, TOP_SERVICES);
+
+    this.sectionTitle(doc, 'Top Failing Services', 20 + Math.max(1, services.length) * 18);
+    if (services.length === 0) {
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text('No failing services.');
+      return;
+    }
+
+    this.renderTable(doc, [
+      { header: 'Service', width: 0.4 },
+      { header: 'Resources', width: 0.15, align: 'right' },
+      { header: 'Failing', width: 0.15, align: 'right' },
+      { header: 'Critical', width: 0.15, align: 'right' },
+      { header: 'Compliant', width: 0.15, align: 'right' },
+    ], services.map(service => [
+      service.service,
+      String(service.total),
+      String(service.failing),
+      String(service.critical),
+      `${Math.round((service.compliant / service.total) * 100)}%`,
+    ]));
+  }
+
+  private renderTrend(doc: PDFKit.PDFDocument, history: PostureHistoryPoint[]): void {
+    const chartHeight = 150;
+    this.sectionTitle(doc, 'Compliance Trend', chartHeight + 30);
+
+    if (history.length < 2) {
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+        .text('Not enough posture snapshots in this period to chart a trend.');
+      return;
+    }
+
+    const axisWidth = 35;
+    const left = PAGE_MARGIN + axisWidth;
+    const width = this.contentWidth(doc) - axisWidth;
+    const top = doc.y + 5;
+    const bottom = top + chartHeight;
+    const rates = history.map(point => point.totalResources > 0 ? (point.compliantResources / point.totalResources) * 100 : 0);
+
+    // Horizontal gridlines at every 25% of compliance
+    doc.font('Helvetica').fontSize(8);
+    for (const percent of [0, 25, 50, 75, 100]) {
+      const y = bottom - (percent / 100) * chartHeight;
+      doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      doc.fillColor(COLORS.muted).text(`${percent}%`, PAGE_MARGIN, y - 4, { width: axisWidth - 5, align: 'right' });
+    }
+
+    const pointX = (index: number) => left + (index / (history.length - 1)) * width;
+    const pointY = (rate: number) => bottom - (rate / 100) * chartHeight;
+    rates.forEach((rate, index) => {
+      if (index === 0) {
+        doc.moveTo(pointX(index), pointY(rate));
+      } else {
+        doc.lineTo(pointX(index), pointY(rate));
+      }
+    });
+    doc.lineWidth(2).strokeColor(COLORS.compliant).stroke();
+
+    doc.fillColor(COLORS.muted)
+      .text(history[0].snapshotDate, left, bottom + 5, { lineBreak: false })
+      .text(history[history.length - 1].snapshotDate, left + width - 60, bottom + 5, { width: 60, align: 'right' });
+
+    const first = rates[0];
+    const last = rates[rates.length - 1];
+    const change = Math.round((last - first) * 10) / 10;
+    doc.x = PAGE_MARGIN;
+    doc.y = bottom + 20;
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.text)
+      .text(`Compliance moved from ${first.toFixed(1)}% to ${last.toFixed(1)}% (${change >= 0 ? '+' : ''}${change} points) over the period.`);
+  }
+
+  private renderCriticalResources(doc: PDFKit.PDFDocument, resources: Asset[]): void {
+    this.sectionTitle(doc, `Top ${TOP_CRITICAL_RESOURCES} Critical Resources`, 20 + Math.max(1, Math.min(resources.length, 5)) * 18);
+    if (resources.length === 0) {
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text('No critical resources.');
+      return;
+    }
+
+    this.renderTable(doc, [
+      { header: 'Resource', width: 0.45 },
+      { header: 'Type', width: 0.2 },
+      { header: 'Region', width: 0.15 },
+      { header: 'Status', width: 0.2 },
+    ], resources.map(resource => [
+      resource.resourceName,
+      resource.resourceType,
+      resource.region || 'N/A',
+      resource.status,
+    ]));
+  }
+
+  private renderTable(
+    doc: PDFKit.PDFDocument,
+    columns: Array<{ header: string; width: number; align?: 'left' | 'right' }>,
+    rows: string[][],
+  ): void {
+    const totalWidth = this.contentWidth(doc);
+    const rowHeight = 18;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.ensureSpace(doc, rowHeight);
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(bold ? COLORS.muted : COLORS.text);
+      cells.forEach((cell, index) => {
+        const width = columns[index].width * totalWidth;
+        // A one-line height makes PDFKit truncate long names with an ellipsis instead of wrapping
+        doc.text(cell, x + 4, y + 5, { width: width - 8, height: 10, align: columns[index].align || 'left', ellipsis: true });
+        x += width;
+      });
+      doc.moveTo(PAGE_MARGIN, y + rowHeight).lineTo(PAGE_MARGIN + totalWidth, y + rowHeight).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      doc.x = PAGE_MARGIN;
+      doc.y = y + rowHeight;
+    };
+
+    drawRow(columns.map(column => column.header), true);
+    rows.forEach(row => drawRow(row, false));
+  }
+}
+
+export const reportService = new ReportService();
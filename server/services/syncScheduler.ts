@@ -0,0 +1,78 @@
+import type { ProwlerConfiguration } from "@shared/schema";
+import { storage } from "../storage";
+import { syncService } from "./syncService";
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+
+export function computeNextSyncAt(
+  config: Pick<ProwlerConfiguration, "syncIntervalMinutes" | "syncJitterMinutes">,
+  from: Date = new Date(),
+): Date | null {
+  if (!config.syncIntervalMinutes) {
+    return null;
+  }
+
+  const jitterMs = Math.floor(Math.random() * (config.syncJitterMinutes || 0) * 60 * 1000);
+  return new Date(from.getTime() + config.syncIntervalMinutes * 60 * 1000 + jitterMs);
+}
+
+/**
+ * Polls for active configurations whose nextSyncAt has passed and syncs them
+ * one at a time, so a slow Prowler instance never piles up overlapping runs.
+ */
+export class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  async start(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    const interrupted = await storage.failInterruptedSyncJobs();
+    if (interrupted > 0) {
+      console.log(`[scheduler] marked ${interrupted} interrupted sync job(s) as failed`);
+    }
+
+    this.timer = setInterval(() => void this.tick(), pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueConfigs = await storage.getDueConfigurations(new Date());
+
+      for (const config of dueConfigs) {
+        // Schedule the next run first so a failing sync is retried on the next interval, not every tick
+        await storage.setNextSyncAt(config.id, computeNextSyncAt(config));
+
+        try {
+          const result = await syncService.syncConfiguration(config, "scheduled");
+          if (!result.success && !result.alreadyRunning) {
+            console.error(`[scheduler] sync failed for configuration ${config.id}: ${result.error}`);
+          }
+        } catch (error) {
+          console.error(`[scheduler] sync errored for configuration ${config.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[scheduler] failed to load due configurations:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
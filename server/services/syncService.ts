@@ -0,0 +1,354 @@
+import type { AssetChange, ProwlerConfiguration, SyncJob } from "@shared/schema";
+import { storage, type SyncAccountScope } from "../storage";
+import { positiveIntegerEnv } from "../env";
+import { prowlerService, type PaginationProgress, type ProwlerFinding, type ProwlerResource } from "./prowlerService";
+import { prowlerImportService, type ProwlerImportResult } from "./prowlerImportService";
+import { credentialService } from "./credentialService";
+import { fileSourceService, type SourceFile } from "./fileSourceService";
+import { notificationService } from "./notificationService";
+import { alertService } from "./alertService";
+
+// Files beyond this are left for the next run so one sync never holds a huge backlog in memory.
+// Watched sources sync hourly by default, so raise it (or shorten the schedule) to drain a large backlog faster
+const MAX_SOURCE_FILES_PER_RUN = positiveIntegerEnv('SOURCE_FILES_PER_RUN', 50);
+
+export interface SyncResult {
+  success: boolean;
+  resourceCount: number;
+  findingCount: number;
+  requiresReconfiguration?: boolean;
+  alreadyRunning?: boolean;
+  error?: string;
+}
+
+export class SyncService {
+  // Configuration ids with a sync in flight, so manual and scheduled runs never overlap
+  private running = new Set<string>();
+
+  // Recovers the plaintext Prowler password (or S3 secret access key), re-encrypting it if it was stored under a rotated key.
+  private async recoverPassword(config: ProwlerConfiguration): Promise<string | null> {
+    if (!config.prowlerPasswordEncrypted) {
+      return null;
+    }
+
+    try {
+      const password = credentialService.decrypt(config.prowlerPasswordEncrypted);
+      if (credentialService.needsRotation(config.prowlerPasswordEncrypted)) {
+        await storage.updateConfigurationCredentials(config.id, credentialService.encrypt(password));
+      }
+      return password;
+    } catch (error) {
+      console.error(`Unable to decrypt credentials for configuration ${config.id}:`, error);
+      return null;
+    }
+  }
+
+  isRunning(configId: string): boolean {
+    return this.running.has(configId);
+  }
+
+  async syncConfiguration(config: ProwlerConfiguration, trigger: SyncJob["trigger"] = "manual"): Promise<SyncResult> {
+    return this.runJob(config, trigger, job => this.runSync(config, job));
+  }
+
+  // Imports a Prowler CLI output file (JSON-OCSF, CSV or ASFF) as a sync run of the configuration
+  async importFile(config: ProwlerConfiguration, content: Buffer): Promise<SyncResult> {
+    return this.runJob(config, "upload", job => this.runImport(config, job, content));
+  }
+
+  /**
+   * Records a job for each configuration and syncs them one after another in the
+   * background, so a request can return the job ids at once and poll them for
+   * progress. Configurations that are already syncing get no job.
+   */
+  async startSyncs(configs: ProwlerConfiguration[], trigger: SyncJob["trigger"] = "manual"): Promise<Array<{ config: ProwlerConfiguration; job: SyncJob }>> {
+    const started: Array<{ config: ProwlerConfiguration; job: SyncJob }> = [];
+    try {
+      for (const config of configs) {
+        const job = await this.createJob(config, trigger);
+        if (job) {
+          started.push({ config, job });
+        }
+      }
+    } finally {
+      // Jobs already recorded still run if recording a later one failed
+      void (async () => {
+        for (const { config, job } of started) {
+          await this.completeJob(config, trigger, job, job => this.runSync(config, job))
+            .catch(error => console.error(`Sync errored for configuration ${config.id}:`, error));
+        }
+      })();
+    }
+    return started;
+  }
+
+  private async runJob(config: ProwlerConfiguration, trigger: SyncJob["trigger"], run: (job: SyncJob) => Promise<SyncResult>): Promise<SyncResult> {
+    const job = await this.createJob(config, trigger);
+    if (!job) {
+      return { success: false, resourceCount: 0, findingCount: 0, alreadyRunning: true, error: "A sync is already running for this configuration" };
+    }
+    return this.completeJob(config, trigger, job, run);
+  }
+
+  // Null when the configuration is already syncing; otherwise it counts as running until completeJob finishes
+  private async createJob(config: ProwlerConfiguration, trigger: SyncJob["trigger"]): Promise<SyncJob | null> {
+    if (this.running.has(config.id)) {
+      return null;
+    }
+
+    this.running.add(config.id);
+    return storage.createSyncJob(config.id, trigger).catch((error) => {
+      this.running.delete(config.id);
+      throw error;
+    });
+  }
+
+  private async completeJob(config: ProwlerConfiguration, trigger: SyncJob["trigger"], job: SyncJob, run: (job: SyncJob) => Promise<SyncResult>): Promise<SyncResult> {
+    try {
+      const result = await run(job);
+      await storage.finishSyncJob(job.id, {
+        status: result.success ? "succeeded" : "failed",
+        resourceCount: result.resourceCount,
+        findingCount: result.findingCount,
+        error: result.error,
+      });
+      if (!result.success) {
+        await notificationService.notifySyncFailed(config, trigger, result.error || "Unknown sync error");
+      }
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown sync error";
+      await storage.finishSyncJob(job.id, { status: "failed", error: message });
+      await storage.updateConfigurationStatus(config.id, "error");
+      await notificationService.notifySyncFailed(config, trigger, message);
+      throw error;
+    } finally {
+      this.running.delete(config.id);
+    }
+  }
+
+  private async runSync(config: ProwlerConfiguration, job: SyncJob): Promise<SyncResult> {
+    if (config.sourceType === "directory" || config.sourceType === "s3") {
+      return this.runFileSource(config, job);
+    }
+
+    if (config.sourceType !== "api" || !config.prowlerUrl || !config.prowlerEmail) {
+      return { success: false, resourceCount: 0, findingCount: 0, error: "This configuration is updated by uploading Prowler output files" };
+    }
+
+    const password = await this.recoverPassword(config);
+    if (password === null) {
+      return {
+        success: false,
+        resourceCount: 0,
+        findingCount: 0,
+        requiresReconfiguration: true,
+        error: "Stored Prowler credentials cannot be recovered. Please reconfigure your Prowler connection.",
+      };
+    }
+
+    const credentials = {
+      url: config.prowlerUrl,
+      email: config.prowlerEmail,
+      password,
+      cacheKey: config.id,
+    };
+    const onProgress = (progress: PaginationProgress) => storage.updateSyncJobProgress(job.id, progress);
+
+    // Everything written by this run is stamped with the job start so stale rows can be detected
+    const seenAt = new Date(job.startedAt);
+
+    const result = await prowlerService.fetchResources(credentials, { onProgress });
+    if (!result.success) {
+      await storage.updateConfigurationStatus(config.id, "error");
+      return { success: false, resourceCount: 0, findingCount: 0, error: result.error };
+    }
+
+    // Findings are written page by page as they arrive, so they link to the assets written first.
+    // Stale findings are only removed once every page is in, so a failed run deletes nothing
+    const changes = await this.writeAssets(config, result.resources, seenAt);
+    const findingsResult = await prowlerService.fetchFindings(
+      credentials,
+      findings => this.writeFindings(config, findings, seenAt),
+      { onProgress },
+    );
+    if (!findingsResult.success) {
+      await storage.updateConfigurationStatus(config.id, "error");
+      return {
+        success: false,
+        resourceCount: result.resources.length,
+        findingCount: findingsResult.findingCount,
+        error: `Failed to fetch findings: ${findingsResult.error}`,
+      };
+    }
+
+    await this.finishIngest(config, changes, seenAt);
+
+    // Older Prowler versions have no compliance overviews; scorecards then rely on the finding mappings alone
+    const compliance = await prowlerService.fetchComplianceRequirements(credentials);
+    if (compliance.success) {
+      await storage.replaceComplianceRequirements(config.id, compliance.requirements.map(requirement => ({
+        ...requirement,
+        description: requirement.description ?? null,
+      })));
+    } else {
+      console.warn(`Failed to fetch compliance overviews for configuration ${config.id}:`, compliance.error);
+    }
+
+    return { success: true, resourceCount: result.resources.length, findingCount: findingsResult.findingCount };
+  }
+
+  private async runImport(config: ProwlerConfiguration, job: SyncJob, content: Buffer): Promise<SyncResult> {
+    let imported: ProwlerImportResult;
+    try {
+      imported = prowlerImportService.parseFile(content);
+    } catch (error) {
+      return { success: false, resourceCount: 0, findingCount: 0, error: error instanceof Error ? error.message : "Failed to parse the file" };
+    }
+
+    // An empty file would otherwise mark the whole inventory removed
+    if (imported.resources.length === 0) {
+      return { success: false, resourceCount: 0, findingCount: 0, error: "The file contains no resources" };
+    }
+
+    // The file is a complete scan of its accounts, so only their resources can have been removed
+    const accountScope = Array.from(new Set(imported.resources.map(resource => resource.accountId ?? null)));
+    return this.ingest(config, imported.resources, imported.findings, new Date(job.startedAt), accountScope);
+  }
+
+  // Imports the output files that appeared or changed in a watched directory or bucket since the last run
+  private async runFileSource(config: ProwlerConfiguration, job: SyncJob): Promise<SyncResult> {
+    const secretAccessKey = config.sourceType === "s3" ? await this.recoverPassword(config) : null;
+    if (config.sourceType === "s3" && secretAccessKey === null) {
+      return {
+        success: false,
+        resourceCount: 0,
+        findingCount: 0,
+        requiresReconfiguration: true,
+        error: "Stored S3 credentials cannot be recovered. Please reconfigure the bucket.",
+      };
+    }
+    const settings = { ...config, s3SecretAccessKey: secretAccessKey };
+
+    let files: SourceFile[];
+    try {
+      files = await fileSourceService.listFiles(settings);
+    } catch (error) {
+      await storage.updateConfigurationStatus(config.id, "error");
+      return { success: false, resourceCount: 0, findingCount: 0, error: error instanceof Error ? error.message : "Failed to list files" };
+    }
+
+    // Failed files are read again on every run, since the cause (a partial write, a transient S3 error) is often gone
+    const processed = new Map((await storage.getProcessedSourceFiles(config.id))
+      .filter(file => file.status === "succeeded")
+      .map(file => [file.fileKey, file.fingerprint]));
+    const pending = files.filter(file => processed.get(file.key) !== file.fingerprint).slice(0, MAX_SOURCE_FILES_PER_RUN);
+
+    // Files are read oldest first, so the newest scan of a resource wins
+    const resources = new Map<string, ProwlerResource>();
+    const findings = new Map<string, ProwlerFinding>();
+    const outcomes: Array<{ fileKey: string; fingerprint: string; status: "succeeded" | "failed"; error: string | null }> = [];
+
+    for (let index = 0; index < pending.length; index++) {
+      const file = pending[index];
+      try {
+        const imported = prowlerImportService.parseFile(await fileSourceService.readFile(settings, file.key));
+        imported.resources.forEach(resource => resources.set(resource.id, resource));
+        imported.findings.forEach(finding => findings.set(finding.uid, finding));
+        outcomes.push({ fileKey: file.key, fingerprint: file.fingerprint, status: "succeeded", error: null });
+      } catch (error) {
+        outcomes.push({ fileKey: file.key, fingerprint: file.fingerprint, status: "failed", error: error instanceof Error ? error.message : "Failed to import the file" });
+      }
+      await storage.updateSyncJobProgress(job.id, { pagesFetched: index + 1, totalPages: pending.length, itemsFetched: findings.size });
+    }
+
+    let result: SyncResult = { success: true, resourceCount: 0, findingCount: 0 };
+    if (resources.size > 0) {
+      // A bucket usually collects scans of many accounts, so only the accounts in these files can have lost resources
+      const accountScope = Array.from(new Set(Array.from(resources.values(), resource => resource.accountId ?? null)));
+      result = await this.ingest(config, Array.from(resources.values()), Array.from(findings.values()), new Date(job.startedAt), accountScope);
+    } else {
+      await storage.updateConfigurationStatus(config.id, "connected", new Date());
+    }
+
+    // Recorded only once ingestion succeeded, so files are retried if it throws
+    await storage.recordProcessedSourceFiles(config.id, job.id, outcomes);
+
+    const failed = outcomes.filter(outcome => outcome.status === "failed");
+    if (failed.length === 0) {
+      return result;
+    }
+    const error = `Could not import ${failed.map(outcome => outcome.fileKey).join(", ")}: ${failed[0].error}`;
+    return failed.length === outcomes.length
+      ? { success: false, resourceCount: 0, findingCount: 0, error }
+      : { ...result, error };
+  }
+
+  private async ingest(
+    config: ProwlerConfiguration,
+    resources: ProwlerResource[],
+    findings: ProwlerFinding[],
+    seenAt: Date,
+    accountScope?: SyncAccountScope,
+  ): Promise<SyncResult> {
+    const changes = await this.writeAssets(config, resources, seenAt, accountScope);
+    await this.writeFindings(config, findings, seenAt);
+    await this.finishIngest(config, changes, seenAt, accountScope);
+
+    return { success: true, resourceCount: resources.length, findingCount: findings.length };
+  }
+
+  private async writeAssets(config: ProwlerConfiguration, resources: ProwlerResource[], seenAt: Date, accountScope?: SyncAccountScope): Promise<AssetChange[]> {
+    return storage.upsertAssets(config.id, resources.map(resource => ({
+      resourceId: resource.id,
+      resourceName: resource.name,
+      resourceType: resource.type,
+      region: resource.region || null,
+      provider: resource.provider || null,
+      accountId: resource.accountId || null,
+      service: resource.service || null,
+      status: resource.status,
+      severity: resource.severity || null,
+      rawData: resource.rawData,
+      tags: resource.tags || null,
+      lastCheckedAt: resource.lastChecked ? new Date(resource.lastChecked) : new Date(),
+    })), seenAt, accountScope);
+  }
+
+  // Findings are linked to the assets written before them by Prowler resource id
+  private async writeFindings(config: ProwlerConfiguration, findings: ProwlerFinding[], seenAt: Date): Promise<void> {
+    await storage.upsertFindings(config.id, findings.map(finding => ({
+      findingUid: finding.uid,
+      resourceId: finding.resourceId || null,
+      checkId: finding.checkId,
+      checkTitle: finding.checkTitle || null,
+      service: finding.service || null,
+      status: finding.status,
+      severity: finding.severity,
+      statusExtended: finding.statusExtended || null,
+      remediation: finding.remediation,
+      compliance: finding.compliance,
+      firstSeenAt: finding.firstSeen ? new Date(finding.firstSeen) : undefined,
+      rawData: finding.rawData,
+    })), seenAt);
+  }
+
+  private async finishIngest(config: ProwlerConfiguration, changes: AssetChange[], seenAt: Date, accountScope?: SyncAccountScope): Promise<void> {
+    await storage.removeStaleFindings(config.id, seenAt, accountScope);
+    // New and changed findings pick up the organization's mute rules before anything reads them
+    if (config.organizationId) {
+      await storage.applyMuteRules(config.organizationId, [config.id]);
+    }
+    await storage.updateConfigurationStatus(config.id, "connected", new Date());
+
+    // Today's snapshot is overwritten by each later sync, so it reflects the day's final state
+    const stats = await storage.getAssetStats([config.id]);
+    await storage.recordPostureSnapshot(config.id, stats, new Date().toISOString().slice(0, 10));
+
+    // config still holds the previous lastSyncAt, which tells a first sync apart
+    await notificationService.notifySyncResults(config, changes, seenAt);
+    await alertService.evaluateAfterSync(config);
+  }
+}
+
+export const syncService = new SyncService();
@@ -1,15 +1,302 @@
 import {
   users,
+  organizations,
+  organizationMembers,
   prowlerConfigurations,
   assets,
+  syncJobs,
+  processedSourceFiles,
+  findings,
+  assetChanges,
+  postureSnapshots,
+  reports,
+  triageEvents,
+  muteRules,
+  muteRuleVersions,
+  notificationChannels,
+  notificationDeliveries,
+  emailSettings,
+  emailSubscriptions,
+  alertRules,
+  alertRuleMatches,
+  alerts,
+  complianceRequirements,
+  controlFrameworks,
+  frameworkControls,
+  assetFacetFields,
+  suppressedTriageStates,
   type User,
   type UpsertUser,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationRole,
+  type OrganizationWithRole,
+  type OrganizationMemberWithUser,
   type ProwlerConfiguration,
-  type InsertProwlerConfiguration,
   type Asset,
+  type AssetChange,
+  type AssetQuery,
+  type AssetFilters,
+  type AssetSort,
+  type AssetFacets,
+  type AssetFacetField,
+  type AssetPage,
+  type AssetSortField,
+  type SyncJob,
+  type SyncScheduleInput,
+  type InsertFinding,
+  type FindingQuery,
+  type FindingPage,
+  type CheckSummary,
+  type AssetStats,
+  type ServiceStats,
+  type PostureHistoryPoint,
+  type Report,
+  type InsertReport,
+  type ReportSummary,
+  type ReportFrequency,
+  type ProcessedSourceFile,
+  type Finding,
+  type TriageInput,
+  type TriageFields,
+  type TriageEventWithUsers,
+  type SuppressedTriageState,
+  type MuteRule,
+  type MuteRuleInput,
+  type MuteRuleWithCount,
+  type MuteRuleVersionWithUser,
+  type NotificationChannel,
+  type NotificationDelivery,
+  type NotificationDeliveryWithChannel,
+  type NotificationEventType,
+  type NotificationFinding,
+  type NotificationAsset,
+  type EmailSettings,
+  type EmailEventType,
+  type ExpiringRiskAcceptance,
+  type AlertRule,
+  type AlertCondition,
+  type AlertConditionField,
+  type Alert,
+  type ComplianceRequirement,
+  type ComplianceFinding,
+  type ControlFramework,
+  type ControlFrameworkWithControls,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, ne, and, asc, desc, or, ilike, like, lt, lte, gt, gte, inArray, isNull, isNotNull, sql, getTableColumns, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+const ASSET_INSERT_BATCH_SIZE = 1000;
+const ASSET_CHANGE_INSERT_BATCH_SIZE = 1000;
+const FINDING_INSERT_BATCH_SIZE = 500;
+// Every check pattern and filter value is a bind parameter; Postgres allows 65535 per statement
+const CONTROL_COUNT_PARAMETER_BUDGET = 30000;
+const ASSET_EXPORT_BATCH_SIZE = 1000;
+
+// Severity and status sort by rank rather than alphabetically
+const ASSET_SORT_COLUMNS: Record<AssetSortField, SQL | AnyColumn> = {
+  resourceName: assets.resourceName,
+  resourceType: assets.resourceType,
+  region: assets.region,
+  status: sql`case ${assets.status} when 'non-compliant' then 4 when 'warning' then 3 when 'unknown' then 2 when 'compliant' then 1 end`,
+  severity: sql`case ${assets.severity} when 'critical' then 4 when 'high' then 3 when 'medium' then 2 when 'low' then 1 end`,
+  lastCheckedAt: assets.lastCheckedAt,
+};
+
+// Severities compare by rank; as text "medium" would outrank "critical"
+const FINDING_SEVERITY_RANK = sql`case ${findings.severity} when 'critical' then 5 when 'high' then 4 when 'medium' then 3 when 'low' then 2 when 'informational' then 1 end`;
+
+const ASSET_FACET_COLUMNS: Record<AssetFacetField, SQL> = {
+  resourceType: sql`${assets.resourceType}`,
+  region: sql`${assets.region}`,
+  account: sql`${assets.accountId}`,
+  provider: sql`${assets.provider}`,
+  service: sql`${assets.service}`,
+};
+
+function accountScopeCondition(accountScope: SyncAccountScope): SQL {
+  const accountIds = accountScope.filter((accountId): accountId is string => accountId !== null);
+  return or(
+    accountIds.length > 0 ? inArray(assets.accountId, accountIds) : undefined,
+    accountScope.includes(null) ? isNull(assets.accountId) : undefined,
+  ) ?? sql`false`;
+}
+
+// Muted and accepted items count again once their decision expires
+function suppressedCondition(table: typeof assets | typeof findings): SQL {
+  return and(
+    inArray(table.triageState, [...suppressedTriageStates]),
+    or(isNull(table.triageExpiresAt), gt(table.triageExpiresAt, sql`now()`)),
+  )!;
+}
+
+function activeMuteRuleCondition(): SQL {
+  return and(eq(muteRules.isActive, true), or(isNull(muteRules.expiresAt), gt(muteRules.expiresAt, sql`now()`)))!;
+}
+
+// Rules stop muting as soon as they lapse or are disabled, before the next sync re-applies them
+function ruleMutedCondition(): SQL {
+  return and(
+    isNotNull(findings.mutedByRuleId),
+    inArray(findings.mutedByRuleId, db.select({ id: muteRules.id }).from(muteRules).where(activeMuteRuleCondition())),
+  )!;
+}
+
+// Muted by a rule, or muted or accepted through triage
+function findingSuppressedCondition(): SQL {
+  return or(suppressedCondition(findings), ruleMutedCondition())!;
+}
+
+// "*" matches any run of characters; everything else is literal
+function globToLike(pattern: string): string {
+  return pattern.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/\*/g, '%');
+}
+
+function matchesAnyPattern(column: AnyColumn, patterns: string[]): SQL | undefined {
+  return patterns.length > 0 ? or(...patterns.map(pattern => like(column, globToLike(pattern)))) : undefined;
+}
+
+// Findings matching every non-empty condition of the rule
+function muteRuleCondition(rule: MuteRule): SQL {
+  const assetConditions = [
+    matchesAnyPattern(assets.accountId, rule.accounts),
+    matchesAnyPattern(assets.region, rule.regions),
+    ...Object.entries(rule.tags).map(([key, value]) => value === '*'
+      ? sql`jsonb_exists(${assets.tags}, ${key})`
+      : sql`${assets.tags} @> ${JSON.stringify({ [key]: value })}::jsonb`),
+  ].filter((condition): condition is SQL => condition !== undefined);
+
+  return and(
+    matchesAnyPattern(findings.checkId, rule.checks),
+    matchesAnyPattern(findings.resourceId, rule.resources),
+    assetConditions.length > 0
+      ? inArray(findings.assetId, db.select({ id: assets.id }).from(assets).where(and(...assetConditions)))
+      : undefined,
+  ) ?? sql`false`;
+}
+
+const ALERT_CONDITION_COLUMNS: Record<AlertConditionField, AnyColumn> = {
+  severity: findings.severity,
+  checkId: findings.checkId,
+  resourceId: findings.resourceId,
+  resourceType: assets.resourceType,
+  service: assets.service,
+  region: assets.region,
+  accountId: assets.accountId,
+  provider: assets.provider,
+};
+
+// Every condition must hold; "not in" also matches when the resource has no value for the field
+function alertConditionsSql(conditions: AlertCondition[]): SQL {
+  return and(...conditions.map(condition => {
+    const matches = matchesAnyPattern(ALERT_CONDITION_COLUMNS[condition.field], condition.values) ?? sql`false`;
+    return condition.operator === 'in' ? matches : sql`not coalesce(${matches}, false)`;
+  })) ?? sql`true`;
+}
+
+// Findings of a control's checks on the resources its asset filter matches
+function controlFindingCondition(checkIds: string[], conditions: AlertCondition[]): SQL {
+  return and(
+    matchesAnyPattern(findings.checkId, checkIds),
+    conditions.length > 0 ? alertConditionsSql(conditions) : undefined,
+  ) ?? sql`false`;
+}
+
+// Shape stored in mute_rule_versions, matching what the API accepts
+function toMuteRuleInput(rule: MuteRule): MuteRuleInput {
+  return {
+    name: rule.name,
+    reason: rule.reason,
+    checks: rule.checks,
+    accounts: rule.accounts,
+    regions: rule.regions,
+    resources: rule.resources,
+    tags: rule.tags,
+    expiresAt: rule.expiresAt ? rule.expiresAt.toISOString() : null,
+    isActive: rule.isActive,
+  };
+}
+
+// Reopening clears the expiry; the justification and assignee are kept for the record
+function triageValues(decision: TriageDecision, userId: string, triagedAt: Date): TriageFields {
+  return {
+    triageState: decision.state,
+    triageJustification: decision.justification,
+    triageExpiresAt: decision.state === "open" ? null : decision.expiresAt,
+    triageAssigneeId: decision.assigneeId,
+    triagedBy: userId,
+    triagedAt,
+  };
+}
+
+function triageEventValues(decision: TriageDecision, userId: string, createdAt: Date) {
+  return {
+    newState: decision.state,
+    justification: decision.justification,
+    expiresAt: decision.state === "open" ? null : decision.expiresAt,
+    assigneeId: decision.assigneeId,
+    userId,
+    createdAt,
+  };
+}
+
+// Filter conditions shared by asset listing and faceting; `exclude` drops one facet so its own options stay selectable
+function assetFilterConditions(configurationIds: string[], filters: AssetFilters, exclude?: AssetFacetField): SQL[] {
+  const conditions = [inArray(assets.configurationId, configurationIds), isNull(assets.removedAt)];
+
+  for (const field of assetFacetFields) {
+    const values = filters[field];
+    if (field !== exclude && values && values.length > 0) {
+      conditions.push(inArray(ASSET_FACET_COLUMNS[field], values));
+    }
+  }
+  if (filters.status) {
+    conditions.push(eq(assets.status, filters.status as any));
+  }
+  if (filters.severity) {
+    conditions.push(eq(assets.severity, filters.severity as any));
+  }
+  if (filters.search) {
+    // Escape LIKE wildcards so the search term is matched literally
+    const pattern = `%${filters.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(or(ilike(assets.resourceName, pattern), ilike(assets.resourceId, pattern))!);
+  }
+
+  return conditions;
+}
+
+// The id tie-breaker keeps page boundaries stable between requests
+function assetOrderBy(query: AssetSort): SQL[] {
+  const direction = query.order === "desc" ? desc : asc;
+  const sortColumn = query.sort ? ASSET_SORT_COLUMNS[query.sort] : null;
+  return sortColumn
+    ? [sql`${direction(sortColumn)} nulls last`, asc(assets.id)]
+    : [desc(assets.updatedAt), asc(assets.id)];
+}
+
+// Asset fields reported by a sync; tracking columns are managed by upsertAssets
+export type NewProwlerConfiguration = Omit<typeof prowlerConfigurations.$inferInsert, 'id' | 'organizationId' | 'userId' | 'createdAt' | 'updatedAt'>;
+// Limits which assets a sync may mark as removed to the accounts it reported; null matches assets without an account
+export type SyncAccountScope = Array<string | null>;
+export type SyncedAsset = Omit<Asset, 'id' | 'configurationId' | 'firstSeenAt' | 'lastSeenAt' | 'removedAt' | 'createdAt' | 'updatedAt' | keyof TriageFields>;
+export type TriageDecision = Omit<TriageInput, 'expiresAt'> & { expiresAt: Date | null };
+export type MuteRuleValues = Omit<MuteRuleInput, 'expiresAt'> & { expiresAt: Date | null };
+export type NewNotificationChannel = Omit<typeof notificationChannels.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewNotificationDelivery = Omit<typeof notificationDeliveries.$inferInsert, 'id' | 'createdAt'>;
+export type DueNotificationDelivery = NotificationDelivery & { channel: NotificationChannel };
+export type NewEmailSettings = Omit<typeof emailSettings.$inferInsert, 'id' | 'updatedAt'>;
+export type EmailSubscriber = Pick<User, 'id' | 'email' | 'username' | 'firstName'> & { eventTypes: EmailEventType[] };
+export type NewAlertRule = Omit<typeof alertRules.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewAlert = Omit<typeof alerts.$inferInsert, 'id' | 'createdAt'>;
+export type NewComplianceRequirement = Omit<typeof complianceRequirements.$inferInsert, 'id' | 'configurationId' | 'updatedAt'>;
+// Findings behind one requirement; failing counts leave out muted and accepted findings, which count as suppressed
+export type FindingCounts = { passing: number; failing: number; suppressed: number; failingResources: number };
+export type ComplianceRequirementCounts = FindingCounts & { framework: string; requirementId: string; checkIds: string[] };
+// A custom framework control's checks and parsed asset filter
+export type ControlMatcher = { controlId: string; checkIds: string[]; conditions: AlertCondition[] };
+export type NewControlFramework = Omit<typeof controlFrameworks.$inferInsert, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewFrameworkControl = Omit<typeof frameworkControls.$inferInsert, 'id' | 'frameworkId' | 'position'>;
 
 // Interface for storage operations
 export interface IStorage {
@@ -24,25 +311,143 @@ export interface IStorage {
   updateUser(id: string, user: Partial<UpsertUser>): Promise<User>;
   deleteUser(id: string): Promise<void>;
   
+  // Organization operations
+  getOrganization(id: string): Promise<Organization | undefined>;
+  getAllOrganizations(): Promise<Organization[]>;
+  getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]>;
+  createOrganization(name: string, ownerId: string): Promise<Organization>;
+  updateOrganization(id: string, name: string): Promise<Organization>;
+  deleteOrganization(id: string): Promise<void>;
+  ensurePersonalOrganization(user: User): Promise<OrganizationWithRole>;
+  getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]>;
+  addOrganizationMember(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>;
+
   // Prowler configuration operations
-  getProwlerConfiguration(userId: string): Promise<ProwlerConfiguration | undefined>;
-  upsertProwlerConfiguration(userId: string, config: InsertProwlerConfiguration & { prowlerPasswordHash: string }): Promise<ProwlerConfiguration>;
+  getProwlerConfigurations(organizationId: string): Promise<ProwlerConfiguration[]>;
+  getProwlerConfiguration(organizationId: string, configId: string): Promise<ProwlerConfiguration | undefined>;
+  getAllProwlerConfigurations(): Promise<ProwlerConfiguration[]>;
+  createProwlerConfiguration(organizationId: string, userId: string, config: NewProwlerConfiguration): Promise<ProwlerConfiguration>;
+  updateProwlerConfiguration(configId: string, config: Partial<NewProwlerConfiguration>): Promise<ProwlerConfiguration>;
+  deleteProwlerConfiguration(configId: string): Promise<void>;
+  updateConfigurationCredentials(configId: string, prowlerPasswordEncrypted: string): Promise<void>;
   updateConfigurationStatus(configId: string, status: "connected" | "disconnected" | "error", lastSyncAt?: Date): Promise<void>;
+  updateConfigurationSchedule(configId: string, schedule: SyncScheduleInput, nextSyncAt: Date | null): Promise<ProwlerConfiguration>;
+  setNextSyncAt(configId: string, nextSyncAt: Date | null): Promise<void>;
+  getDueConfigurations(now: Date): Promise<ProwlerConfiguration[]>;
+
+  // Sync job operations
+  createSyncJob(configurationId: string, trigger: SyncJob["trigger"]): Promise<SyncJob>;
+  finishSyncJob(jobId: string, result: { status: "succeeded" | "failed"; resourceCount?: number; findingCount?: number; error?: string }): Promise<void>;
+  updateSyncJobProgress(jobId: string, progress: { pagesFetched: number; totalPages: number | null; itemsFetched: number }): Promise<void>;
+  failInterruptedSyncJobs(): Promise<number>;
+  getSyncJobs(configurationId: string, limit?: number): Promise<SyncJob[]>;
+
+  // Watched directory and bucket operations
+  getProcessedSourceFiles(configurationId: string): Promise<ProcessedSourceFile[]>;
+  recordProcessedSourceFiles(configurationId: string, syncJobId: string, files: Array<Pick<ProcessedSourceFile, 'fileKey' | 'fingerprint' | 'status' | 'error'>>): Promise<void>;
   
   // Asset operations
-  getAssets(configurationId: string, filters?: {
-    resourceType?: string;
-    status?: string;
-    severity?: string;
-    search?: string;
-  }): Promise<Asset[]>;
-  upsertAssets(configurationId: string, assets: Array<Omit<Asset, 'id' | 'configurationId' | 'createdAt' | 'updatedAt'>>): Promise<void>;
-  getAssetStats(configurationId: string): Promise<{
-    totalResources: number;
-    criticalIssues: number;
-    compliantResources: number;
-    lastScan: Date | null;
-  }>;
+  getAssets(configurationIds: string[], query: AssetQuery): Promise<AssetPage>;
+  iterateAssets(configurationIds: string[], query: AssetFilters & AssetSort, batchSize?: number): AsyncGenerator<Asset[]>;
+  getAssetFacets(configurationIds: string[], filters: AssetFilters): Promise<AssetFacets>;
+  getAsset(configurationIds: string[], assetId: string): Promise<(Asset & { configurationName: string }) | undefined>;
+  getAssetChanges(assetId: string): Promise<AssetChange[]>;
+  upsertAssets(configurationId: string, assets: SyncedAsset[], seenAt: Date, accountScope?: SyncAccountScope): Promise<AssetChange[]>;
+  getAssetStats(configurationIds: string[], options?: { includeSuppressed?: boolean }): Promise<AssetStats>;
+
+  // Posture snapshot operations
+  recordPostureSnapshot(configurationId: string, stats: AssetStats, snapshotDate: string): Promise<void>;
+  getPostureHistory(configurationIds: string[], from: string, to: string, granularity: "day" | "week" | "month"): Promise<PostureHistoryPoint[]>;
+
+  // Finding operations
+  upsertFindings(configurationId: string, findings: Array<Omit<InsertFinding, 'id' | 'configurationId' | 'assetId' | 'lastSeenAt' | 'createdAt' | 'updatedAt'>>, seenAt: Date): Promise<void>;
+  removeStaleFindings(configurationId: string, seenAt: Date, accountScope?: SyncAccountScope): Promise<void>;
+  getFindings(configurationIds: string[], query: FindingQuery): Promise<FindingPage>;
+  getAssetFindings(configurationId: string, assetId: string): Promise<Finding[]>;
+  getCheckSummaries(configurationIds: string[]): Promise<CheckSummary[]>;
+
+  // Compliance operations
+  replaceComplianceRequirements(configurationId: string, requirements: NewComplianceRequirement[]): Promise<void>;
+  getComplianceRequirements(configurationIds: string[], framework?: string): Promise<ComplianceRequirement[]>;
+  getComplianceRequirementCounts(configurationIds: string[], framework?: string): Promise<ComplianceRequirementCounts[]>;
+  getComplianceFrameworkNames(configurationIds: string[]): Promise<string[]>;
+  getComplianceFailingFindings(configurationIds: string[], framework: string, requirementId: string, checkIds: string[]): Promise<ComplianceFinding[]>;
+
+  // Control framework operations
+  getControlFrameworks(organizationId: string): Promise<ControlFrameworkWithControls[]>;
+  getControlFramework(organizationId: string, frameworkId: string): Promise<ControlFrameworkWithControls | undefined>;
+  getControlFrameworkByName(organizationId: string, name: string): Promise<ControlFramework | undefined>;
+  createControlFramework(framework: NewControlFramework, controls: NewFrameworkControl[]): Promise<ControlFrameworkWithControls>;
+  updateControlFramework(frameworkId: string, framework: Pick<NewControlFramework, 'name' | 'description'>, controls: NewFrameworkControl[]): Promise<ControlFrameworkWithControls>;
+  deleteControlFramework(frameworkId: string): Promise<void>;
+  getControlFindingCounts(configurationIds: string[], controls: ControlMatcher[]): Promise<Map<string, FindingCounts>>;
+  getControlFailingFindings(configurationIds: string[], checkIds: string[], conditions: AlertCondition[]): Promise<ComplianceFinding[]>;
+
+  // Triage operations
+  triageAsset(configurationIds: string[], assetId: string, decision: TriageDecision, userId: string): Promise<Asset | undefined>;
+  triageFinding(configurationIds: string[], findingId: string, decision: TriageDecision, userId: string): Promise<Finding | undefined>;
+  getTriageEvents(assetId: string): Promise<TriageEventWithUsers[]>;
+
+  // Mute rule operations
+  getMuteRules(organizationId: string): Promise<MuteRuleWithCount[]>;
+  getMuteRule(organizationId: string, ruleId: string): Promise<MuteRule | undefined>;
+  createMuteRule(organizationId: string, userId: string, rule: MuteRuleValues): Promise<MuteRule>;
+  updateMuteRule(ruleId: string, userId: string, rule: MuteRuleValues): Promise<MuteRule>;
+  deleteMuteRule(ruleId: string, userId: string): Promise<void>;
+  getMuteRuleVersions(organizationId: string, ruleId: string): Promise<MuteRuleVersionWithUser[]>;
+  applyMuteRules(organizationId: string, configurationIds?: string[]): Promise<void>;
+
+  // Notification operations
+  getNotificationChannels(organizationId: string): Promise<NotificationChannel[]>;
+  // Every organization's channels, for re-encrypting their secrets after a key rotation
+  getAllNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannel(organizationId: string, channelId: string): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: NewNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(channelId: string, channel: Partial<NewNotificationChannel>): Promise<NotificationChannel>;
+  deleteNotificationChannel(channelId: string): Promise<void>;
+  getSubscribedNotificationChannels(organizationId: string, event: NotificationEventType): Promise<NotificationChannel[]>;
+  createNotificationDeliveries(deliveries: NewNotificationDelivery[]): Promise<NotificationDelivery[]>;
+  updateNotificationDelivery(deliveryId: string, delivery: Partial<NewNotificationDelivery>): Promise<NotificationDelivery>;
+  getDueNotificationDeliveries(now: Date, limit: number): Promise<DueNotificationDelivery[]>;
+  getNotificationDeliveries(organizationId: string, limit: number): Promise<NotificationDeliveryWithChannel[]>;
+  getNewFailingFindings(configurationId: string, since: Date, severities: Array<Finding["severity"]>): Promise<NotificationFinding[]>;
+  getNotificationAssets(assetIds: string[]): Promise<NotificationAsset[]>;
+
+  // Alert operations
+  getAlertRules(organizationId: string): Promise<AlertRule[]>;
+  getAlertRule(organizationId: string, ruleId: string): Promise<AlertRule | undefined>;
+  getActiveAlertRules(organizationId: string, configurationId: string): Promise<AlertRule[]>;
+  createAlertRule(rule: NewAlertRule): Promise<AlertRule>;
+  updateAlertRule(ruleId: string, rule: Partial<NewAlertRule>): Promise<AlertRule>;
+  deleteAlertRule(ruleId: string): Promise<void>;
+  setAlertRuleLastTriggeredAt(ruleId: string, lastTriggeredAt: Date): Promise<void>;
+  getAlertRuleFindings(configurationIds: string[], conditions: AlertCondition[]): Promise<NotificationFinding[]>;
+  getAlertRuleMatches(ruleId: string): Promise<string[]>;
+  addAlertRuleMatches(ruleId: string, fingerprints: string[]): Promise<void>;
+  removeAlertRuleMatches(ruleId: string, fingerprints: string[]): Promise<void>;
+  createAlert(alert: NewAlert): Promise<Alert>;
+  getAlerts(organizationId: string, limit: number): Promise<Alert[]>;
+
+  // Email operations
+  getEmailSettings(): Promise<EmailSettings | undefined>;
+  saveEmailSettings(settings: NewEmailSettings): Promise<EmailSettings>;
+  getEmailSubscriptions(userId: string, organizationId: string): Promise<EmailEventType[]>;
+  setEmailSubscriptions(userId: string, organizationId: string, eventTypes: EmailEventType[]): Promise<EmailEventType[]>;
+  getEmailSubscribers(organizationId: string): Promise<EmailSubscriber[]>;
+  setNextDigestAt(organizationId: string, nextDigestAt: Date | null): Promise<void>;
+  getOrganizationsDueForDigest(now: Date): Promise<Organization[]>;
+  getExpiringRiskAcceptances(configurationIds: string[], until: Date): Promise<ExpiringRiskAcceptance[]>;
+
+  // Report operations
+  updateReportSchedule(organizationId: string, reportFrequency: ReportFrequency | null, nextReportAt: Date | null): Promise<Organization>;
+  setNextReportAt(organizationId: string, nextReportAt: Date | null): Promise<void>;
+  getOrganizationsDueForReport(now: Date): Promise<Organization[]>;
+  createReport(report: InsertReport): Promise<ReportSummary>;
+  getReports(organizationId: string): Promise<ReportSummary[]>;
+  getReport(organizationId: string, reportId: string): Promise<Report | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -108,30 +513,148 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  // Organization operations
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getAllOrganizations(): Promise<Organization[]> {
+    return await db.select().from(organizations).orderBy(organizations.name);
+  }
+
+  async getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]> {
+    return await db
+      .select({ ...getTableColumns(organizations), role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async createOrganization(name: string, ownerId: string): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({ name }).returning();
+      await tx.insert(organizationMembers).values({ organizationId: organization.id, userId: ownerId, role: "owner" });
+      return organization;
+    });
+  }
+
+  async updateOrganization(id: string, name: string): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    await db.delete(organizations).where(eq(organizations.id, id));
+  }
+
+  // Gives a user without memberships their own organization and moves their pre-organization configurations into it
+  async ensurePersonalOrganization(user: User): Promise<OrganizationWithRole> {
+    return await db.transaction(async (tx) => {
+      // Parallel first requests from the same user must not each create an organization
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${user.id}))`);
+      const [existing] = await tx
+        .select({ ...getTableColumns(organizations), role: organizationMembers.role })
+        .from(organizationMembers)
+        .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+        .where(eq(organizationMembers.userId, user.id))
+        .limit(1);
+      if (existing) {
+        return existing;
+      }
+
+      const [organization] = await tx
+        .insert(organizations)
+        .values({ name: `${user.firstName || user.username}'s organization` })
+        .returning();
+      await tx.insert(organizationMembers).values({ organizationId: organization.id, userId: user.id, role: "owner" });
+      await tx
+        .update(prowlerConfigurations)
+        .set({ organizationId: organization.id, updatedAt: new Date() })
+        .where(and(eq(prowlerConfigurations.userId, user.id), isNull(prowlerConfigurations.organizationId)));
+      return { ...organization, role: "owner" as const };
+    });
+  }
+
+  async getOrganizationMember(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+    return member;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]> {
+    return await db
+      .select({
+        ...getTableColumns(organizationMembers),
+        username: users.username,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async addOrganizationMember(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [member] = await db
+      .insert(organizationMembers)
+      .values({ organizationId, userId, role })
+      .returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  }
+
   // Prowler configuration operations
-  async getProwlerConfiguration(userId: string): Promise<ProwlerConfiguration | undefined> {
+  async getProwlerConfigurations(organizationId: string): Promise<ProwlerConfiguration[]> {
+    return await db
+      .select()
+      .from(prowlerConfigurations)
+      .where(eq(prowlerConfigurations.organizationId, organizationId))
+      .orderBy(prowlerConfigurations.createdAt);
+  }
+
+  async getProwlerConfiguration(organizationId: string, configId: string): Promise<ProwlerConfiguration | undefined> {
     const [config] = await db
       .select()
       .from(prowlerConfigurations)
-      .where(and(eq(prowlerConfigurations.userId, userId), eq(prowlerConfigurations.isActive, true)));
+      .where(and(eq(prowlerConfigurations.organizationId, organizationId), eq(prowlerConfigurations.id, configId)));
     return config;
   }
 
-  async upsertProwlerConfiguration(userId: string, config: InsertProwlerConfiguration & { prowlerPasswordHash: string }): Promise<ProwlerConfiguration> {
-    // First, deactivate any existing configurations
-    await db
-      .update(prowlerConfigurations)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(prowlerConfigurations.userId, userId));
+  async getAllProwlerConfigurations(): Promise<ProwlerConfiguration[]> {
+    return await db.select().from(prowlerConfigurations);
+  }
 
-    // Insert new configuration
+  async createProwlerConfiguration(organizationId: string, userId: string, config: NewProwlerConfiguration): Promise<ProwlerConfiguration> {
     const [newConfig] = await db
       .insert(prowlerConfigurations)
       .values({
+        ...config,
+        organizationId,
         userId,
-        prowlerUrl: config.prowlerUrl,
-        prowlerEmail: config.prowlerEmail,
-        prowlerPasswordHash: config.prowlerPasswordHash,
         isActive: true,
       })
       .returning();
@@ -139,89 +662,1504 @@ export class DatabaseStorage implements IStorage {
     return newConfig;
   }
 
+  async updateProwlerConfiguration(configId: string, config: Partial<NewProwlerConfiguration>): Promise<ProwlerConfiguration> {
+    const [updated] = await db
+      .update(prowlerConfigurations)
+      .set({ ...config, updatedAt: new Date() })
+      .where(eq(prowlerConfigurations.id, configId))
+      .returning();
+    return updated;
+  }
+
+  async deleteProwlerConfiguration(configId: string): Promise<void> {
+    await db.delete(prowlerConfigurations).where(eq(prowlerConfigurations.id, configId));
+  }
+
+  async updateConfigurationCredentials(configId: string, prowlerPasswordEncrypted: string): Promise<void> {
+    await db
+      .update(prowlerConfigurations)
+      .set({ prowlerPasswordEncrypted, updatedAt: new Date() })
+      .where(eq(prowlerConfigurations.id, configId));
+  }
+
   async updateConfigurationStatus(configId: string, status: "connected" | "disconnected" | "error", lastSyncAt?: Date): Promise<void> {
     await db
       .update(prowlerConfigurations)
       .set({ 
         connectionStatus: status, 
-        lastSyncAt: lastSyncAt || new Date(),
+        // Only successful syncs move lastSyncAt forward
+        ...(lastSyncAt ? { lastSyncAt } : {}),
         updatedAt: new Date() 
       })
       .where(eq(prowlerConfigurations.id, configId));
   }
 
-  // Asset operations
-  async getAssets(configurationId: string, filters?: {
-    resourceType?: string;
-    status?: string;
-    severity?: string;
-    search?: string;
-  }): Promise<Asset[]> {
-    const conditions = [eq(assets.configurationId, configurationId)];
+  async updateConfigurationSchedule(configId: string, schedule: SyncScheduleInput, nextSyncAt: Date | null): Promise<ProwlerConfiguration> {
+    const [config] = await db
+      .update(prowlerConfigurations)
+      .set({
+        syncIntervalMinutes: schedule.syncIntervalMinutes,
+        syncJitterMinutes: schedule.syncJitterMinutes,
+        nextSyncAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(prowlerConfigurations.id, configId))
+      .returning();
+    return config;
+  }
 
-    if (filters?.resourceType) {
-      conditions.push(eq(assets.resourceType, filters.resourceType));
-    }
-    if (filters?.status) {
-      conditions.push(eq(assets.status, filters.status as any));
-    }
-    if (filters?.severity) {
-      conditions.push(eq(assets.severity, filters.severity as any));
+  async setNextSyncAt(configId: string, nextSyncAt: Date | null): Promise<void> {
+    await db
+      .update(prowlerConfigurations)
+      .set({ nextSyncAt })
+      .where(eq(prowlerConfigurations.id, configId));
+  }
+
+  async getDueConfigurations(now: Date): Promise<ProwlerConfiguration[]> {
+    return await db
+      .select()
+      .from(prowlerConfigurations)
+      .where(and(
+        eq(prowlerConfigurations.isActive, true),
+        ne(prowlerConfigurations.sourceType, "upload"),
+        isNotNull(prowlerConfigurations.syncIntervalMinutes),
+        or(isNull(prowlerConfigurations.nextSyncAt), lte(prowlerConfigurations.nextSyncAt, now)),
+      ));
+  }
+
+  // Sync job operations
+  async createSyncJob(configurationId: string, trigger: SyncJob["trigger"]): Promise<SyncJob> {
+    const [job] = await db
+      .insert(syncJobs)
+      .values({ configurationId, trigger })
+      .returning();
+    return job;
+  }
+
+  async finishSyncJob(jobId: string, result: { status: "succeeded" | "failed"; resourceCount?: number; findingCount?: number; error?: string }): Promise<void> {
+    await db
+      .update(syncJobs)
+      .set({
+        status: result.status,
+        resourceCount: result.resourceCount ?? 0,
+        findingCount: result.findingCount ?? 0,
+        error: result.error ?? null,
+        finishedAt: new Date(),
+      })
+      .where(eq(syncJobs.id, jobId));
+  }
+
+  async updateSyncJobProgress(jobId: string, progress: { pagesFetched: number; totalPages: number | null; itemsFetched: number }): Promise<void> {
+    await db
+      .update(syncJobs)
+      .set(progress)
+      .where(eq(syncJobs.id, jobId));
+  }
+
+  async failInterruptedSyncJobs(): Promise<number> {
+    // Jobs still "running" at startup were cut off by a restart
+    const interrupted = await db
+      .update(syncJobs)
+      .set({ status: "failed", error: "Interrupted by server restart", finishedAt: new Date() })
+      .where(eq(syncJobs.status, "running"))
+      .returning({ id: syncJobs.id });
+    return interrupted.length;
+  }
+
+  async getSyncJobs(configurationId: string, limit = 20): Promise<SyncJob[]> {
+    return await db
+      .select()
+      .from(syncJobs)
+      .where(eq(syncJobs.configurationId, configurationId))
+      .orderBy(desc(syncJobs.startedAt))
+      .limit(limit);
+  }
+
+  // Watched directory and bucket operations
+  async getProcessedSourceFiles(configurationId: string): Promise<ProcessedSourceFile[]> {
+    return await db
+      .select()
+      .from(processedSourceFiles)
+      .where(eq(processedSourceFiles.configurationId, configurationId));
+  }
+
+  async recordProcessedSourceFiles(configurationId: string, syncJobId: string, files: Array<Pick<ProcessedSourceFile, 'fileKey' | 'fingerprint' | 'status' | 'error'>>): Promise<void> {
+    if (files.length === 0) {
+      return;
     }
 
-    const results = await db
+    const processedAt = new Date();
+    await db
+      .insert(processedSourceFiles)
+      .values(files.map(file => ({ ...file, configurationId, syncJobId, processedAt })))
+      .onConflictDoUpdate({
+        target: [processedSourceFiles.configurationId, processedSourceFiles.fileKey],
+        set: {
+          fingerprint: sql`excluded.fingerprint`,
+          syncJobId: sql`excluded.sync_job_id`,
+          status: sql`excluded.status`,
+          error: sql`excluded.error`,
+          processedAt,
+        },
+      });
+  }
+
+  // Asset operations
+  async getAssets(configurationIds: string[], query: AssetQuery): Promise<AssetPage> {
+    const where = and(...assetFilterConditions(configurationIds, query));
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(assets)
+      .where(where);
+
+    const items = await db
       .select()
       .from(assets)
-      .where(and(...conditions))
-      .orderBy(desc(assets.updatedAt));
-    
-    if (filters?.search) {
-      return results.filter(asset => 
-        asset.resourceName.toLowerCase().includes(filters.search!.toLowerCase()) ||
-        asset.resourceId.toLowerCase().includes(filters.search!.toLowerCase())
-      );
+      .where(where)
+      .orderBy(...assetOrderBy(query))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      items,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+    };
+  }
+
+  // Yields the matching assets batch by batch so large inventories can be streamed without holding every row
+  async *iterateAssets(configurationIds: string[], query: AssetFilters & AssetSort, batchSize = ASSET_EXPORT_BATCH_SIZE): AsyncGenerator<Asset[]> {
+    const where = and(...assetFilterConditions(configurationIds, query));
+
+    for (let offset = 0; ; offset += batchSize) {
+      const batch = await db
+        .select()
+        .from(assets)
+        .where(where)
+        .orderBy(...assetOrderBy(query))
+        .limit(batchSize)
+        .offset(offset);
+
+      if (batch.length > 0) {
+        yield batch;
+      }
+      if (batch.length < batchSize) {
+        return;
+      }
     }
+  }
+
+  async getAssetFacets(configurationIds: string[], filters: AssetFilters): Promise<AssetFacets> {
+    const facets = {} as AssetFacets;
 
-    return results;
+    for (const field of assetFacetFields) {
+      const column = ASSET_FACET_COLUMNS[field];
+      const rows = await db
+        .select({ value: sql<string>`${column}`, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(assets)
+        .where(and(...assetFilterConditions(configurationIds, filters, field), isNotNull(column)))
+        .groupBy(column)
+        .orderBy(desc(sql`count(*)`), asc(column));
+      facets[field] = rows;
+    }
+
+    return facets;
   }
 
-  async upsertAssets(configurationId: string, assetsData: Array<Omit<Asset, 'id' | 'configurationId' | 'createdAt' | 'updatedAt'>>): Promise<void> {
-    // Clear existing assets for this configuration
-    await db.delete(assets).where(eq(assets.configurationId, configurationId));
+  // Removed assets stay viewable so their history can still be inspected
+  async getAsset(configurationIds: string[], assetId: string): Promise<(Asset & { configurationName: string }) | undefined> {
+    const [asset] = await db
+      .select({ ...getTableColumns(assets), configurationName: prowlerConfigurations.name })
+      .from(assets)
+      .innerJoin(prowlerConfigurations, eq(assets.configurationId, prowlerConfigurations.id))
+      .where(and(inArray(assets.configurationId, configurationIds), eq(assets.id, assetId)));
+    return asset;
+  }
+
+  async getAssetChanges(assetId: string): Promise<AssetChange[]> {
+    return await db
+      .select()
+      .from(assetChanges)
+      .where(eq(assetChanges.assetId, assetId))
+      .orderBy(desc(assetChanges.changedAt));
+  }
+
+  async upsertAssets(configurationId: string, assetsData: SyncedAsset[], seenAt: Date, accountScope?: SyncAccountScope): Promise<AssetChange[]> {
+    return await db.transaction(async (tx) => {
+      const existingAssets = await tx
+        .select({ id: assets.id, resourceId: assets.resourceId, status: assets.status, severity: assets.severity, removedAt: assets.removedAt })
+        .from(assets)
+        .where(eq(assets.configurationId, configurationId));
+      const existingByResource = new Map(existingAssets.map(asset => [asset.resourceId, asset]));
+
+      const uniqueAssets = Array.from(new Map(assetsData.map(asset => [asset.resourceId, asset])).values());
+      const changes: Array<typeof assetChanges.$inferInsert> = [];
+
+      for (let i = 0; i < uniqueAssets.length; i += ASSET_INSERT_BATCH_SIZE) {
+        const batch = uniqueAssets.slice(i, i + ASSET_INSERT_BATCH_SIZE);
+        const written = await tx
+          .insert(assets)
+          .values(batch.map(asset => ({
+            ...asset,
+            configurationId,
+            firstSeenAt: seenAt,
+            lastSeenAt: seenAt,
+          })))
+          .onConflictDoUpdate({
+            target: [assets.configurationId, assets.resourceId],
+            // firstSeenAt and createdAt survive every sync
+            set: {
+              resourceName: sql`excluded.resource_name`,
+              resourceType: sql`excluded.resource_type`,
+              region: sql`excluded.region`,
+              provider: sql`excluded.provider`,
+              accountId: sql`excluded.account_id`,
+              service: sql`excluded.service`,
+              status: sql`excluded.status`,
+              severity: sql`excluded.severity`,
+              rawData: sql`excluded.raw_data`,
+              tags: sql`excluded.tags`,
+              lastCheckedAt: sql`excluded.last_checked_at`,
+              lastSeenAt: sql`excluded.last_seen_at`,
+              removedAt: null,
+              updatedAt: seenAt,
+            },
+          })
+          .returning({ id: assets.id, resourceId: assets.resourceId, status: assets.status, severity: assets.severity });
 
-    // Insert new assets
-    if (assetsData.length > 0) {
-      await db.insert(assets).values(
-        assetsData.map(asset => ({
-          ...asset,
+        for (const asset of written) {
+          const previous = existingByResource.get(asset.resourceId);
+          const changeType = !previous
+            ? "created"
+            : previous.removedAt
+              ? "restored"
+              : previous.status !== asset.status || previous.severity !== asset.severity
+                ? "updated"
+                : null;
+
+          if (changeType) {
+            changes.push({
+              assetId: asset.id,
+              configurationId,
+              changeType,
+              previousStatus: previous?.status ?? null,
+              newStatus: asset.status,
+              previousSeverity: previous?.severity ?? null,
+              newSeverity: asset.severity,
+              changedAt: seenAt,
+            });
+          }
+        }
+      }
+
+      // Anything this sync did not report has disappeared from Prowler
+      const removed = await tx
+        .update(assets)
+        .set({ removedAt: seenAt, updatedAt: seenAt })
+        .where(and(
+          eq(assets.configurationId, configurationId),
+          isNull(assets.removedAt),
+          lt(assets.lastSeenAt, seenAt),
+          accountScope ? accountScopeCondition(accountScope) : undefined,
+        ))
+        .returning({ id: assets.id, status: assets.status, severity: assets.severity });
+
+      for (const asset of removed) {
+        changes.push({
+          assetId: asset.id,
           configurationId,
-        }))
-      );
+          changeType: "removed",
+          previousStatus: asset.status,
+          newStatus: null,
+          previousSeverity: asset.severity,
+          newSeverity: null,
+          changedAt: seenAt,
+        });
+      }
+
+      const recorded: AssetChange[] = [];
+      for (let i = 0; i < changes.length; i += ASSET_CHANGE_INSERT_BATCH_SIZE) {
+        recorded.push(...await tx
+          .insert(assetChanges)
+          .values(changes.slice(i, i + ASSET_CHANGE_INSERT_BATCH_SIZE))
+          .returning());
+      }
+
+      return recorded;
+    });
+  }
+
+  // Finding operations
+  // API syncs call this once per page, so each batch looks up only the assets it references
+  async upsertFindings(configurationId: string, findingsData: Array<Omit<InsertFinding, 'id' | 'configurationId' | 'assetId' | 'lastSeenAt' | 'createdAt' | 'updatedAt'>>, seenAt: Date): Promise<void> {
+    // A uid may appear twice in one response; ON CONFLICT cannot touch the same row twice per statement
+    const uniqueFindings = Array.from(new Map(findingsData.map(finding => [finding.findingUid, finding])).values());
+
+    for (let i = 0; i < uniqueFindings.length; i += FINDING_INSERT_BATCH_SIZE) {
+      const batch = uniqueFindings.slice(i, i + FINDING_INSERT_BATCH_SIZE);
+      const resourceIds = Array.from(new Set(batch.flatMap(finding => finding.resourceId ? [finding.resourceId] : [])));
+      const assetRows = resourceIds.length > 0
+        ? await db
+          .select({ id: assets.id, resourceId: assets.resourceId })
+          .from(assets)
+          .where(and(eq(assets.configurationId, configurationId), inArray(assets.resourceId, resourceIds)))
+        : [];
+      const assetIdsByResource = new Map(assetRows.map(asset => [asset.resourceId, asset.id]));
+
+      await db
+        .insert(findings)
+        .values(
+          batch.map(finding => ({
+            ...finding,
+            configurationId,
+            assetId: finding.resourceId ? assetIdsByResource.get(finding.resourceId) ?? null : null,
+            lastSeenAt: seenAt,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [findings.configurationId, findings.findingUid],
+          // firstSeenAt and createdAt are deliberately left untouched
+          set: {
+            assetId: sql`excluded.asset_id`,
+            resourceId: sql`excluded.resource_id`,
+            checkId: sql`excluded.check_id`,
+            checkTitle: sql`excluded.check_title`,
+            service: sql`excluded.service`,
+            status: sql`excluded.status`,
+            severity: sql`excluded.severity`,
+            statusExtended: sql`excluded.status_extended`,
+            remediation: sql`excluded.remediation`,
+            compliance: sql`excluded.compliance`,
+            rawData: sql`excluded.raw_data`,
+            lastSeenAt: sql`excluded.last_seen_at`,
+            updatedAt: new Date(),
+          },
+        });
     }
   }
 
-  async getAssetStats(configurationId: string): Promise<{
-    totalResources: number;
-    criticalIssues: number;
-    compliantResources: number;
-    lastScan: Date | null;
-  }> {
-    const allAssets = await db.select().from(assets).where(eq(assets.configurationId, configurationId));
-    
+  // Findings Prowler no longer reports belong to resources that are gone
+  async removeStaleFindings(configurationId: string, seenAt: Date, accountScope?: SyncAccountScope): Promise<void> {
+    await db
+      .delete(findings)
+      .where(and(
+        eq(findings.configurationId, configurationId),
+        lt(findings.lastSeenAt, seenAt),
+        accountScope
+          ? inArray(findings.assetId, db
+            .select({ id: assets.id })
+            .from(assets)
+            .where(and(eq(assets.configurationId, configurationId), accountScopeCondition(accountScope))))
+          : undefined,
+      ));
+  }
+
+  async getFindings(configurationIds: string[], query: FindingQuery): Promise<FindingPage> {
+    const conditions = [inArray(findings.configurationId, configurationIds)];
+
+    if (query.status) {
+      conditions.push(eq(findings.status, query.status as any));
+    }
+    if (query.severity) {
+      conditions.push(eq(findings.severity, query.severity as any));
+    }
+    if (query.checkId) {
+      conditions.push(eq(findings.checkId, query.checkId));
+    }
+    if (query.assetId) {
+      conditions.push(eq(findings.assetId, query.assetId));
+    }
+    if (query.service) {
+      conditions.push(eq(findings.service, query.service));
+    }
+
+    const where = and(...conditions);
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(findings)
+      .where(where);
+
+    const { rawData, ...listColumns } = getTableColumns(findings);
+    const items = await db
+      .select({ ...listColumns, resourceName: assets.resourceName })
+      .from(findings)
+      .leftJoin(assets, eq(findings.assetId, assets.id))
+      .where(where)
+      .orderBy(desc(findings.lastSeenAt), findings.id)
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      items,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+    };
+  }
+
+  async getAssetFindings(configurationId: string, assetId: string): Promise<Finding[]> {
+    return await db
+      .select()
+      .from(findings)
+      .where(and(eq(findings.configurationId, configurationId), eq(findings.assetId, assetId)))
+      .orderBy(desc(findings.lastSeenAt));
+  }
+
+  async getCheckSummaries(configurationIds: string[]): Promise<CheckSummary[]> {
+    const failCount = sql<number>`count(*) filter (where ${findings.status} = 'fail' and not ${findingSuppressedCondition()})`.mapWith(Number);
+
+    return await db
+      .select({
+        checkId: findings.checkId,
+        checkTitle: sql<string | null>`max(${findings.checkTitle})`,
+        service: sql<string | null>`max(${findings.service})`,
+        severity: sql<CheckSummary["severity"]>`case max(${FINDING_SEVERITY_RANK}) when 5 then 'critical' when 4 then 'high' when 3 then 'medium' when 2 then 'low' else 'informational' end`,
+        failCount,
+        passCount: sql<number>`count(*) filter (where ${findings.status} = 'pass')`.mapWith(Number),
+        mutedCount: sql<number>`count(*) filter (where ${findings.status} = 'fail' and ${findingSuppressedCondition()})`.mapWith(Number),
+      })
+      .from(findings)
+      .where(inArray(findings.configurationId, configurationIds))
+      .groupBy(findings.checkId)
+      .orderBy(desc(failCount), findings.checkId);
+  }
+
+  async getAssetStats(configurationIds: string[], options: { includeSuppressed?: boolean } = {}): Promise<AssetStats> {
+    const scopedAssets = await db
+      .select({
+        resourceType: assets.resourceType,
+        service: assets.service,
+        status: assets.status,
+        severity: assets.severity,
+        lastCheckedAt: assets.lastCheckedAt,
+        updatedAt: assets.updatedAt,
+        suppressedState: sql<SuppressedTriageState | null>`case when ${suppressedCondition(assets)} then ${assets.triageState} end`,
+      })
+      .from(assets)
+      .where(and(inArray(assets.configurationId, configurationIds), isNull(assets.removedAt)));
+
+    // A triage decision takes precedence over a matching mute rule
+    const suppressedFindings = await db
+      .select({
+        state: sql<SuppressedTriageState>`case when ${suppressedCondition(findings)} then ${findings.triageState} else 'muted' end`,
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(findings)
+      .where(and(inArray(findings.configurationId, configurationIds), eq(findings.status, 'fail'), findingSuppressedCondition()))
+      .groupBy(sql`1`);
+
+    const suppressed: AssetStats['suppressed'] = {
+      assets: { muted: 0, accepted_risk: 0 },
+      findings: { muted: 0, accepted_risk: 0 },
+    };
+    for (const asset of scopedAssets) {
+      if (asset.suppressedState) suppressed.assets[asset.suppressedState]++;
+    }
+    for (const { state, count } of suppressedFindings) {
+      suppressed.findings[state] += count;
+    }
+
+    const allAssets = options.includeSuppressed ? scopedAssets : scopedAssets.filter(asset => !asset.suppressedState);
     const totalResources = allAssets.length;
     const criticalIssues = allAssets.filter(asset => asset.severity === 'critical').length;
     const compliantResources = allAssets.filter(asset => asset.status === 'compliant').length;
-    const lastScan = allAssets.length > 0 
-      ? new Date(Math.max(...allAssets.map(asset => new Date(asset.lastCheckedAt || asset.updatedAt!).getTime())))
+    // Suppressed assets were still scanned, so they count towards the last scan time
+    const lastScan = scopedAssets.length > 0 
+      ? new Date(scopedAssets.reduce((latest, asset) => Math.max(latest, new Date(asset.lastCheckedAt || asset.updatedAt!).getTime()), 0))
       : null;
 
+    const severityBreakdown: Record<string, number> = {};
+    const serviceBreakdown: Record<string, ServiceStats> = {};
+    for (const asset of allAssets) {
+      const severity = asset.severity || 'none';
+      severityBreakdown[severity] = (severityBreakdown[severity] || 0) + 1;
+
+      // Resource type stands in for the service on assets synced before services were recorded
+      const service = (serviceBreakdown[asset.service || asset.resourceType] ??= { total: 0, compliant: 0, critical: 0 });
+      service.total++;
+      if (asset.status === 'compliant') service.compliant++;
+      if (asset.severity === 'critical') service.critical++;
+    }
+
     return {
       totalResources,
       criticalIssues,
       compliantResources,
       lastScan,
+      severityBreakdown,
+      serviceBreakdown,
+      suppressed,
     };
   }
+
+  // Compliance operations
+  async replaceComplianceRequirements(configurationId: string, requirements: NewComplianceRequirement[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(complianceRequirements).where(eq(complianceRequirements.configurationId, configurationId));
+      for (let i = 0; i < requirements.length; i += FINDING_INSERT_BATCH_SIZE) {
+        await tx
+          .insert(complianceRequirements)
+          .values(requirements.slice(i, i + FINDING_INSERT_BATCH_SIZE).map(requirement => ({ ...requirement, configurationId })))
+          .onConflictDoNothing();
+      }
+    });
+  }
+
+  async getComplianceRequirements(configurationIds: string[], framework?: string): Promise<ComplianceRequirement[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(complianceRequirements)
+      .where(and(
+        inArray(complianceRequirements.configurationId, configurationIds),
+        framework ? eq(complianceRequirements.framework, framework) : undefined,
+      ));
+  }
+
+  // Counts findings per requirement, whether they name it in their own mapping or run one of its checks.
+  // A finding counts once per requirement even when both mappings name it
+  async getComplianceRequirementCounts(configurationIds: string[], framework?: string): Promise<ComplianceRequirementCounts[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    const inScope = inArray(findings.configurationId, configurationIds);
+    const mappedFields = sql`${findings.id} as finding_id, ${findings.assetId} as asset_id, ${findings.checkId} as check_id,
+      ${findings.status} as status, ${findingSuppressedCondition()} as suppressed`;
+
+    const result = await db.execute<ComplianceRequirementCounts>(sql`
+      with mapped as (
+        select ${mappedFields}, mapping.key as framework, requirement.value as requirement_id
+        from ${findings}
+        cross join lateral jsonb_each(${findings.compliance}) as mapping
+        cross join lateral jsonb_array_elements_text(mapping.value) as requirement
+        where ${inScope}${framework ? sql` and mapping.key = ${framework}` : sql``}
+        union
+        select ${mappedFields}, ${complianceRequirements.framework}, ${complianceRequirements.requirementId}
+        from ${findings}
+        inner join ${complianceRequirements}
+          on ${complianceRequirements.configurationId} = ${findings.configurationId}
+          and jsonb_exists(${complianceRequirements.checkIds}, ${findings.checkId})
+        where ${inScope}${framework ? sql` and ${complianceRequirements.framework} = ${framework}` : sql``}
+      )
+      select
+        framework,
+        requirement_id as "requirementId",
+        count(*) filter (where status = 'pass')::int as passing,
+        count(*) filter (where status = 'fail' and not suppressed)::int as failing,
+        count(*) filter (where status = 'fail' and suppressed)::int as suppressed,
+        count(distinct asset_id) filter (where status = 'fail' and not suppressed)::int as "failingResources",
+        array_agg(distinct check_id) as "checkIds"
+      from mapped
+      group by framework, requirement_id
+    `);
+    return result.rows;
+  }
+
+  // Frameworks Prowler reported or that findings map to
+  async getComplianceFrameworkNames(configurationIds: string[]): Promise<string[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    const result = await db.execute<{ framework: string }>(sql`
+      select ${complianceRequirements.framework} as framework
+      from ${complianceRequirements}
+      where ${inArray(complianceRequirements.configurationId, configurationIds)}
+      union
+      select jsonb_object_keys(${findings.compliance})
+      from ${findings}
+      where ${inArray(findings.configurationId, configurationIds)} and ${isNotNull(findings.compliance)}
+    `);
+    return result.rows.map(row => row.framework);
+  }
+
+  // Failing findings behind a requirement, leaving out muted and accepted ones
+  async getComplianceFailingFindings(configurationIds: string[], framework: string, requirementId: string, checkIds: string[]): Promise<ComplianceFinding[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        id: findings.id,
+        checkId: findings.checkId,
+        checkTitle: findings.checkTitle,
+        severity: findings.severity,
+        statusExtended: findings.statusExtended,
+        assetId: findings.assetId,
+        resourceId: findings.resourceId,
+        resourceName: assets.resourceName,
+        resourceType: assets.resourceType,
+        region: assets.region,
+        accountId: assets.accountId,
+      })
+      .from(findings)
+      .leftJoin(assets, eq(findings.assetId, assets.id))
+      .where(and(
+        inArray(findings.configurationId, configurationIds),
+        eq(findings.status, 'fail'),
+        sql`not ${findingSuppressedCondition()}`,
+        or(
+          sql`coalesce(jsonb_exists(${findings.compliance} -> ${framework}, ${requirementId}), false)`,
+          checkIds.length > 0 ? inArray(findings.checkId, checkIds) : undefined,
+        ),
+      ))
+      .orderBy(sql`case ${findings.severity} when 'critical' then 1 when 'high' then 2 when 'medium' then 3 when 'low' then 4 else 5 end`, findings.checkId, assets.resourceName);
+  }
+
+  // Control framework operations
+  async getControlFrameworks(organizationId: string): Promise<ControlFrameworkWithControls[]> {
+    const frameworks = await db
+      .select()
+      .from(controlFrameworks)
+      .where(eq(controlFrameworks.organizationId, organizationId))
+      .orderBy(asc(controlFrameworks.name));
+    if (frameworks.length === 0) {
+      return [];
+    }
+
+    const controls = await db
+      .select()
+      .from(frameworkControls)
+      .where(inArray(frameworkControls.frameworkId, frameworks.map(framework => framework.id)))
+      .orderBy(asc(frameworkControls.position));
+    return frameworks.map(framework => ({
+      ...framework,
+      controls: controls.filter(control => control.frameworkId === framework.id),
+    }));
+  }
+
+  async getControlFramework(organizationId: string, frameworkId: string): Promise<ControlFrameworkWithControls | undefined> {
+    const [framework] = await db
+      .select()
+      .from(controlFrameworks)
+      .where(and(eq(controlFrameworks.organizationId, organizationId), eq(controlFrameworks.id, frameworkId)));
+    if (!framework) {
+      return undefined;
+    }
+
+    const controls = await db
+      .select()
+      .from(frameworkControls)
+      .where(eq(frameworkControls.frameworkId, framework.id))
+      .orderBy(asc(frameworkControls.position));
+    return { ...framework, controls };
+  }
+
+  async getControlFrameworkByName(organizationId: string, name: string): Promise<ControlFramework | undefined> {
+    const [framework] = await db
+      .select()
+      .from(controlFrameworks)
+      .where(and(eq(controlFrameworks.organizationId, organizationId), eq(controlFrameworks.name, name)));
+    return framework;
+  }
+
+  async createControlFramework(frameworkData: NewControlFramework, controls: NewFrameworkControl[]): Promise<ControlFrameworkWithControls> {
+    return await db.transaction(async (tx) => {
+      const [framework] = await tx.insert(controlFrameworks).values(frameworkData).returning();
+      const inserted = await tx
+        .insert(frameworkControls)
+        .values(controls.map((control, position) => ({ ...control, frameworkId: framework.id, position })))
+        .returning();
+      return { ...framework, controls: inserted };
+    });
+  }
+
+  // Controls are replaced as a whole, the way a re-imported document defines them
+  async updateControlFramework(frameworkId: string, frameworkData: Pick<NewControlFramework, 'name' | 'description'>, controls: NewFrameworkControl[]): Promise<ControlFrameworkWithControls> {
+    return await db.transaction(async (tx) => {
+      const [framework] = await tx
+        .update(controlFrameworks)
+        .set({ ...frameworkData, updatedAt: new Date() })
+        .where(eq(controlFrameworks.id, frameworkId))
+        .returning();
+      await tx.delete(frameworkControls).where(eq(frameworkControls.frameworkId, frameworkId));
+      const inserted = await tx
+        .insert(frameworkControls)
+        .values(controls.map((control, position) => ({ ...control, frameworkId, position })))
+        .returning();
+      return { ...framework, controls: inserted };
+    });
+  }
+
+  async deleteControlFramework(frameworkId: string): Promise<void> {
+    await db.delete(controlFrameworks).where(eq(controlFrameworks.id, frameworkId));
+  }
+
+  // Counts every control in one pass over the findings, keyed by control id; controls without findings are left out
+  async getControlFindingCounts(configurationIds: string[], controls: ControlMatcher[]): Promise<Map<string, FindingCounts>> {
+    const counts = new Map<string, FindingCounts>();
+    if (configurationIds.length === 0 || controls.length === 0) {
+      return counts;
+    }
+
+    // Only frameworks with thousands of patterns need more than one statement
+    const batches: ControlMatcher[][] = [[]];
+    let parameters = 0;
+    for (const control of controls) {
+      const controlParameters = 1 + control.checkIds.length + control.conditions.reduce((sum, condition) => sum + condition.values.length, 0);
+      if (parameters + controlParameters > CONTROL_COUNT_PARAMETER_BUDGET && batches[batches.length - 1].length > 0) {
+        batches.push([]);
+        parameters = 0;
+      }
+      batches[batches.length - 1].push(control);
+      parameters += controlParameters;
+    }
+
+    const suppressed = findingSuppressedCondition();
+    for (const batch of batches) {
+      const matchers = sql.join(
+        batch.map(control => sql`(${control.controlId}::text, ${controlFindingCondition(control.checkIds, control.conditions)})`),
+        sql`, `,
+      );
+      const result = await db.execute<FindingCounts & { controlId: string }>(sql`
+        select
+          matched.control_id as "controlId",
+          count(*) filter (where ${findings.status} = 'pass')::int as passing,
+          count(*) filter (where ${findings.status} = 'fail' and not ${suppressed})::int as failing,
+          count(*) filter (where ${findings.status} = 'fail' and ${suppressed})::int as suppressed,
+          count(distinct ${findings.assetId}) filter (where ${findings.status} = 'fail' and not ${suppressed})::int as "failingResources"
+        from ${findings}
+        left join ${assets} on ${findings.assetId} = ${assets.id}
+        cross join lateral (values ${matchers}) as matched(control_id, matches)
+        where ${inArray(findings.configurationId, configurationIds)} and matched.matches
+        group by matched.control_id
+      `);
+      for (const { controlId, ...controlCounts } of result.rows) {
+        counts.set(controlId, controlCounts);
+      }
+    }
+    return counts;
+  }
+
+  // Failing findings behind a control, leaving out muted and accepted ones
+  async getControlFailingFindings(configurationIds: string[], checkIds: string[], conditions: AlertCondition[]): Promise<ComplianceFinding[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        id: findings.id,
+        checkId: findings.checkId,
+        checkTitle: findings.checkTitle,
+        severity: findings.severity,
+        statusExtended: findings.statusExtended,
+        assetId: findings.assetId,
+        resourceId: findings.resourceId,
+        resourceName: assets.resourceName,
+        resourceType: assets.resourceType,
+        region: assets.region,
+        accountId: assets.accountId,
+      })
+      .from(findings)
+      .leftJoin(assets, eq(findings.assetId, assets.id))
+      .where(and(
+        inArray(findings.configurationId, configurationIds),
+        eq(findings.status, 'fail'),
+        sql`not ${findingSuppressedCondition()}`,
+        controlFindingCondition(checkIds, conditions),
+      ))
+      .orderBy(sql`case ${findings.severity} when 'critical' then 1 when 'high' then 2 when 'medium' then 3 when 'low' then 4 else 5 end`, findings.checkId, assets.resourceName);
+  }
+
+  // Triage operations
+  async triageAsset(configurationIds: string[], assetId: string, decision: TriageDecision, userId: string): Promise<Asset | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ configurationId: assets.configurationId, triageState: assets.triageState })
+        .from(assets)
+        .where(and(inArray(assets.configurationId, configurationIds), eq(assets.id, assetId)));
+      if (!current) {
+        return undefined;
+      }
+
+      const triagedAt = new Date();
+      const [asset] = await tx
+        .update(assets)
+        .set(triageValues(decision, userId, triagedAt))
+        .where(eq(assets.id, assetId))
+        .returning();
+
+      await tx.insert(triageEvents).values({
+        ...triageEventValues(decision, userId, triagedAt),
+        configurationId: current.configurationId,
+        assetId,
+        previousState: current.triageState,
+      });
+      return asset;
+    });
+  }
+
+  async triageFinding(configurationIds: string[], findingId: string, decision: TriageDecision, userId: string): Promise<Finding | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({
+          configurationId: findings.configurationId,
+          assetId: findings.assetId,
+          checkId: findings.checkId,
+          triageState: findings.triageState,
+        })
+        .from(findings)
+        .where(and(inArray(findings.configurationId, configurationIds), eq(findings.id, findingId)));
+      if (!current) {
+        return undefined;
+      }
+
+      const triagedAt = new Date();
+      const [finding] = await tx
+        .update(findings)
+        .set(triageValues(decision, userId, triagedAt))
+        .where(eq(findings.id, findingId))
+        .returning();
+
+      await tx.insert(triageEvents).values({
+        ...triageEventValues(decision, userId, triagedAt),
+        configurationId: current.configurationId,
+        assetId: current.assetId,
+        findingId,
+        checkId: current.checkId,
+        previousState: current.triageState,
+      });
+      return finding;
+    });
+  }
+
+  async getTriageEvents(assetId: string): Promise<TriageEventWithUsers[]> {
+    const actor = alias(users, "actor");
+    const assignee = alias(users, "assignee");
+
+    return await db
+      .select({
+        ...getTableColumns(triageEvents),
+        username: actor.username,
+        assigneeUsername: assignee.username,
+      })
+      .from(triageEvents)
+      .leftJoin(actor, eq(triageEvents.userId, actor.id))
+      .leftJoin(assignee, eq(triageEvents.assigneeId, assignee.id))
+      .where(eq(triageEvents.assetId, assetId))
+      .orderBy(desc(triageEvents.createdAt));
+  }
+
+  // Mute rule operations
+  async getMuteRules(organizationId: string): Promise<MuteRuleWithCount[]> {
+    const mutedCounts = db
+      .select({ ruleId: findings.mutedByRuleId, count: sql<number>`count(*)`.as("count") })
+      .from(findings)
+      .where(and(isNotNull(findings.mutedByRuleId), eq(findings.status, 'fail')))
+      .groupBy(findings.mutedByRuleId)
+      .as("muted_counts");
+
+    return await db
+      .select({
+        ...getTableColumns(muteRules),
+        mutedFindings: sql<number>`coalesce(${mutedCounts.count}, 0)`.mapWith(Number),
+      })
+      .from(muteRules)
+      .leftJoin(mutedCounts, eq(mutedCounts.ruleId, muteRules.id))
+      .where(eq(muteRules.organizationId, organizationId))
+      .orderBy(asc(muteRules.createdAt));
+  }
+
+  async getMuteRule(organizationId: string, ruleId: string): Promise<MuteRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(muteRules)
+      .where(and(eq(muteRules.organizationId, organizationId), eq(muteRules.id, ruleId)));
+    return rule;
+  }
+
+  async createMuteRule(organizationId: string, userId: string, ruleData: MuteRuleValues): Promise<MuteRule> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx
+        .insert(muteRules)
+        .values({ ...ruleData, organizationId, createdBy: userId })
+        .returning();
+
+      await tx.insert(muteRuleVersions).values({
+        organizationId,
+        ruleId: rule.id,
+        version: rule.version,
+        changeType: "created",
+        rule: toMuteRuleInput(rule),
+        userId,
+      });
+      return rule;
+    });
+  }
+
+  async updateMuteRule(ruleId: string, userId: string, ruleData: MuteRuleValues): Promise<MuteRule> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx
+        .update(muteRules)
+        .set({ ...ruleData, version: sql`${muteRules.version} + 1`, updatedAt: new Date() })
+        .where(eq(muteRules.id, ruleId))
+        .returning();
+
+      await tx.insert(muteRuleVersions).values({
+        organizationId: rule.organizationId,
+        ruleId: rule.id,
+        version: rule.version,
+        changeType: "updated",
+        rule: toMuteRuleInput(rule),
+        userId,
+      });
+      return rule;
+    });
+  }
+
+  async deleteMuteRule(ruleId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [rule] = await tx.delete(muteRules).where(eq(muteRules.id, ruleId)).returning();
+      if (!rule) {
+        return;
+      }
+
+      await tx.insert(muteRuleVersions).values({
+        organizationId: rule.organizationId,
+        ruleId: rule.id,
+        version: rule.version + 1,
+        changeType: "deleted",
+        rule: toMuteRuleInput(rule),
+        userId,
+      });
+    });
+  }
+
+  async getMuteRuleVersions(organizationId: string, ruleId: string): Promise<MuteRuleVersionWithUser[]> {
+    return await db
+      .select({ ...getTableColumns(muteRuleVersions), username: users.username })
+      .from(muteRuleVersions)
+      .leftJoin(users, eq(muteRuleVersions.userId, users.id))
+      .where(and(eq(muteRuleVersions.organizationId, organizationId), eq(muteRuleVersions.ruleId, ruleId)))
+      .orderBy(desc(muteRuleVersions.version));
+  }
+
+  // Recomputes which rule mutes each finding; rules are tried oldest first and the first match wins
+  async applyMuteRules(organizationId: string, configurationIds?: string[]): Promise<void> {
+    const configIds = configurationIds ?? (await this.getProwlerConfigurations(organizationId)).map(config => config.id);
+    if (configIds.length === 0) {
+      return;
+    }
+
+    const rules = await db
+      .select()
+      .from(muteRules)
+      .where(and(eq(muteRules.organizationId, organizationId), activeMuteRuleCondition()))
+      .orderBy(asc(muteRules.createdAt), asc(muteRules.id));
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(findings)
+        .set({ mutedByRuleId: null })
+        .where(and(inArray(findings.configurationId, configIds), isNotNull(findings.mutedByRuleId)));
+
+      for (const rule of rules) {
+        await tx
+          .update(findings)
+          .set({ mutedByRuleId: rule.id })
+          .where(and(inArray(findings.configurationId, configIds), isNull(findings.mutedByRuleId), muteRuleCondition(rule)));
+      }
+    });
+  }
+
+  // Posture snapshot operations
+  async recordPostureSnapshot(configurationId: string, stats: AssetStats, snapshotDate: string): Promise<void> {
+    const values = {
+      totalResources: stats.totalResources,
+      criticalIssues: stats.criticalIssues,
+      compliantResources: stats.compliantResources,
+      severityBreakdown: stats.severityBreakdown,
+      serviceBreakdown: stats.serviceBreakdown,
+    };
+
+    await db
+      .insert(postureSnapshots)
+      .values({ configurationId, snapshotDate, ...values })
+      .onConflictDoUpdate({
+        target: [postureSnapshots.configurationId, postureSnapshots.snapshotDate],
+        set: { ...values, updatedAt: new Date() },
+      });
+  }
+
+  async getPostureHistory(configurationIds: string[], from: string, to: string, granularity: "day" | "week" | "month"): Promise<PostureHistoryPoint[]> {
+    // Keep the latest snapshot of each configuration within each day/week/month bucket. The unit is
+    // inlined because DISTINCT ON and ORDER BY must use identical expressions, not two bind parameters.
+    const bucket = sql`date_trunc(${sql.raw(`'${granularity}'`)}, ${postureSnapshots.snapshotDate})`;
+
+    const snapshots = await db
+      .selectDistinctOn([bucket, postureSnapshots.configurationId], {
+        ...getTableColumns(postureSnapshots),
+        bucket: sql<string>`${bucket}::date::text`,
+      })
+      .from(postureSnapshots)
+      .where(and(
+        inArray(postureSnapshots.configurationId, configurationIds),
+        gte(postureSnapshots.snapshotDate, from),
+        lte(postureSnapshots.snapshotDate, to),
+      ))
+      .orderBy(bucket, postureSnapshots.configurationId, desc(postureSnapshots.snapshotDate));
+
+    // Sum the configurations' snapshots that fall in the same bucket
+    const points: PostureHistoryPoint[] = [];
+    let current: PostureHistoryPoint | null = null;
+    let currentBucket: string | null = null;
+
+    for (const snapshot of snapshots) {
+      if (!current || snapshot.bucket !== currentBucket) {
+        current = {
+          snapshotDate: snapshot.snapshotDate,
+          totalResources: 0,
+          criticalIssues: 0,
+          compliantResources: 0,
+          severityBreakdown: {},
+          serviceBreakdown: {},
+        };
+        currentBucket = snapshot.bucket;
+        points.push(current);
+      }
+
+      current.snapshotDate = snapshot.snapshotDate > current.snapshotDate ? snapshot.snapshotDate : current.snapshotDate;
+      current.totalResources += snapshot.totalResources;
+      current.criticalIssues += snapshot.criticalIssues;
+      current.compliantResources += snapshot.compliantResources;
+      for (const [severity, count] of Object.entries(snapshot.severityBreakdown)) {
+        current.severityBreakdown[severity] = (current.severityBreakdown[severity] || 0) + count;
+      }
+      for (const [service, stats] of Object.entries(snapshot.serviceBreakdown)) {
+        const total = (current.serviceBreakdown[service] ??= { total: 0, compliant: 0, critical: 0 });
+        total.total += stats.total;
+        total.compliant += stats.compliant;
+        total.critical += stats.critical;
+      }
+    }
+
+    return points;
+  }
+
+  // Notification operations
+  async getNotificationChannels(organizationId: string): Promise<NotificationChannel[]> {
+    return await db
+      .select()
+      .from(notificationChannels)
+      .where(eq(notificationChannels.organizationId, organizationId))
+      .orderBy(asc(notificationChannels.createdAt));
+  }
+
+  async getAllNotificationChannels(): Promise<NotificationChannel[]> {
+    return await db.select().from(notificationChannels);
+  }
+
+  async getNotificationChannel(organizationId: string, channelId: string): Promise<NotificationChannel | undefined> {
+    const [channel] = await db
+      .select()
+      .from(notificationChannels)
+      .where(and(eq(notificationChannels.organizationId, organizationId), eq(notificationChannels.id, channelId)));
+    return channel;
+  }
+
+  async createNotificationChannel(channelData: NewNotificationChannel): Promise<NotificationChannel> {
+    const [channel] = await db
+      .insert(notificationChannels)
+      .values(channelData)
+      .returning();
+    return channel;
+  }
+
+  async updateNotificationChannel(channelId: string, channelData: Partial<NewNotificationChannel>): Promise<NotificationChannel> {
+    const [channel] = await db
+      .update(notificationChannels)
+      .set({ ...channelData, updatedAt: new Date() })
+      .where(eq(notificationChannels.id, channelId))
+      .returning();
+    return channel;
+  }
+
+  async deleteNotificationChannel(channelId: string): Promise<void> {
+    await db.delete(notificationChannels).where(eq(notificationChannels.id, channelId));
+  }
+
+  async getSubscribedNotificationChannels(organizationId: string, event: NotificationEventType): Promise<NotificationChannel[]> {
+    return await db
+      .select()
+      .from(notificationChannels)
+      .where(and(
+        eq(notificationChannels.organizationId, organizationId),
+        eq(notificationChannels.isActive, true),
+        sql`${notificationChannels.events} @> ${JSON.stringify([event])}::jsonb`,
+      ));
+  }
+
+  async createNotificationDeliveries(deliveries: NewNotificationDelivery[]): Promise<NotificationDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await db.insert(notificationDeliveries).values(deliveries).returning();
+  }
+
+  async updateNotificationDelivery(deliveryId: string, deliveryData: Partial<NewNotificationDelivery>): Promise<NotificationDelivery> {
+    const [delivery] = await db
+      .update(notificationDeliveries)
+      .set(deliveryData)
+      .where(eq(notificationDeliveries.id, deliveryId))
+      .returning();
+    return delivery;
+  }
+
+  async getDueNotificationDeliveries(now: Date, limit: number): Promise<DueNotificationDelivery[]> {
+    const rows = await db
+      .select({ delivery: notificationDeliveries, channel: notificationChannels })
+      .from(notificationDeliveries)
+      .innerJoin(notificationChannels, eq(notificationDeliveries.channelId, notificationChannels.id))
+      .where(and(eq(notificationDeliveries.status, "pending"), lte(notificationDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(notificationDeliveries.nextAttemptAt))
+      .limit(limit);
+    return rows.map(({ delivery, channel }) => ({ ...delivery, channel }));
+  }
+
+  async getNotificationDeliveries(organizationId: string, limit: number): Promise<NotificationDeliveryWithChannel[]> {
+    return await db
+      .select({ ...getTableColumns(notificationDeliveries), channelName: notificationChannels.name })
+      .from(notificationDeliveries)
+      .innerJoin(notificationChannels, eq(notificationDeliveries.channelId, notificationChannels.id))
+      .where(eq(notificationDeliveries.organizationId, organizationId))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  // Failing findings first written at or after since, leaving out muted and accepted ones
+  async getNewFailingFindings(configurationId: string, since: Date, severities: Array<Finding["severity"]>): Promise<NotificationFinding[]> {
+    return await db
+      .select({
+        id: findings.id,
+        checkId: findings.checkId,
+        checkTitle: findings.checkTitle,
+        severity: findings.severity,
+        resourceId: findings.resourceId,
+        resourceName: assets.resourceName,
+      })
+      .from(findings)
+      .leftJoin(assets, eq(findings.assetId, assets.id))
+      .where(and(
+        eq(findings.configurationId, configurationId),
+        gte(findings.createdAt, since),
+        eq(findings.status, 'fail'),
+        inArray(findings.severity, severities),
+        sql`not ${findingSuppressedCondition()}`,
+      ))
+      .orderBy(sql`case ${findings.severity} when 'critical' then 1 else 2 end`, findings.checkId);
+  }
+
+  async getNotificationAssets(assetIds: string[]): Promise<NotificationAsset[]> {
+    if (assetIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        id: assets.id,
+        resourceId: assets.resourceId,
+        resourceName: assets.resourceName,
+        resourceType: assets.resourceType,
+        severity: assets.severity,
+      })
+      .from(assets)
+      .where(inArray(assets.id, assetIds));
+  }
+
+  // Alert operations
+  async getAlertRules(organizationId: string): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.organizationId, organizationId))
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(organizationId: string, ruleId: string): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.organizationId, organizationId), eq(alertRules.id, ruleId)));
+    return rule;
+  }
+
+  // Rules covering the configuration, alone or as part of the whole organization
+  async getActiveAlertRules(organizationId: string, configurationId: string): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.organizationId, organizationId),
+        eq(alertRules.isActive, true),
+        or(isNull(alertRules.configurationId), eq(alertRules.configurationId, configurationId)),
+      ))
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async createAlertRule(ruleData: NewAlertRule): Promise<AlertRule> {
+    const [rule] = await db.insert(alertRules).values(ruleData).returning();
+    return rule;
+  }
+
+  async updateAlertRule(ruleId: string, ruleData: Partial<NewAlertRule>): Promise<AlertRule> {
+    const [rule] = await db
+      .update(alertRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(alertRules.id, ruleId))
+      .returning();
+    return rule;
+  }
+
+  async deleteAlertRule(ruleId: string): Promise<void> {
+    await db.delete(alertRules).where(eq(alertRules.id, ruleId));
+  }
+
+  // Kept apart from updateAlertRule so triggering doesn't count as an edit
+  async setAlertRuleLastTriggeredAt(ruleId: string, lastTriggeredAt: Date): Promise<void> {
+    await db
+      .update(alertRules)
+      .set({ lastTriggeredAt })
+      .where(eq(alertRules.id, ruleId));
+  }
+
+  // Failing findings on current resources that match every condition, leaving out muted and accepted ones
+  async getAlertRuleFindings(configurationIds: string[], conditions: AlertCondition[]): Promise<NotificationFinding[]> {
+    if (configurationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        id: findings.id,
+        checkId: findings.checkId,
+        checkTitle: findings.checkTitle,
+        severity: findings.severity,
+        resourceId: findings.resourceId,
+        resourceName: assets.resourceName,
+      })
+      .from(findings)
+      .innerJoin(assets, eq(findings.assetId, assets.id))
+      .where(and(
+        inArray(findings.configurationId, configurationIds),
+        eq(findings.status, 'fail'),
+        isNull(assets.removedAt),
+        sql`not ${findingSuppressedCondition()}`,
+        alertConditionsSql(conditions),
+      ))
+      .orderBy(sql`case ${findings.severity} when 'critical' then 1 when 'high' then 2 when 'medium' then 3 else 4 end`, findings.checkId);
+  }
+
+  async getAlertRuleMatches(ruleId: string): Promise<string[]> {
+    const matches = await db
+      .select({ fingerprint: alertRuleMatches.fingerprint })
+      .from(alertRuleMatches)
+      .where(eq(alertRuleMatches.ruleId, ruleId));
+    return matches.map(match => match.fingerprint);
+  }
+
+  async addAlertRuleMatches(ruleId: string, fingerprints: string[]): Promise<void> {
+    for (let i = 0; i < fingerprints.length; i += FINDING_INSERT_BATCH_SIZE) {
+      await db
+        .insert(alertRuleMatches)
+        .values(fingerprints.slice(i, i + FINDING_INSERT_BATCH_SIZE).map(fingerprint => ({ ruleId, fingerprint })))
+        .onConflictDoNothing();
+    }
+  }
+
+  async removeAlertRuleMatches(ruleId: string, fingerprints: string[]): Promise<void> {
+    for (let i = 0; i < fingerprints.length; i += FINDING_INSERT_BATCH_SIZE) {
+      await db
+        .delete(alertRuleMatches)
+        .where(and(
+          eq(alertRuleMatches.ruleId, ruleId),
+          inArray(alertRuleMatches.fingerprint, fingerprints.slice(i, i + FINDING_INSERT_BATCH_SIZE)),
+        ));
+    }
+  }
+
+  async createAlert(alertData: NewAlert): Promise<Alert> {
+    const [alert] = await db.insert(alerts).values(alertData).returning();
+    return alert;
+  }
+
+  async getAlerts(organizationId: string, limit: number): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.organizationId, organizationId))
+      .orderBy(desc(alerts.createdAt))
+      .limit(limit);
+  }
+
+  // Email operations
+  async getEmailSettings(): Promise<EmailSettings | undefined> {
+    const [settings] = await db.select().from(emailSettings).limit(1);
+    return settings;
+  }
+
+  async saveEmailSettings(settingsData: NewEmailSettings): Promise<EmailSettings> {
+    const [settings] = await db
+      .insert(emailSettings)
+      .values(settingsData)
+      .onConflictDoUpdate({
+        target: emailSettings.id,
+        set: { ...settingsData, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getEmailSubscriptions(userId: string, organizationId: string): Promise<EmailEventType[]> {
+    const rows = await db
+      .select({ eventType: emailSubscriptions.eventType })
+      .from(emailSubscriptions)
+      .where(and(eq(emailSubscriptions.userId, userId), eq(emailSubscriptions.organizationId, organizationId)));
+    return rows.map(row => row.eventType);
+  }
+
+  async setEmailSubscriptions(userId: string, organizationId: string, eventTypes: EmailEventType[]): Promise<EmailEventType[]> {
+    const unique = Array.from(new Set(eventTypes));
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(emailSubscriptions)
+        .where(and(eq(emailSubscriptions.userId, userId), eq(emailSubscriptions.organizationId, organizationId)));
+      if (unique.length > 0) {
+        await tx.insert(emailSubscriptions).values(unique.map(eventType => ({ userId, organizationId, eventType })));
+      }
+    });
+    return unique;
+  }
+
+  // Only current members receive email, even if a former member's subscriptions are still stored
+  async getEmailSubscribers(organizationId: string): Promise<EmailSubscriber[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        firstName: users.firstName,
+        eventType: emailSubscriptions.eventType,
+      })
+      .from(emailSubscriptions)
+      .innerJoin(users, eq(emailSubscriptions.userId, users.id))
+      .innerJoin(organizationMembers, and(
+        eq(organizationMembers.organizationId, emailSubscriptions.organizationId),
+        eq(organizationMembers.userId, emailSubscriptions.userId),
+      ))
+      .where(eq(emailSubscriptions.organizationId, organizationId))
+      .orderBy(users.username);
+
+    const subscribers = new Map<string, EmailSubscriber>();
+    for (const { eventType, ...user } of rows) {
+      const subscriber = subscribers.get(user.id) ?? { ...user, eventTypes: [] };
+      subscriber.eventTypes.push(eventType);
+      subscribers.set(user.id, subscriber);
+    }
+    return Array.from(subscribers.values());
+  }
+
+  async setNextDigestAt(organizationId: string, nextDigestAt: Date | null): Promise<void> {
+    await db
+      .update(organizations)
+      .set({ nextDigestAt })
+      .where(eq(organizations.id, organizationId));
+  }
+
+  async getOrganizationsDueForDigest(now: Date): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .where(or(isNull(organizations.nextDigestAt), lte(organizations.nextDigestAt, now)));
+  }
+
+  // Accepted risks whose expiry falls between now and until, soonest first
+  async getExpiringRiskAcceptances(configurationIds: string[], until: Date): Promise<ExpiringRiskAcceptance[]> {
+    const expiringCondition = (table: typeof assets | typeof findings) => and(
+      eq(table.triageState, 'accepted_risk'),
+      gt(table.triageExpiresAt, sql`now()`),
+      lte(table.triageExpiresAt, until),
+    );
+
+    const expiringAssets = await db
+      .select({
+        id: assets.id,
+        resourceName: assets.resourceName,
+        justification: assets.triageJustification,
+        expiresAt: assets.triageExpiresAt,
+      })
+      .from(assets)
+      .where(and(inArray(assets.configurationId, configurationIds), isNull(assets.removedAt), expiringCondition(assets)));
+
+    const expiringFindings = await db
+      .select({
+        id: findings.id,
+        assetId: findings.assetId,
+        resourceName: assets.resourceName,
+        checkId: findings.checkId,
+        justification: findings.triageJustification,
+        expiresAt: findings.triageExpiresAt,
+      })
+      .from(findings)
+      .leftJoin(assets, eq(findings.assetId, assets.id))
+      .where(and(inArray(findings.configurationId, configurationIds), expiringCondition(findings)));
+
+    return [
+      ...expiringAssets.map(asset => ({ ...asset, type: 'asset' as const, assetId: asset.id, checkId: null, expiresAt: asset.expiresAt! })),
+      ...expiringFindings.map(finding => ({ ...finding, type: 'finding' as const, expiresAt: finding.expiresAt! })),
+    ].sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+  }
+
+  // Report operations
+  async updateReportSchedule(organizationId: string, reportFrequency: ReportFrequency | null, nextReportAt: Date | null): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ reportFrequency, nextReportAt, updatedAt: new Date() })
+      .where(eq(organizations.id, organizationId))
+      .returning();
+    return organization;
+  }
+
+  async setNextReportAt(organizationId: string, nextReportAt: Date | null): Promise<void> {
+    await db
+      .update(organizations)
+      .set({ nextReportAt })
+      .where(eq(organizations.id, organizationId));
+  }
+
+  async getOrganizationsDueForReport(now: Date): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .where(and(
+        isNotNull(organizations.reportFrequency),
+        or(isNull(organizations.nextReportAt), lte(organizations.nextReportAt, now)),
+      ));
+  }
+
+  async createReport(report: InsertReport): Promise<ReportSummary> {
+    const { content, ...summaryColumns } = getTableColumns(reports);
+    const [created] = await db.insert(reports).values(report).returning(summaryColumns);
+    return created;
+  }
+
+  async getReports(organizationId: string): Promise<ReportSummary[]> {
+    const { content, ...summaryColumns } = getTableColumns(reports);
+    return await db
+      .select(summaryColumns)
+      .from(reports)
+      .where(eq(reports.organizationId, organizationId))
+      .orderBy(desc(reports.createdAt));
+  }
+
+  async getReport(organizationId: string, reportId: string): Promise<Report | undefined> {
+    const [report] = await db
+      .select()
+      .from(reports)
+      .where(and(eq(reports.organizationId, organizationId), eq(reports.id, reportId)));
+    return report;
+  }
 }
 
 export const storage = new DatabaseStorage();
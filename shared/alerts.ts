@@ -0,0 +1,26 @@
+import type { AlertCondition, AlertMetric, AlertRule } from "./schema";
+
+export const alertMetricLabels: Record<AlertMetric, string> = {
+  compliance_ratio: "Compliant ratio",
+  critical_issues: "Critical issues",
+  non_compliant_resources: "Non-compliant resources",
+};
+
+function formatCondition(condition: AlertCondition): string {
+  if (condition.values.length === 1) {
+    return `${condition.field} ${condition.operator === "in" ? "=" : "!="} ${condition.values[0]}`;
+  }
+  return `${condition.field} ${condition.operator === "in" ? "in" : "not in"} (${condition.values.join(", ")})`;
+}
+
+// One-line form of a rule, e.g. "severity in (critical, high) AND region = eu-west-1"
+export function describeAlertRule(rule: Pick<AlertRule, "kind" | "conditions" | "metric">): string {
+  if (rule.kind === "metric") {
+    if (!rule.metric) {
+      return "";
+    }
+    const unit = rule.metric.metric === "compliance_ratio" ? "%" : "";
+    return `${alertMetricLabels[rule.metric.metric]} ${rule.metric.operator === "below" ? "drops below" : "rises above"} ${rule.metric.threshold}${unit}`;
+  }
+  return rule.conditions.map(formatCondition).join(" AND ");
+}
@@ -0,0 +1,46 @@
+import type { AlertCondition, AlertConditionField, ControlFrameworkDocument, ControlFrameworkWithControls } from "./schema";
+
+// Resource fields an asset filter can test; the finding-level alert fields don't apply to controls
+export const controlAssetFields = ["resourceType", "service", "region", "accountId", "provider", "resourceId"] as const satisfies readonly AlertConditionField[];
+
+const CLAUSE_PATTERN = /^([A-Za-z]+)\s*(!=|=|not\s+in\b|in\b)\s*(.+)$/i;
+
+// Parses "resourceType = AwsS3Bucket AND region in (eu-west-1, eu-*)", the form describeAlertRule prints
+export function parseAssetFilter(expression: string): { conditions?: AlertCondition[]; error?: string } {
+  const conditions: AlertCondition[] = [];
+  for (const clause of expression.split(/\s+AND\s+/i)) {
+    const match = CLAUSE_PATTERN.exec(clause.trim());
+    if (!match) {
+      return { error: `Cannot read "${clause.trim()}"; expected field = value, field != value, field in (a, b) or field not in (a, b)` };
+    }
+    const [, field, operator, rawValues] = match;
+    if (!(controlAssetFields as readonly string[]).includes(field)) {
+      return { error: `Unknown field "${field}"; use one of ${controlAssetFields.join(", ")}` };
+    }
+    const list = /^\((.*)\)$/.exec(rawValues.trim());
+    const values = (list ? list[1].split(",") : [rawValues]).map(value => value.trim()).filter(Boolean);
+    if (values.length === 0) {
+      return { error: `No value given for ${field}` };
+    }
+    conditions.push({
+      field: field as AlertConditionField,
+      operator: operator === "!=" || /^not/i.test(operator) ? "not_in" : "in",
+      values,
+    });
+  }
+  return { conditions };
+}
+
+// The document a stored framework exports as; empty fields are left out, as they are optional when importing
+export function toControlFrameworkDocument(framework: ControlFrameworkWithControls): ControlFrameworkDocument {
+  return {
+    name: framework.name,
+    ...(framework.description ? { description: framework.description } : {}),
+    controls: framework.controls.map(control => ({
+      id: control.controlId,
+      ...(control.description ? { description: control.description } : {}),
+      ...(control.checkIds.length > 0 ? { checks: control.checkIds } : {}),
+      ...(control.assetFilter ? { assets: control.assetFilter } : {}),
+    })),
+  };
+}
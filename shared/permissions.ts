@@ -0,0 +1,62 @@
+import type { OrganizationRole, OrganizationWithRole } from "./schema";
+
+export const userRoles = ["viewer", "analyst", "integration_manager", "admin"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  viewer: "Viewer",
+  analyst: "Analyst",
+  integration_manager: "Integration Manager",
+  admin: "Admin",
+};
+
+export const permissions = [
+  // Read the dashboard: assets, findings, stats and history
+  "inventory:read",
+  // Annotate and triage findings
+  "findings:triage",
+  // Trigger a sync from Prowler
+  "inventory:sync",
+  "configurations:read",
+  "configurations:manage",
+  "organization:manage",
+  "users:manage",
+  // Instance-wide settings such as the SMTP server
+  "settings:manage",
+  "credentials:rotate",
+] as const;
+export type Permission = (typeof permissions)[number];
+
+// Response of /api/organizations/current: the active organization and what the user may do in it
+export type CurrentOrganization = OrganizationWithRole & { permissions: Permission[] };
+
+// Permission matrix for the global users.role
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  viewer: ["inventory:read", "configurations:read"],
+  analyst: ["inventory:read", "configurations:read", "findings:triage", "inventory:sync"],
+  integration_manager: ["inventory:read", "configurations:read", "inventory:sync", "configurations:manage"],
+  admin: permissions,
+};
+
+// Organization roles add permissions within their organization on top of the global role
+export const organizationRolePermissions: Record<OrganizationRole, readonly Permission[]> = {
+  owner: ["inventory:sync", "configurations:manage", "organization:manage"],
+  admin: ["inventory:sync", "configurations:manage", "organization:manage"],
+  member: [],
+};
+
+// Accounts created before fine-grained roles existed hold the legacy "user" role
+export function normalizeRole(role: string | null | undefined): UserRole {
+  if (role === "user") {
+    return "analyst";
+  }
+  return userRoles.find((candidate) => candidate === role) ?? "viewer";
+}
+
+export function getPermissions(role: string | null | undefined, organizationRole?: OrganizationRole): Permission[] {
+  const granted = new Set<Permission>(rolePermissions[normalizeRole(role)]);
+  if (organizationRole) {
+    organizationRolePermissions[organizationRole].forEach((permission) => granted.add(permission));
+  }
+  return permissions.filter((permission) => granted.has(permission));
+}
@@ -7,9 +7,14 @@ import {
   timestamp,
   varchar,
   boolean,
+  integer,
+  uniqueIndex,
+  date,
+  customType,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoles } from "./permissions";
 
 // Session storage table.
 export const sessions = pgTable(
@@ -31,54 +36,1042 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role", { enum: ["admin", "user"] }).default("user"),
+  // See shared/permissions.ts; accounts from before fine-grained roles may still hold "user"
+  role: varchar("role", { enum: userRoles }).default("viewer"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Organizations own Prowler configurations, so every member sees the same inventory
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Executive report schedule; null disables scheduled reports
+  reportFrequency: varchar("report_frequency", { enum: ["weekly", "monthly"] }),
+  nextReportAt: timestamp("next_report_at"),
+  // When the members' weekly email digest is next sent
+  nextDigestAt: timestamp("next_digest_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-organization roles, layered on top of the global users.role
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role", { enum: ["owner", "admin", "member"] }).notNull().default("member"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_organization_members_org_user").on(table.organizationId, table.userId),
+    index("IDX_organization_members_user").on(table.userId),
+  ],
+);
+
+// Where a configuration's data comes from: the Prowler App API, Prowler CLI output files uploaded by users,
+// or output files the Prowler CLI drops into a watched directory or S3-compatible bucket
+export const configurationSourceTypes = ["api", "upload", "directory", "s3"] as const;
+
 // Prowler configuration storage table
 export const prowlerConfigurations = pgTable("prowler_configurations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  prowlerUrl: text("prowler_url").notNull(),
-  prowlerEmail: text("prowler_email").notNull(),
-  prowlerPasswordHash: text("prowler_password_hash").notNull(),
+  // Null only for configurations created before organizations existed; the creator's personal organization claims them
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  // The member who created the configuration
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  name: text("name").notNull().default("Default"),
+  sourceType: varchar("source_type", { enum: configurationSourceTypes }).notNull().default("api"),
+  // Connection settings are only set for API configurations
+  prowlerUrl: text("prowler_url"),
+  prowlerEmail: text("prowler_email"),
+  // AES-256-GCM ciphertext produced by server/services/credentialService.ts; holds the S3 secret access key for bucket configurations
+  prowlerPasswordEncrypted: text("prowler_password_encrypted"),
+  // Watched directory, relative to PROWLER_WATCH_ROOT
+  directoryPath: text("directory_path"),
+  // S3-compatible bucket; an empty endpoint means AWS S3 itself
+  s3Endpoint: text("s3_endpoint"),
+  s3Bucket: text("s3_bucket"),
+  s3Prefix: text("s3_prefix"),
+  s3Region: text("s3_region"),
+  s3AccessKeyId: text("s3_access_key_id"),
+  // MinIO and most self-hosted stores need path-style addressing
+  s3ForcePathStyle: boolean("s3_force_path_style").default(true),
+  // Disabled configurations are skipped by the scheduler and excluded from aggregated views
   isActive: boolean("is_active").default(true),
   connectionStatus: varchar("connection_status", { enum: ["connected", "disconnected", "error"] }).default("disconnected"),
   lastSyncAt: timestamp("last_sync_at"),
+  // Scheduled sync: null interval disables it, jitter spreads runs across instances
+  syncIntervalMinutes: integer("sync_interval_minutes").default(1440),
+  syncJitterMinutes: integer("sync_jitter_minutes").default(15),
+  nextSyncAt: timestamp("next_sync_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Sync job history for manual and scheduled syncs
+export const syncJobs = pgTable(
+  "sync_jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    trigger: varchar("trigger", { enum: ["manual", "scheduled", "upload"] }).notNull(),
+    status: varchar("status", { enum: ["running", "succeeded", "failed"] }).notNull().default("running"),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    resourceCount: integer("resource_count").default(0),
+    // Pagination progress while the job is running
+    pagesFetched: integer("pages_fetched").default(0),
+    totalPages: integer("total_pages"),
+    itemsFetched: integer("items_fetched").default(0),
+    findingCount: integer("finding_count").default(0),
+    error: text("error"),
+  },
+  (table) => [index("IDX_sync_jobs_configuration").on(table.configurationId, table.startedAt)],
+);
+
+// Providers Prowler can scan
+export const cloudProviders = ["aws", "azure", "gcp", "kubernetes", "m365"] as const;
+
+// Analyst decisions on an asset or finding; "open" means no decision is in force
+export const triageStates = ["open", "acknowledged", "muted", "accepted_risk", "false_positive"] as const;
+// While in force, these states take an item out of the headline stats
+export const suppressedTriageStates = ["muted", "accepted_risk"] as const;
+
+// Current triage decision, shared by assets and findings; every change is also logged in triage_events
+const triageColumns = () => ({
+  triageState: varchar("triage_state", { enum: triageStates }).notNull().default("open"),
+  triageJustification: text("triage_justification"),
+  // The decision lapses afterwards and the item counts as open again
+  triageExpiresAt: timestamp("triage_expires_at"),
+  triageAssigneeId: varchar("triage_assignee_id").references(() => users.id, { onDelete: "set null" }),
+  triagedBy: varchar("triaged_by").references(() => users.id, { onDelete: "set null" }),
+  triagedAt: timestamp("triaged_at"),
+});
+
 // Asset/Resource storage table for caching Prowler data
-export const assets = pgTable("assets", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
-  resourceId: text("resource_id").notNull(),
-  resourceName: text("resource_name").notNull(),
-  resourceType: text("resource_type").notNull(),
-  region: text("region"),
-  status: varchar("status", { enum: ["compliant", "non-compliant", "warning", "unknown"] }).notNull(),
-  severity: varchar("severity", { enum: ["critical", "high", "medium", "low"] }),
-  rawData: jsonb("raw_data"),
-  lastCheckedAt: timestamp("last_checked_at"),
-  createdAt: timestamp("created_at").defaultNow(),
+export const assets = pgTable(
+  "assets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    resourceId: text("resource_id").notNull(),
+    resourceName: text("resource_name").notNull(),
+    resourceType: text("resource_type").notNull(),
+    region: text("region"),
+    provider: varchar("provider", { enum: cloudProviders }),
+    // AWS account, Azure subscription, GCP project, Kubernetes cluster or M365 tenant
+    accountId: text("account_id"),
+    service: text("service"),
+    status: varchar("status", { enum: ["compliant", "non-compliant", "warning", "unknown"] }).notNull(),
+    severity: varchar("severity", { enum: ["critical", "high", "medium", "low"] }),
+    rawData: jsonb("raw_data"),
+    tags: jsonb("tags").$type<Record<string, string>>(),
+    lastCheckedAt: timestamp("last_checked_at"),
+    firstSeenAt: timestamp("first_seen_at").defaultNow(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow(),
+    // Set when a sync no longer reports the resource; cleared if it comes back
+    removedAt: timestamp("removed_at"),
+    ...triageColumns(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_assets_configuration_resource").on(table.configurationId, table.resourceId),
+    // Trigram indexes back the ILIKE search; they require the pg_trgm extension
+    index("IDX_assets_resource_name_trgm").using("gin", table.resourceName.op("gin_trgm_ops")),
+    index("IDX_assets_resource_id_trgm").using("gin", table.resourceId.op("gin_trgm_ops")),
+    index("IDX_assets_configuration_provider").on(table.configurationId, table.provider),
+  ],
+);
+
+// Change log of asset status/severity transitions across syncs
+export const assetChanges = pgTable(
+  "asset_changes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    changeType: varchar("change_type", { enum: ["created", "updated", "removed", "restored"] }).notNull(),
+    previousStatus: varchar("previous_status"),
+    newStatus: varchar("new_status"),
+    previousSeverity: varchar("previous_severity"),
+    newSeverity: varchar("new_severity"),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_asset_changes_asset").on(table.assetId, table.changedAt)],
+);
+
+// Output files already ingested from a watched directory or bucket, so each is only imported once
+export const processedSourceFiles = pgTable(
+  "processed_source_files",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    // Path relative to the directory, or the object key
+    fileKey: text("file_key").notNull(),
+    // Size and mtime for directories, ETag for buckets; a changed file is imported again
+    fingerprint: text("fingerprint").notNull(),
+    syncJobId: varchar("sync_job_id").references(() => syncJobs.id, { onDelete: "set null" }),
+    status: varchar("status", { enum: ["succeeded", "failed"] }).notNull(),
+    error: text("error"),
+    processedAt: timestamp("processed_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_processed_source_files_configuration_key").on(table.configurationId, table.fileKey)],
+);
+
+// One row per configuration per day with the numbers getAssetStats computed after the last sync that day
+export const postureSnapshots = pgTable(
+  "posture_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    snapshotDate: date("snapshot_date", { mode: "string" }).notNull(),
+    totalResources: integer("total_resources").notNull(),
+    criticalIssues: integer("critical_issues").notNull(),
+    compliantResources: integer("compliant_resources").notNull(),
+    severityBreakdown: jsonb("severity_breakdown").$type<Record<string, number>>().notNull(),
+    serviceBreakdown: jsonb("service_breakdown").$type<Record<string, ServiceStats>>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_posture_snapshots_configuration_date").on(table.configurationId, table.snapshotDate)],
+);
+
+// Individual Prowler check results; a resource usually has many findings
+export const findings = pgTable(
+  "findings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    assetId: varchar("asset_id").references(() => assets.id, { onDelete: "set null" }),
+    // Stable Prowler finding uid, used to match findings across syncs
+    findingUid: text("finding_uid").notNull(),
+    // Prowler resource id, used to re-link the finding to its asset on each sync
+    resourceId: text("resource_id"),
+    checkId: text("check_id").notNull(),
+    checkTitle: text("check_title"),
+    service: text("service"),
+    status: varchar("status", { enum: ["pass", "fail", "manual"] }).notNull(),
+    severity: varchar("severity", { enum: ["critical", "high", "medium", "low", "informational"] }).notNull(),
+    statusExtended: text("status_extended"),
+    remediation: jsonb("remediation"),
+    // Framework name -> requirement ids, e.g. { "CIS-2.0": ["2.1.1"] }
+    compliance: jsonb("compliance").$type<Record<string, string[]>>(),
+    firstSeenAt: timestamp("first_seen_at").defaultNow(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow(),
+    rawData: jsonb("raw_data"),
+    ...triageColumns(),
+    // Oldest active mute rule matching the finding; recomputed at ingest and whenever rules change
+    mutedByRuleId: varchar("muted_by_rule_id").references(() => muteRules.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_findings_configuration_uid").on(table.configurationId, table.findingUid),
+    index("IDX_findings_configuration_check").on(table.configurationId, table.checkId),
+    index("IDX_findings_asset").on(table.assetId),
+    index("IDX_findings_muted_by_rule").on(table.mutedByRuleId),
+  ],
+);
+
+// Pattern-based suppression, like Prowler's mutelist; a finding is muted when it matches every non-empty condition
+export const muteRules = pgTable(
+  "mute_rules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    reason: text("reason").notNull(),
+    // Each list matches any of its entries; "*" is a wildcard
+    checks: jsonb("checks").$type<string[]>().notNull().default([]),
+    accounts: jsonb("accounts").$type<string[]>().notNull().default([]),
+    regions: jsonb("regions").$type<string[]>().notNull().default([]),
+    // Matched against the Prowler resource uid, e.g. an ARN
+    resources: jsonb("resources").$type<string[]>().notNull().default([]),
+    // Every tag must be present on the asset; "*" accepts any value
+    tags: jsonb("tags").$type<Record<string, string>>().notNull().default({}),
+    expiresAt: timestamp("expires_at"),
+    isActive: boolean("is_active").notNull().default(true),
+    // Incremented on every change; mute_rule_versions keeps each one
+    version: integer("version").notNull().default(1),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_mute_rules_organization").on(table.organizationId)],
+);
+
+// Snapshot of a mute rule after each change; kept after the rule is deleted
+export const muteRuleVersions = pgTable(
+  "mute_rule_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    // Deliberately not a foreign key, so a deleted rule's history stays attached to its id
+    ruleId: varchar("rule_id").notNull(),
+    version: integer("version").notNull(),
+    changeType: varchar("change_type", { enum: ["created", "updated", "deleted"] }).notNull(),
+    rule: jsonb("rule").$type<MuteRuleInput>().notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_mute_rule_versions_rule").on(table.ruleId, table.version)],
+);
+
+export const complianceRequirementStatuses = ["pass", "fail", "manual"] as const;
+
+// Requirements of the frameworks Prowler evaluated in the latest scan of each provider, from /api/v1/compliance-overviews.
+// Replaced on every API sync; imported files carry their mappings on the findings instead
+export const complianceRequirements = pgTable(
+  "compliance_requirements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    // Same naming as the finding mappings, e.g. "CIS-2.0"
+    framework: text("framework").notNull(),
+    requirementId: text("requirement_id").notNull(),
+    description: text("description"),
+    // Prowler's verdict, used for requirements no synced finding maps to
+    status: varchar("status", { enum: complianceRequirementStatuses }).notNull(),
+    checkIds: jsonb("check_ids").$type<string[]>().notNull().default([]),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_compliance_requirements_requirement").on(table.configurationId, table.framework, table.requirementId)],
+);
+
+// Internal control frameworks an organization defines itself, scored next to the frameworks Prowler reports
+export const controlFrameworks = pgTable(
+  "control_frameworks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    description: text("description"),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_control_frameworks_organization_name").on(table.organizationId, table.name)],
+);
+
+// A control covers the findings of its checks on the resources its asset filter matches; either may be left out
+export const frameworkControls = pgTable(
+  "framework_controls",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    frameworkId: varchar("framework_id").notNull().references(() => controlFrameworks.id, { onDelete: "cascade" }),
+    controlId: text("control_id").notNull(),
+    description: text("description"),
+    // Prowler check ids, "*" is a wildcard
+    checkIds: jsonb("check_ids").$type<string[]>().notNull().default([]),
+    // Expression over resource fields, e.g. "resourceType = AwsS3Bucket AND region in (eu-west-1, eu-central-1)"
+    assetFilter: text("asset_filter"),
+    // Controls keep the order they were defined in
+    position: integer("position").notNull(),
+  },
+  (table) => [uniqueIndex("UQ_framework_controls_framework_control").on(table.frameworkId, table.controlId)],
+);
+
+// Audit trail of triage decisions; rows outlive the finding when a sync no longer reports it
+export const triageEvents = pgTable(
+  "triage_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    configurationId: varchar("configuration_id").notNull().references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    // Set for asset decisions and, for finding decisions, to the finding's asset
+    assetId: varchar("asset_id").references(() => assets.id, { onDelete: "set null" }),
+    findingId: varchar("finding_id").references(() => findings.id, { onDelete: "set null" }),
+    // Kept so the event stays readable after the finding is gone
+    checkId: text("check_id"),
+    previousState: varchar("previous_state", { enum: triageStates }).notNull(),
+    newState: varchar("new_state", { enum: triageStates }).notNull(),
+    justification: text("justification").notNull(),
+    expiresAt: timestamp("expires_at"),
+    assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_triage_events_asset").on(table.assetId, table.createdAt),
+    index("IDX_triage_events_finding").on(table.findingId, table.createdAt),
+  ],
+);
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Generated executive PDF reports, kept so past periods stay downloadable
+export const reports = pgTable(
+  "reports",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    periodStart: date("period_start", { mode: "string" }).notNull(),
+    periodEnd: date("period_end", { mode: "string" }).notNull(),
+    trigger: varchar("trigger", { enum: ["manual", "scheduled"] }).notNull(),
+    // Member who generated a manual report
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    sizeBytes: integer("size_bytes").notNull(),
+    content: bytea("content").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_reports_organization").on(table.organizationId, table.createdAt)],
+);
+
+// SMTP server used for email notifications; a single row shared by all organizations
+export const emailSettings = pgTable("email_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  host: text("host").notNull(),
+  port: integer("port").notNull().default(587),
+  // Implicit TLS, usually on port 465; otherwise STARTTLS is used when the server offers it
+  secure: boolean("secure").notNull().default(false),
+  username: text("username"),
+  // AES-256-GCM ciphertext produced by server/services/credentialService.ts
+  passwordEncrypted: text("password_encrypted"),
+  fromAddress: text("from_address").notNull(),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Sections of the weekly email digest a member can subscribe to
+export const emailEventTypes = ["weekly_summary", "new_critical", "expiring_risks"] as const;
+
+// A row means the member receives that section for the organization
+export const emailSubscriptions = pgTable(
+  "email_subscriptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type", { enum: emailEventTypes }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_email_subscriptions_user_event").on(table.userId, table.organizationId, table.eventType),
+    index("IDX_email_subscriptions_organization").on(table.organizationId),
+  ],
+);
+
+export const notificationChannelTypes = ["webhook", "slack", "teams"] as const;
+// Events sync emits; "test" deliveries are only sent on request and can't be subscribed to
+export const notificationEventTypes = ["findings.new", "assets.regressed", "sync.failed"] as const;
+
+// Outbound webhooks notified about sync events of the organization's configurations
+export const notificationChannels = pgTable(
+  "notification_channels",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    // Selects the payload format: generic JSON, Slack or Microsoft Teams
+    type: varchar("type", { enum: notificationChannelTypes }).notNull(),
+    url: text("url").notNull(),
+    // HMAC signing secret as AES-256-GCM ciphertext from server/services/credentialService.ts; bodies are unsigned without one
+    secretEncrypted: text("secret_encrypted"),
+    events: jsonb("events").$type<NotificationEventType[]>().notNull().default([]),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_notification_channels_organization").on(table.organizationId)],
+);
+
+// Delivery log; failed attempts stay pending until nextAttemptAt, then are retried with backoff
+export const notificationDeliveries = pgTable(
+  "notification_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    channelId: varchar("channel_id").notNull().references(() => notificationChannels.id, { onDelete: "cascade" }),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    // "alert.triggered" deliveries come from alert rules, which pick their channels themselves
+    event: varchar("event", { enum: [...notificationEventTypes, "alert.triggered", "test"] }).notNull(),
+    payload: jsonb("payload").$type<NotificationEvent>().notNull(),
+    status: varchar("status", { enum: ["pending", "succeeded", "failed"] }).notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    // HTTP status of the last attempt; null when the request never got a response
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_notification_deliveries_due").on(table.status, table.nextAttemptAt),
+    index("IDX_notification_deliveries_organization").on(table.organizationId, table.createdAt),
+  ],
+);
+
+export const alertRuleKinds = ["findings", "metric"] as const;
+// Finding fields come from the finding, the rest from its resource
+export const alertConditionFields = ["severity", "checkId", "resourceType", "service", "region", "accountId", "provider", "resourceId"] as const;
+export const alertConditionOperators = ["in", "not_in"] as const;
+export const alertMetrics = ["compliance_ratio", "critical_issues", "non_compliant_resources"] as const;
+
+// User-defined alerts evaluated after every sync of the configurations they cover
+export const alertRules = pgTable(
+  "alert_rules",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    // Null covers every enabled configuration of the organization
+    configurationId: varchar("configuration_id").references(() => prowlerConfigurations.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    kind: varchar("kind", { enum: alertRuleKinds }).notNull(),
+    // Findings rules: failing findings matching every condition
+    conditions: jsonb("conditions").$type<AlertCondition[]>().notNull().default([]),
+    // Metric rules: the posture metric and the threshold it must not cross
+    metric: jsonb("metric").$type<AlertMetricCondition>(),
+    // No alert is sent within this many minutes of the last one; new matches wait for the window to end
+    cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+    channelIds: jsonb("channel_ids").$type<string[]>().notNull().default([]),
+    emailRecipients: jsonb("email_recipients").$type<string[]>().notNull().default([]),
+    isActive: boolean("is_active").notNull().default(true),
+    lastTriggeredAt: timestamp("last_triggered_at"),
+    createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_alert_rules_organization").on(table.organizationId)],
+);
+
+// What each rule has already alerted on: finding ids, or "metric" while a threshold is crossed.
+// Rows are dropped once they stop matching, so a finding that comes back alerts again
+export const alertRuleMatches = pgTable(
+  "alert_rule_matches",
+  {
+    ruleId: varchar("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+    fingerprint: varchar("fingerprint").notNull(),
+    firstMatchedAt: timestamp("first_matched_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_alert_rule_matches_rule_fingerprint").on(table.ruleId, table.fingerprint)],
+);
+
+// History of triggered alerts, shown on the Alerts page
+export const alerts = pgTable(
+  "alerts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    ruleId: varchar("rule_id").references(() => alertRules.id, { onDelete: "set null" }),
+    // Kept so the alert stays readable after the rule is deleted
+    ruleName: text("rule_name").notNull(),
+    payload: jsonb("payload").$type<NotificationEvent & { type: "alert.triggered" }>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_alerts_organization").on(table.organizationId, table.createdAt)],
+);
+
+export type ServiceStats = {
+  total: number;
+  compliant: number;
+  critical: number;
+};
+
+export type AssetStats = {
+  totalResources: number;
+  criticalIssues: number;
+  compliantResources: number;
+  lastScan: Date | null;
+  severityBreakdown: Record<string, number>;
+  serviceBreakdown: Record<string, ServiceStats>;
+  // Assets and failing findings that are muted or accepted; left out of the numbers above unless requested.
+  // Findings muted by a rule count as muted
+  suppressed: {
+    assets: Record<SuppressedTriageState, number>;
+    findings: Record<SuppressedTriageState, number>;
+  };
+};
+
+export const statsQuerySchema = z.object({
+  includeSuppressed: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const statsHistoryQuerySchema = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  granularity: z.enum(["day", "week", "month"]).default("day"),
+});
+
+export const assetSortFields = ["resourceName", "resourceType", "region", "status", "severity", "lastCheckedAt"] as const;
+export const assetFacetFields = ["resourceType", "region", "account", "provider", "service"] as const;
+
+// Facet filters accept a repeated query parameter (?region=a&region=b) and match any of the values
+const facetValuesSchema = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform((value) => (value === undefined ? undefined : [value].flat().filter(Boolean)));
+
+export const assetFilterSchema = z.object({
+  resourceType: facetValuesSchema,
+  region: facetValuesSchema,
+  account: facetValuesSchema,
+  provider: facetValuesSchema,
+  service: facetValuesSchema,
+  status: z.string().optional(),
+  severity: z.string().optional(),
+  search: z.string().trim().optional(),
+});
+
+const assetSortSchema = z.object({
+  // Without a sort the most recently updated assets come first
+  sort: z.enum(assetSortFields).optional(),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const assetQuerySchema = assetFilterSchema.merge(assetSortSchema).extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(25),
+});
+
+export const assetExportFormats = ["csv", "json", "xlsx"] as const;
+
+export const assetExportQuerySchema = assetFilterSchema.merge(assetSortSchema).extend({
+  format: z.enum(assetExportFormats).default("csv"),
+});
+
+export const findingQuerySchema = z.object({
+  status: z.string().optional(),
+  severity: z.string().optional(),
+  checkId: z.string().optional(),
+  assetId: z.string().optional(),
+  service: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const triageSchema = z
+  .object({
+    state: z.enum(triageStates),
+    justification: z.string().trim().min(1, "Justification is required").max(2000),
+    expiresAt: z.string().datetime({ offset: true }).nullable().default(null),
+    assigneeId: z.string().min(1).nullable().default(null),
+  })
+  .superRefine((triage, ctx) => {
+    if (triage.state === "accepted_risk" && !triage.expiresAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "Accepted risks need an expiry date" });
+    }
+    if (triage.expiresAt && new Date(triage.expiresAt) <= new Date()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "Expiry date must be in the future" });
+    }
+  });
+
+const mutePatternsSchema = z.array(z.string().trim().min(1)).max(100).default([]);
+
+export const muteRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    reason: z.string().trim().min(1, "Reason is required").max(2000),
+    checks: mutePatternsSchema,
+    accounts: mutePatternsSchema,
+    regions: mutePatternsSchema,
+    resources: mutePatternsSchema,
+    tags: z.record(z.string().trim().min(1), z.string().trim().min(1)).default({}),
+    expiresAt: z.string().datetime({ offset: true }).nullable().default(null),
+    isActive: z.boolean().default(true),
+  })
+  .refine(
+    (rule) => [rule.checks, rule.accounts, rule.regions, rule.resources, Object.keys(rule.tags)].some((values) => values.length > 0),
+    { message: "Add at least one condition", path: ["checks"] },
+  );
+
+// Updates keep the stored password unless a new one is supplied; null removes it
+export const emailSettingsSchema = z.object({
+  host: z.string().trim().min(1, "Host is required"),
+  port: z.number().int().min(1).max(65535).default(587),
+  secure: z.boolean().default(false),
+  username: z.string().trim().default(""),
+  password: z.string().nullable().optional(),
+  fromAddress: z.string().trim().email("Must be a valid email"),
+  isEnabled: z.boolean().default(true),
+});
+
+export const emailSubscriptionsSchema = z.object({
+  eventTypes: z.array(z.enum(emailEventTypes)),
+});
+
+const notificationEventsSchema = z.array(z.enum(notificationEventTypes)).min(1, "Pick at least one event");
+
+export const notificationChannelSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  type: z.enum(notificationChannelTypes),
+  url: z.string().trim().url("Please enter a valid URL").refine((url) => /^https?:\/\//i.test(url), "Only http and https URLs are supported"),
+  secret: z.string().max(256).optional(),
+  events: notificationEventsSchema,
+  isActive: z.boolean().default(true),
+});
+
+// Updates keep the stored secret unless a new one is supplied; null removes it
+export const updateNotificationChannelSchema = notificationChannelSchema.partial().extend({
+  secret: z.string().max(256).nullable().optional(),
+});
+
+const alertConditionSchema = z.object({
+  field: z.enum(alertConditionFields),
+  operator: z.enum(alertConditionOperators),
+  // "*" is a wildcard
+  values: z.array(z.string().trim().min(1)).min(1, "Add at least one value").max(100),
+});
+
+const alertMetricConditionSchema = z.object({
+  metric: z.enum(alertMetrics),
+  operator: z.enum(["below", "above"]),
+  threshold: z.number().min(0),
+});
+
+export const alertRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    configurationId: z.string().min(1).nullable().default(null),
+    kind: z.enum(alertRuleKinds),
+    conditions: z.array(alertConditionSchema).max(20).default([]),
+    metric: alertMetricConditionSchema.nullable().default(null),
+    cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
+    channelIds: z.array(z.string().min(1)).max(20).default([]),
+    emailRecipients: z.array(z.string().trim().email("Must be a valid email")).max(20).default([]),
+    isActive: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.kind === "findings" && rule.conditions.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["conditions"], message: "Add at least one condition" });
+    }
+    if (rule.kind === "metric" && !rule.metric) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["metric"], message: "Pick a metric and threshold" });
+    }
+    if (rule.channelIds.length === 0 && rule.emailRecipients.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["channelIds"], message: "Route the alert to at least one channel or email address" });
+    }
+  });
+
+const frameworkControlSchema = z
+  .object({
+    id: z.string().trim().min(1, "Control id is required").max(100),
+    description: z.string().trim().max(2000).nullable().default(null),
+    checks: z.array(z.string().trim().min(1)).max(500).default([]),
+    assets: z.string().trim().min(1).max(2000).nullable().default(null),
+  })
+  .refine((control) => control.checks.length > 0 || control.assets !== null, {
+    path: ["checks"],
+    message: "Map the control to checks or an asset filter",
+  });
+
+// Shape of the YAML/JSON documents control frameworks are imported from and exported to
+export const controlFrameworkSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    description: z.string().trim().max(2000).nullable().default(null),
+    controls: z.array(frameworkControlSchema).min(1, "Add at least one control").max(1000),
+  })
+  .superRefine((framework, ctx) => {
+    const seen = new Set<string>();
+    framework.controls.forEach((control, index) => {
+      if (seen.has(control.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["controls", index, "id"], message: `Control ${control.id} is defined twice` });
+      }
+      seen.add(control.id);
+    });
+  });
+
+export const controlFrameworkFormats = ["yaml", "json"] as const;
+
+// A YAML or JSON document; YAML parsing covers both
+export const controlFrameworkImportSchema = z.object({
+  content: z.string().min(1, "The document is empty").max(5 * 1024 * 1024),
+});
+
+export const controlFrameworkExportQuerySchema = z.object({
+  format: z.enum(controlFrameworkFormats).default("yaml"),
+});
+
+export const reportFrequencies = ["weekly", "monthly"] as const;
+
+export const reportScheduleSchema = z.object({
+  reportFrequency: z.enum(reportFrequencies).nullable(),
+});
+
+export const generateReportSchema = z.object({
+  frequency: z.enum(reportFrequencies).default("monthly"),
+});
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+export const organizationRoles = ["owner", "admin", "member"] as const;
+
+export const organizationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const addOrganizationMemberSchema = z.object({
+  // Username or email of an existing user
+  user: z.string().trim().min(1, "Username or email is required"),
+  role: z.enum(organizationRoles).default("member"),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(organizationRoles),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationRole = OrganizationMember["role"];
+export type OrganizationWithRole = Organization & { role: OrganizationRole };
+export type OrganizationMemberWithUser = OrganizationMember & {
+  username: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+};
+
 export const insertProwlerConfigurationSchema = createInsertSchema(prowlerConfigurations).pick({
+  name: true,
   prowlerUrl: true,
   prowlerEmail: true,
 });
 
 export const prowlerConfigurationSchema = insertProwlerConfigurationSchema.extend({
+  name: z.string().trim().min(1, "Name is required").default("Default"),
+  prowlerUrl: z.string().min(1, "Prowler URL is required"),
+  prowlerEmail: z.string().min(1, "Email is required"),
   prowlerPassword: z.string().min(1, "Password is required"),
 });
 
+// Upload configurations have no Prowler connection; their data arrives as Prowler CLI output files
+export const uploadConfigurationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").default("Default"),
+  sourceType: z.literal("upload"),
+});
+
+export const directoryConfigurationSchema = uploadConfigurationSchema.extend({
+  sourceType: z.literal("directory"),
+  directoryPath: z.string().trim().min(1, "Directory is required"),
+});
+
+export const s3ConfigurationSchema = uploadConfigurationSchema.extend({
+  sourceType: z.literal("s3"),
+  s3Endpoint: z.union([z.string().trim().url("Please enter a valid URL"), z.literal("")]).default(""),
+  s3Bucket: z.string().trim().min(1, "Bucket is required"),
+  s3Prefix: z.string().trim().default(""),
+  s3Region: z.string().trim().min(1).default("us-east-1"),
+  // Keys are required so configurations can never borrow the server's own AWS credentials
+  s3AccessKeyId: z.string().trim().min(1, "Access key ID is required"),
+  s3SecretAccessKey: z.string().min(1, "Secret access key is required"),
+  s3ForcePathStyle: z.boolean().default(true),
+});
+
+export const fileSourceConfigurationSchema = z.discriminatedUnion("sourceType", [
+  uploadConfigurationSchema,
+  directoryConfigurationSchema,
+  s3ConfigurationSchema,
+]);
+
+// Updates keep the stored password unless a new one is supplied
+export const updateProwlerConfigurationSchema = prowlerConfigurationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+// Updates keep the stored secret access key unless a new one is supplied
+export const updateFileSourceConfigurationSchema = directoryConfigurationSchema
+  .merge(s3ConfigurationSchema)
+  .omit({ sourceType: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  });
+
+export const syncScheduleSchema = z.object({
+  syncIntervalMinutes: z.number().int().min(15, "Interval must be at least 15 minutes").nullable(),
+  syncJitterMinutes: z.number().int().min(0).max(720).default(15),
+});
+
 export type InsertProwlerConfiguration = z.infer<typeof insertProwlerConfigurationSchema>;
 export type ProwlerConfigurationInput = z.infer<typeof prowlerConfigurationSchema>;
+export type UpdateProwlerConfigurationInput = z.infer<typeof updateProwlerConfigurationSchema>;
+export type FileSourceConfigurationInput = z.infer<typeof fileSourceConfigurationSchema>;
+export type UpdateFileSourceConfigurationInput = z.infer<typeof updateFileSourceConfigurationSchema>;
+export type ConfigurationSourceType = (typeof configurationSourceTypes)[number];
+export type SafeProwlerConfiguration = Omit<ProwlerConfiguration, "prowlerPasswordEncrypted">;
 export type ProwlerConfiguration = typeof prowlerConfigurations.$inferSelect;
+export type SyncScheduleInput = z.infer<typeof syncScheduleSchema>;
 export type Asset = typeof assets.$inferSelect;
+export type CloudProvider = (typeof cloudProviders)[number];
+export type AssetChange = typeof assetChanges.$inferSelect;
+export type PostureSnapshot = typeof postureSnapshots.$inferSelect;
+export type PostureHistoryPoint = Pick<
+  PostureSnapshot,
+  "snapshotDate" | "totalResources" | "criticalIssues" | "compliantResources" | "severityBreakdown" | "serviceBreakdown"
+>;
+export type SyncJob = typeof syncJobs.$inferSelect;
+// Returned by POST /api/assets/sync; the jobs are polled until they finish
+export type StartedSyncs = {
+  message: string;
+  jobs: Array<{ configurationId: string; configurationName: string; jobId: string }>;
+};
+export type ProcessedSourceFile = typeof processedSourceFiles.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = typeof reports.$inferInsert;
+// Report metadata as listed in the UI; the PDF itself is only sent on download
+export type ReportSummary = Omit<Report, "content">;
+export type ReportFrequency = (typeof reportFrequencies)[number];
+export type Finding = typeof findings.$inferSelect;
+export type InsertFinding = typeof findings.$inferInsert;
+// List rows leave out the raw Prowler payload, which only the asset detail shows
+export type FindingWithResource = Omit<Finding, "rawData"> & { resourceName: string | null };
+export type FindingQuery = z.infer<typeof findingQuerySchema>;
+export type FindingPage = {
+  items: FindingWithResource[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+export type TriageState = (typeof triageStates)[number];
+export type SuppressedTriageState = (typeof suppressedTriageStates)[number];
+export type TriageInput = z.infer<typeof triageSchema>;
+export type MuteRule = typeof muteRules.$inferSelect;
+export type MuteRuleInput = z.infer<typeof muteRuleSchema>;
+// Number of failing findings the rule mutes right now
+export type MuteRuleWithCount = MuteRule & { mutedFindings: number };
+export type MuteRuleVersion = typeof muteRuleVersions.$inferSelect;
+export type MuteRuleVersionWithUser = MuteRuleVersion & { username: string | null };
+export type TriageFields = Pick<Asset, "triageState" | "triageJustification" | "triageExpiresAt" | "triageAssigneeId" | "triagedBy" | "triagedAt">;
+export type TriageEvent = typeof triageEvents.$inferSelect;
+export type TriageEventWithUsers = TriageEvent & { username: string | null; assigneeUsername: string | null };
+export type EmailSettings = typeof emailSettings.$inferSelect;
+export type EmailSettingsInput = z.infer<typeof emailSettingsSchema>;
+// The SMTP password never leaves the server
+export type SafeEmailSettings = Omit<EmailSettings, "passwordEncrypted"> & { hasPassword: boolean };
+export type EmailEventType = (typeof emailEventTypes)[number];
+// A risk acceptance on an asset or a single finding that runs out soon
+export type ExpiringRiskAcceptance = {
+  type: "asset" | "finding";
+  id: string;
+  assetId: string | null;
+  resourceName: string | null;
+  checkId: string | null;
+  justification: string | null;
+  expiresAt: Date;
+};
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type NotificationChannelType = (typeof notificationChannelTypes)[number];
+export type NotificationChannelInput = z.infer<typeof notificationChannelSchema>;
+export type UpdateNotificationChannelInput = z.infer<typeof updateNotificationChannelSchema>;
+// Channels as sent to the browser; the secret never leaves the server
+export type SafeNotificationChannel = Omit<NotificationChannel, "secretEncrypted"> & { hasSecret: boolean };
+export type NotificationEventType = (typeof notificationEventTypes)[number];
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type NotificationDeliveryWithChannel = NotificationDelivery & { channelName: string };
+export type NotificationFinding = Pick<Finding, "id" | "checkId" | "checkTitle" | "severity" | "resourceId"> & { resourceName: string | null };
+export type NotificationAsset = Pick<Asset, "id" | "resourceId" | "resourceName" | "resourceType" | "severity">;
+// Body of a generic webhook; Slack and Teams channels get a message rendered from it.
+// Lists are capped, total holds the full count
+export type NotificationEvent = {
+  organizationId: string;
+  configuration: { id: string; name: string } | null;
+  occurredAt: string;
+} & (
+  | { type: "findings.new"; findings: NotificationFinding[]; total: number }
+  | { type: "assets.regressed"; assets: NotificationAsset[]; total: number }
+  | { type: "sync.failed"; trigger: SyncJob["trigger"]; error: string }
+  | {
+    type: "alert.triggered";
+    rule: { id: string; name: string; expression: string };
+    // Findings rules list the newly matching findings, metric rules the value that crossed the threshold
+    findings?: NotificationFinding[];
+    metric?: AlertMetricCondition & { value: number };
+    total: number;
+  }
+  | { type: "test" }
+);
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type AlertRuleInput = z.infer<typeof alertRuleSchema>;
+export type AlertRuleKind = (typeof alertRuleKinds)[number];
+export type AlertCondition = z.infer<typeof alertConditionSchema>;
+export type AlertConditionField = (typeof alertConditionFields)[number];
+export type AlertMetric = (typeof alertMetrics)[number];
+export type AlertMetricCondition = z.infer<typeof alertMetricConditionSchema>;
+export type Alert = typeof alerts.$inferSelect;
+// Matches a rule finds right now, as shown when previewing it
+export type AlertRulePreview = { total: number; findings: NotificationFinding[]; value: number | null; triggered: boolean };
+
+export type ComplianceRequirement = typeof complianceRequirements.$inferSelect;
+export type ComplianceRequirementStatus = (typeof complianceRequirementStatuses)[number];
+export type ComplianceRequirementScore = {
+  requirementId: string;
+  description: string | null;
+  status: ComplianceRequirementStatus;
+  passingFindings: number;
+  // Failing findings that are not muted or accepted
+  failingFindings: number;
+  suppressedFindings: number;
+  failingResources: number;
+  checkIds: string[];
+};
+// Score is the share of passing requirements among those that passed or failed; null when none did
+export type ComplianceFrameworkScore = {
+  framework: string;
+  // Set for the organization's own frameworks, which are looked up by id
+  customFrameworkId: string | null;
+  total: number;
+  passed: number;
+  failed: number;
+  manual: number;
+  score: number | null;
+};
+export type ComplianceFrameworkDetail = ComplianceFrameworkScore & { requirements: ComplianceRequirementScore[] };
+export type ControlFramework = typeof controlFrameworks.$inferSelect;
+export type FrameworkControl = typeof frameworkControls.$inferSelect;
+export type ControlFrameworkWithControls = ControlFramework & { controls: FrameworkControl[] };
+export type ControlFrameworkInput = z.infer<typeof controlFrameworkSchema>;
+export type ControlFrameworkDocument = z.input<typeof controlFrameworkSchema>;
+// Resource fields are null when the finding's resource is not in the inventory
+export type ComplianceFinding = Pick<Finding, "id" | "checkId" | "checkTitle" | "severity" | "statusExtended" | "assetId" | "resourceId"> & {
+  resourceName: string | null;
+  resourceType: string | null;
+  region: string | null;
+  accountId: string | null;
+};
+
+export type AssetFilters = z.infer<typeof assetFilterSchema>;
+export type AssetSort = z.infer<typeof assetSortSchema>;
+export type AssetQuery = z.infer<typeof assetQuerySchema>;
+export type AssetExportQuery = z.infer<typeof assetExportQuerySchema>;
+export type AssetExportFormat = (typeof assetExportFormats)[number];
+export type AssetFacetField = (typeof assetFacetFields)[number];
+export type AssetFacets = Record<AssetFacetField, Array<{ value: string; count: number }>>;
+export type AssetSortField = (typeof assetSortFields)[number];
+export type AssetPage = {
+  items: Asset[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+export type AssetDetail = {
+  asset: Asset & { configurationName: string };
+  findings: Finding[];
+  statusHistory: AssetChange[];
+  // Decisions on the asset and on its findings, newest first
+  triageHistory: TriageEventWithUsers[];
+  tags: Record<string, string>;
+};
+
+export type CheckSummary = {
+  checkId: string;
+  checkTitle: string | null;
+  service: string | null;
+  severity: Finding["severity"];
+  // Failing findings that are not muted or accepted
+  failCount: number;
+  passCount: number;
+  mutedCount: number;
+};